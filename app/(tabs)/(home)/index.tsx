@@ -1,12 +1,15 @@
-import React, { useMemo } from 'react';
+import React, { useEffect, useMemo } from 'react';
 import {
   ActivityIndicator,
+  Pressable,
   ScrollView,
   StyleSheet,
   Text,
   View,
 } from 'react-native';
 import { useQuery } from '@tanstack/react-query';
+import { useRouter } from 'expo-router';
+import { Clock } from 'lucide-react-native';
 import Colors from '@/constants/colors';
 import { useAuthStore } from '@/store/auth-store';
 import { getProfileByUserId } from '@/features/profile/profile-api';
@@ -15,6 +18,8 @@ import { listCalendarEvents } from '@/features/calendar/calendar-api';
 import { listSparkCodes } from '@/features/spark-codes/spark-codes-api';
 import { listContracts } from '@/features/contracts/contracts-api';
 import { IncomeEntry } from '@/types/income';
+import { formatDaysLeft, getAuthorizationWarnings } from '@/lib/spark-authorization';
+import { getRenewalReminderSettings, scheduleRenewalReminders } from '@/lib/renewal-reminders';
 
 function getTodayISO(): string {
   return new Date().toISOString().slice(0, 10);
@@ -27,6 +32,7 @@ function sumByDate(entries: IncomeEntry[], fromDate: string, toDate: string): nu
 }
 
 export default function DashboardScreen() {
+  const router = useRouter();
   const user = useAuthStore((s) => s.user);
   const status = useAuthStore((s) => s.status);
   const userId = user?.id ?? null;
@@ -61,6 +67,11 @@ export default function DashboardScreen() {
     enabled: !!userId,
   });
 
+  const { data: reminderSettings } = useQuery({
+    queryKey: ['renewal-reminders'],
+    queryFn: getRenewalReminderSettings,
+  });
+
   const isLoading = incomeLoading || calendarLoading || sparkLoading || contractsLoading;
   const activeSparkCount = sparkCodes.filter(c => c.status === 'active').length;
   const openContractsCount = contracts.filter(c => c.status !== 'paid').length;
@@ -83,6 +94,16 @@ export default function DashboardScreen() {
     };
   }, [incomeEntries]);
 
+  const authorizationWarnings = useMemo(
+    () => (reminderSettings ? getAuthorizationWarnings(sparkCodes, reminderSettings.leadDays) : []),
+    [sparkCodes, reminderSettings],
+  );
+
+  useEffect(() => {
+    if (!userId || sparkLoading || !reminderSettings) return;
+    scheduleRenewalReminders(sparkCodes, reminderSettings);
+  }, [userId, sparkLoading, sparkCodes, reminderSettings]);
+
   const showSignInMessage = !user && status !== 'loading';
 
   return (
@@ -127,6 +148,29 @@ export default function DashboardScreen() {
             </View>
           )}
 
+          {authorizationWarnings.length > 0 && (
+            <View style={[styles.card, styles.renewalCard]}>
+              <View style={styles.renewalHeader}>
+                <Clock size={16} color={Colors.warning} />
+                <Text style={styles.renewalTitle}>Spark authorizations ending soon</Text>
+              </View>
+              {authorizationWarnings.map((w) => (
+                <Pressable
+                  key={w.sparkCode.id}
+                  style={styles.renewalRow}
+                  onPress={() => router.push(`/spark-codes/${w.sparkCode.id}` as any)}
+                >
+                  <Text style={styles.renewalCode} numberOfLines={1}>
+                    {w.sparkCode.brand_name ? `${w.sparkCode.brand_name} · ` : ''}{w.sparkCode.code}
+                  </Text>
+                  <Text style={[styles.renewalDays, w.daysLeft <= 1 && styles.renewalDaysUrgent]}>
+                    {formatDaysLeft(w.daysLeft)}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+          )}
+
           <View style={styles.card}>
             <Text style={styles.cardValue}>{incomeEntries.length}</Text>
             <Text style={styles.cardLabel}>Income entries</Text>
@@ -206,4 +250,38 @@ const styles = StyleSheet.create({
     color: Colors.textSecondary,
     marginTop: 2,
   },
+  renewalCard: {
+    borderColor: 'rgba(245, 158, 11, 0.45)',
+  },
+  renewalHeader: {
+    flexDirection: 'row' as const,
+    alignItems: 'center' as const,
+    gap: 8,
+    marginBottom: 6,
+  },
+  renewalTitle: {
+    fontSize: 15,
+    fontWeight: '600' as const,
+    color: Colors.text,
+  },
+  renewalRow: {
+    flexDirection: 'row' as const,
+    alignItems: 'center' as const,
+    justifyContent: 'space-between' as const,
+    gap: 12,
+    paddingVertical: 6,
+  },
+  renewalCode: {
+    flex: 1,
+    fontSize: 14,
+    color: Colors.text,
+  },
+  renewalDays: {
+    fontSize: 13,
+    color: Colors.warning,
+  },
+  renewalDaysUrgent: {
+    color: Colors.danger,
+    fontWeight: '600' as const,
+  },
 });
@@ -12,6 +12,11 @@ export default function SettingsLayout() {
       }}
     >
       <Stack.Screen name="index" options={{ title: 'Settings' }} />
+      <Stack.Screen name="link-in-bio" options={{ title: 'Link in Bio' }} />
+      <Stack.Screen name="custom-domains" options={{ title: 'Custom Domains' }} />
+      <Stack.Screen name="webhooks" options={{ title: 'Webhooks' }} />
+      <Stack.Screen name="renewal-reminders" options={{ title: 'Renewal Reminders' }} />
+      <Stack.Screen name="brand-message" options={{ title: 'Brand Message' }} />
     </Stack>
   );
 }
@@ -0,0 +1,217 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import Colors from '@/constants/colors';
+import { toHumanMessage } from '@/lib/error-message';
+import {
+  BRAND_MESSAGE_PLACEHOLDERS,
+  BrandMessageTemplate,
+  DEFAULT_BRAND_MESSAGE_TEMPLATE,
+  getBrandMessageTemplate,
+  saveBrandMessageTemplate,
+} from '@/lib/brand-message';
+
+export default function BrandMessageScreen() {
+  const queryClient = useQueryClient();
+  const [subject, setSubject] = useState<string>('');
+  const [body, setBody] = useState<string>('');
+
+  const { data: template, isLoading } = useQuery({
+    queryKey: ['brand-message-template'],
+    queryFn: getBrandMessageTemplate,
+  });
+
+  useEffect(() => {
+    if (!template) return;
+    setSubject(template.subject);
+    setBody(template.body);
+  }, [template]);
+
+  const mutation = useMutation({
+    mutationFn: (next: BrandMessageTemplate) => saveBrandMessageTemplate(next),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['brand-message-template'] }),
+  });
+
+  const isDirty = !!template && (subject !== template.subject || body !== template.body);
+
+  if (isLoading) {
+    return (
+      <View style={styles.container}>
+        <ActivityIndicator color={Colors.primary} style={styles.loader} />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Message to brands</Text>
+        <Text style={styles.hintText}>
+          Used by Send to brand on a Spark code. Placeholders in braces are filled in from the code and the matching
+          contract.
+        </Text>
+
+        <Text style={styles.label}>Subject</Text>
+        <TextInput
+          style={styles.input}
+          value={subject}
+          onChangeText={setSubject}
+          placeholderTextColor={Colors.textMuted}
+          testID="brand-message-subject"
+        />
+
+        <Text style={styles.label}>Message</Text>
+        <TextInput
+          style={[styles.input, styles.bodyInput]}
+          value={body}
+          onChangeText={setBody}
+          multiline
+          textAlignVertical="top"
+          placeholderTextColor={Colors.textMuted}
+          testID="brand-message-body"
+        />
+
+        <View style={styles.actions}>
+          <Pressable
+            onPress={() => {
+              setSubject(DEFAULT_BRAND_MESSAGE_TEMPLATE.subject);
+              setBody(DEFAULT_BRAND_MESSAGE_TEMPLATE.body);
+            }}
+          >
+            <Text style={styles.resetText}>Reset to default</Text>
+          </Pressable>
+          <Pressable
+            style={[styles.saveButton, (!isDirty || mutation.isPending) && styles.saveButtonDisabled]}
+            onPress={() => mutation.mutate({ subject, body })}
+            disabled={!isDirty || mutation.isPending}
+            testID="save-brand-message-btn"
+          >
+            {mutation.isPending ? (
+              <ActivityIndicator size="small" color={Colors.white} />
+            ) : (
+              <Text style={styles.saveText}>Save</Text>
+            )}
+          </Pressable>
+        </View>
+        {mutation.isError ? <Text style={styles.errorText}>{toHumanMessage(mutation.error)}</Text> : null}
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Placeholders</Text>
+        {BRAND_MESSAGE_PLACEHOLDERS.map((p) => (
+          <View key={p.key} style={styles.placeholderRow}>
+            <Text style={styles.placeholderKey}>{`{${p.key}}`}</Text>
+            <Text style={styles.placeholderDescription}>{p.description}</Text>
+          </View>
+        ))}
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  loader: {
+    marginVertical: 32,
+  },
+  section: {
+    backgroundColor: Colors.surface,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: Colors.cardBorder,
+    padding: 16,
+    marginBottom: 12,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600' as const,
+    color: Colors.text,
+    marginBottom: 6,
+  },
+  hintText: {
+    fontSize: 12,
+    lineHeight: 17,
+    color: Colors.textMuted,
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '500' as const,
+    color: Colors.textSecondary,
+    marginTop: 8,
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: Colors.inputBorder,
+    borderRadius: 10,
+    backgroundColor: Colors.inputBg,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: Colors.text,
+  },
+  bodyInput: {
+    minHeight: 200,
+  },
+  actions: {
+    flexDirection: 'row' as const,
+    alignItems: 'center' as const,
+    justifyContent: 'space-between' as const,
+    marginTop: 12,
+  },
+  resetText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
+  saveButton: {
+    backgroundColor: Colors.primary,
+    borderRadius: 10,
+    paddingHorizontal: 18,
+    paddingVertical: 10,
+  },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+  saveText: {
+    fontSize: 15,
+    fontWeight: '600' as const,
+    color: Colors.white,
+  },
+  placeholderRow: {
+    flexDirection: 'row' as const,
+    gap: 10,
+    paddingVertical: 4,
+  },
+  placeholderKey: {
+    width: 170,
+    fontSize: 13,
+    fontWeight: '500' as const,
+    color: Colors.primary,
+  },
+  placeholderDescription: {
+    flex: 1,
+    fontSize: 13,
+    color: Colors.textSecondary,
+  },
+  errorText: {
+    fontSize: 13,
+    color: Colors.danger,
+    marginTop: 6,
+  },
+});
@@ -0,0 +1,339 @@
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import * as Clipboard from 'expo-clipboard';
+import { Copy, Globe, Plus, X } from 'lucide-react-native';
+import Colors from '@/constants/colors';
+import {
+  addCustomDomain,
+  listCustomDomains,
+  removeCustomDomain,
+  verifyCustomDomain,
+} from '@/features/custom-domains/custom-domains-api';
+import { toHumanMessage } from '@/lib/error-message';
+import { normalizeDomain, validateDomain } from '@/lib/custom-domains';
+import { getRedirectBaseUrl } from '@/lib/trpc';
+import { CustomDomain } from '@/types/custom-domains';
+
+function getDefaultHost(): string | null {
+  const base = getRedirectBaseUrl();
+  if (!base) return null;
+  try {
+    return new URL(base).host;
+  } catch {
+    return null;
+  }
+}
+
+function CopyableValue({ label, value }: { label: string; value: string }) {
+  return (
+    <Pressable style={styles.recordRow} onPress={() => Clipboard.setStringAsync(value)}>
+      <Text style={styles.recordLabel}>{label}</Text>
+      <Text style={styles.recordValue} selectable>{value}</Text>
+      <Copy size={14} color={Colors.textMuted} />
+    </Pressable>
+  );
+}
+
+function DomainRow({
+  domain,
+  onVerify,
+  onRemove,
+  verifying,
+  disabled,
+  verifyError,
+}: {
+  domain: CustomDomain;
+  onVerify: () => void;
+  onRemove: () => void;
+  verifying: boolean;
+  disabled: boolean;
+  verifyError: string | null;
+}) {
+  const verified = !!domain.verified_at;
+  return (
+    <View style={styles.domainRow}>
+      <View style={styles.domainHeader}>
+        <Globe size={16} color={Colors.textSecondary} />
+        <Text style={styles.domainText} numberOfLines={1}>{domain.domain}</Text>
+        <Text style={[styles.badge, verified ? styles.badgeVerified : styles.badgePending]}>
+          {verified ? 'Verified' : 'Pending'}
+        </Text>
+        <Pressable onPress={onRemove} disabled={disabled} hitSlop={8}>
+          <X size={16} color={Colors.textMuted} />
+        </Pressable>
+      </View>
+      {!verified ? (
+        <View style={styles.pendingBox}>
+          <Text style={styles.hintText}>Add this TXT record at your DNS provider, then verify.</Text>
+          <CopyableValue label="Name" value={domain.txt_name} />
+          <CopyableValue label="Value" value={domain.txt_value} />
+          <Pressable
+            style={[styles.verifyButton, disabled && styles.addButtonDisabled]}
+            onPress={onVerify}
+            disabled={disabled}
+            testID={`verify-domain-${domain.domain}`}
+          >
+            {verifying ? (
+              <ActivityIndicator size="small" color={Colors.white} />
+            ) : (
+              <Text style={styles.verifyText}>Verify</Text>
+            )}
+          </Pressable>
+          {verifyError ? <Text style={styles.errorText}>{verifyError}</Text> : null}
+        </View>
+      ) : null}
+    </View>
+  );
+}
+
+export default function CustomDomainsScreen() {
+  const queryClient = useQueryClient();
+  const [newDomain, setNewDomain] = useState<string>('');
+
+  const { data: domains = [], isLoading } = useQuery({
+    queryKey: ['custom-domains'],
+    queryFn: listCustomDomains,
+  });
+
+  const onChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ['custom-domains'] });
+    queryClient.invalidateQueries({ queryKey: ['profile'] });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: (domain: string) => addCustomDomain(domain),
+    onSuccess: () => {
+      onChanged();
+      setNewDomain('');
+    },
+  });
+
+  const verifyMutation = useMutation({
+    mutationFn: (domain: string) => verifyCustomDomain(domain),
+    onSuccess: onChanged,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (domain: string) => removeCustomDomain(domain),
+    onSuccess: onChanged,
+  });
+
+  const busy = addMutation.isPending || verifyMutation.isPending || removeMutation.isPending;
+  const newDomainError = newDomain.trim() ? validateDomain(newDomain) : null;
+  const defaultHost = getDefaultHost();
+
+  const addDomain = () => {
+    if (!newDomain.trim() || newDomainError) return;
+    addMutation.mutate(normalizeDomain(newDomain));
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Short-link domains</Text>
+        <Text style={styles.hintText}>
+          Add your domain and publish the TXT record it shows to prove it is yours. Then point a CNAME record for the
+          domain at {defaultHost ?? 'the redirect host'}. Links on a custom domain look like go.yourbrand.com/summer-glow,
+          and each domain has its own set of custom links.
+        </Text>
+
+        {isLoading ? (
+          <ActivityIndicator color={Colors.primary} style={styles.loader} />
+        ) : domains.length === 0 ? (
+          <Text style={styles.emptyText}>No custom domains yet.</Text>
+        ) : (
+          domains.map((domain) => (
+            <DomainRow
+              key={domain.domain}
+              domain={domain}
+              onVerify={() => verifyMutation.mutate(domain.domain)}
+              onRemove={() => removeMutation.mutate(domain.domain)}
+              verifying={verifyMutation.isPending && verifyMutation.variables === domain.domain}
+              disabled={busy}
+              verifyError={
+                verifyMutation.isError && verifyMutation.variables === domain.domain
+                  ? toHumanMessage(verifyMutation.error)
+                  : null
+              }
+            />
+          ))
+        )}
+
+        <View style={styles.addRow}>
+          <TextInput
+            style={[styles.input, styles.addInput]}
+            value={newDomain}
+            onChangeText={setNewDomain}
+            placeholder="go.yourbrand.com"
+            placeholderTextColor={Colors.textMuted}
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+            testID="custom-domain-input"
+          />
+          <Pressable
+            style={[styles.addButton, (!!newDomainError || busy) && styles.addButtonDisabled]}
+            onPress={addDomain}
+            disabled={!!newDomainError || busy}
+            testID="add-custom-domain-btn"
+          >
+            {addMutation.isPending ? (
+              <ActivityIndicator size="small" color={Colors.white} />
+            ) : (
+              <Plus size={18} color={Colors.white} />
+            )}
+          </Pressable>
+        </View>
+        {newDomainError ? <Text style={styles.errorText}>{newDomainError}</Text> : null}
+        {addMutation.isError ? <Text style={styles.errorText}>{toHumanMessage(addMutation.error)}</Text> : null}
+        {removeMutation.isError ? <Text style={styles.errorText}>{toHumanMessage(removeMutation.error)}</Text> : null}
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  section: {
+    backgroundColor: Colors.surface,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: Colors.cardBorder,
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600' as const,
+    color: Colors.text,
+    marginBottom: 6,
+  },
+  hintText: {
+    fontSize: 12,
+    lineHeight: 17,
+    color: Colors.textMuted,
+    marginBottom: 8,
+  },
+  loader: {
+    marginVertical: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    marginVertical: 8,
+  },
+  domainRow: {
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: Colors.cardBorder,
+  },
+  domainHeader: {
+    flexDirection: 'row' as const,
+    alignItems: 'center' as const,
+    gap: 10,
+  },
+  domainText: {
+    flex: 1,
+    fontSize: 15,
+    color: Colors.text,
+  },
+  badge: {
+    fontSize: 11,
+    fontWeight: '600' as const,
+    borderRadius: 6,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    overflow: 'hidden' as const,
+  },
+  badgeVerified: {
+    color: Colors.success,
+    backgroundColor: 'rgba(34, 197, 94, 0.15)',
+  },
+  badgePending: {
+    color: Colors.warning,
+    backgroundColor: 'rgba(245, 158, 11, 0.15)',
+  },
+  pendingBox: {
+    marginTop: 10,
+    marginLeft: 26,
+  },
+  recordRow: {
+    flexDirection: 'row' as const,
+    alignItems: 'center' as const,
+    gap: 8,
+    paddingVertical: 4,
+  },
+  recordLabel: {
+    width: 44,
+    fontSize: 12,
+    color: Colors.textMuted,
+  },
+  recordValue: {
+    flex: 1,
+    fontSize: 13,
+    color: Colors.text,
+  },
+  verifyButton: {
+    alignSelf: 'flex-start' as const,
+    backgroundColor: Colors.primary,
+    borderRadius: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    marginTop: 8,
+  },
+  verifyText: {
+    fontSize: 14,
+    fontWeight: '600' as const,
+    color: Colors.white,
+  },
+  addRow: {
+    flexDirection: 'row' as const,
+    alignItems: 'center' as const,
+    gap: 8,
+    marginTop: 12,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: Colors.inputBorder,
+    borderRadius: 10,
+    backgroundColor: Colors.inputBg,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: Colors.text,
+  },
+  addInput: {
+    flex: 1,
+  },
+  addButton: {
+    backgroundColor: Colors.primary,
+    borderRadius: 10,
+    width: 42,
+    height: 42,
+    alignItems: 'center' as const,
+    justifyContent: 'center' as const,
+  },
+  addButtonDisabled: {
+    opacity: 0.6,
+  },
+  errorText: {
+    fontSize: 13,
+    color: Colors.danger,
+    marginTop: 6,
+  },
+});
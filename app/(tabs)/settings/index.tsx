@@ -12,7 +12,8 @@ import {
 } from 'react-native';
 import { useQueryClient } from '@tanstack/react-query';
 import * as WebBrowser from 'expo-web-browser';
-import { ChevronRight, Globe, Moon, User, Star, Share2, HelpCircle, FileText, Shield, LogOut } from 'lucide-react-native';
+import { useRouter } from 'expo-router';
+import { Bell, ChevronRight, Globe, Link2, Mail, Moon, Network, Webhook, User, Star, Share2, HelpCircle, FileText, Shield, LogOut } from 'lucide-react-native';
 import Colors from '@/constants/colors';
 import { useAuthStore, getCurrentUserId } from '@/store/auth-store';
 import { updateProfile } from '@/features/profile/profile-api';
@@ -62,6 +63,7 @@ export default function SettingsScreen() {
   const signOut = useAuthStore((s) => s.signOut);
   const userId = useAuthStore((s) => s.user?.id) ?? null;
   const queryClient = useQueryClient();
+  const router = useRouter();
   const [editModalVisible, setEditModalVisible] = useState<boolean>(false);
   const [editFirstName, setEditFirstName] = useState<string>('');
 
@@ -110,6 +112,33 @@ export default function SettingsScreen() {
           icon={<User size={18} color={Colors.textSecondary} />}
           onPress={openEditProfile}
         />
+        <SettingsItem
+          label="Link in bio"
+          value={profile?.handle ? `@${profile.handle}` : 'Not set'}
+          icon={<Link2 size={18} color={Colors.textSecondary} />}
+          onPress={() => router.push('/settings/link-in-bio' as any)}
+        />
+        <SettingsItem
+          label="Custom domains"
+          value={profile?.custom_domains?.length ? String(profile.custom_domains.length) : 'None'}
+          icon={<Network size={18} color={Colors.textSecondary} />}
+          onPress={() => router.push('/settings/custom-domains' as any)}
+        />
+        <SettingsItem
+          label="Webhooks"
+          icon={<Webhook size={18} color={Colors.textSecondary} />}
+          onPress={() => router.push('/settings/webhooks' as any)}
+        />
+        <SettingsItem
+          label="Renewal reminders"
+          icon={<Bell size={18} color={Colors.textSecondary} />}
+          onPress={() => router.push('/settings/renewal-reminders' as any)}
+        />
+        <SettingsItem
+          label="Brand message"
+          icon={<Mail size={18} color={Colors.textSecondary} />}
+          onPress={() => router.push('/settings/brand-message' as any)}
+        />
       </SettingsSection>
 
       <SettingsSection title="About">
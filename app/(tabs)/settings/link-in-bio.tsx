@@ -0,0 +1,403 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import * as Clipboard from 'expo-clipboard';
+import { ChevronDown, ChevronUp, Copy, ExternalLink } from 'lucide-react-native';
+import Colors from '@/constants/colors';
+import { useAuthStore } from '@/store/auth-store';
+import { getProfileByUserId, updateProfileFallbackUrl, updateProfileHandle } from '@/features/profile/profile-api';
+import { getNotFoundHits } from '@/features/scan-events/scan-events-api';
+import { listSparkCodes, saveBioEntries } from '@/features/spark-codes/spark-codes-api';
+import { SparkCode } from '@/types/spark-codes';
+import { toHumanMessage } from '@/lib/error-message';
+import { validateHandle } from '@/lib/short-code';
+import { getBioPageUrl } from '@/lib/trpc';
+
+type BioDraft = {
+  id: string;
+  code: string;
+  brandName: string | null;
+  visible: boolean;
+  label: string;
+  thumbnailUrl: string;
+};
+
+function isListable(code: SparkCode): boolean {
+  if (!code.is_active) return false;
+  return !code.expires_at || new Date(code.expires_at) > new Date();
+}
+
+function toDrafts(codes: SparkCode[]): BioDraft[] {
+  return codes
+    .filter(isListable)
+    .sort((a, b) => a.bio_position - b.bio_position || b.created_at.localeCompare(a.created_at))
+    .map((c) => ({
+      id: c.id,
+      code: c.code,
+      brandName: c.brand_name,
+      visible: c.bio_visible,
+      label: c.bio_label ?? '',
+      thumbnailUrl: c.thumbnail_url ?? '',
+    }));
+}
+
+export default function LinkInBioScreen() {
+  const userId = useAuthStore((s) => s.user?.id) ?? null;
+  const queryClient = useQueryClient();
+  const [handle, setHandle] = useState<string>('');
+  const [drafts, setDrafts] = useState<BioDraft[]>([]);
+  const [copied, setCopied] = useState<boolean>(false);
+  const [fallbackUrl, setFallbackUrl] = useState<string>('');
+
+  const { data: profile } = useQuery({
+    queryKey: ['profile', userId],
+    queryFn: () => userId ? getProfileByUserId(userId) : null,
+    enabled: !!userId,
+  });
+
+  const { data: codes, isLoading } = useQuery({
+    queryKey: ['spark-codes', 'all'],
+    queryFn: listSparkCodes,
+    enabled: !!userId,
+  });
+
+  const { data: notFoundHits } = useQuery({
+    queryKey: ['scan-analytics', 'not-found', userId],
+    queryFn: () => getNotFoundHits({ from: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString() }),
+    enabled: !!userId && (profile?.custom_domains?.length ?? 0) > 0,
+  });
+
+  useEffect(() => {
+    setHandle(profile?.handle ?? '');
+  }, [profile?.handle]);
+
+  useEffect(() => {
+    setFallbackUrl(profile?.fallback_url ?? '');
+  }, [profile?.fallback_url]);
+
+  useEffect(() => {
+    if (codes) setDrafts(toDrafts(codes));
+  }, [codes]);
+
+  const handleMutation = useMutation({
+    mutationFn: (value: string) => updateProfileHandle(userId!, value.trim() || null),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['profile'] });
+    },
+  });
+
+  const fallbackMutation = useMutation({
+    mutationFn: (value: string) => updateProfileFallbackUrl(userId!, value),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['profile'] });
+    },
+  });
+
+  const entriesMutation = useMutation({
+    mutationFn: () =>
+      saveBioEntries(
+        drafts.map((d, i) => ({
+          id: d.id,
+          bio_position: i,
+          bio_visible: d.visible,
+          bio_label: d.label.trim() || null,
+          thumbnail_url: d.thumbnailUrl.trim() || null,
+        })),
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['spark-codes'] });
+    },
+  });
+
+  const handleError = handle.trim() ? validateHandle(handle) : null;
+  const savedHandle = profile?.handle ?? null;
+  const pageUrl = savedHandle ? getBioPageUrl(savedHandle) : null;
+
+  const updateDraft = (index: number, patch: Partial<BioDraft>) => {
+    setDrafts((prev) => prev.map((d, i) => (i === index ? { ...d, ...patch } : d)));
+  };
+
+  const moveDraft = (index: number, delta: number) => {
+    setDrafts((prev) => {
+      const target = index + delta;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const copyPageUrl = async () => {
+    if (!pageUrl) return;
+    await Clipboard.setStringAsync(pageUrl);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Your handle</Text>
+        <TextInput
+          style={styles.input}
+          value={handle}
+          onChangeText={setHandle}
+          placeholder="yourname"
+          placeholderTextColor={Colors.textMuted}
+          autoCapitalize="none"
+          autoCorrect={false}
+          testID="bio-handle-input"
+        />
+        {handleError ? <Text style={styles.errorText}>{handleError}</Text> : null}
+        {handleMutation.isError ? (
+          <Text style={styles.errorText}>{toHumanMessage(handleMutation.error)}</Text>
+        ) : null}
+        <Pressable
+          style={[styles.saveButton, (!!handleError || handleMutation.isPending) && styles.saveButtonDisabled]}
+          onPress={() => handleMutation.mutate(handle)}
+          disabled={!!handleError || handleMutation.isPending}
+        >
+          {handleMutation.isPending ? (
+            <ActivityIndicator size="small" color={Colors.white} />
+          ) : (
+            <Text style={styles.saveButtonText}>Save handle</Text>
+          )}
+        </Pressable>
+        {pageUrl ? (
+          <Pressable style={styles.linkRow} onPress={copyPageUrl}>
+            <ExternalLink size={14} color={Colors.primary} />
+            <Text style={styles.linkText} numberOfLines={1}>{pageUrl}</Text>
+            <Copy size={14} color={Colors.textMuted} />
+          </Pressable>
+        ) : null}
+        {copied ? <Text style={styles.hintText}>Copied</Text> : null}
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Fallback link</Text>
+        <Text style={styles.hintText}>
+          Where expired codes (without their own fallback) and unknown links on your domains go. Leave blank to show a
+          page with your links below.
+        </Text>
+        <TextInput
+          style={[styles.input, styles.stackedInput]}
+          value={fallbackUrl}
+          onChangeText={setFallbackUrl}
+          placeholder="https://yourshop.com"
+          placeholderTextColor={Colors.textMuted}
+          autoCapitalize="none"
+          keyboardType="url"
+          testID="fallback-url-input"
+        />
+        {fallbackMutation.isError ? (
+          <Text style={styles.errorText}>{toHumanMessage(fallbackMutation.error)}</Text>
+        ) : null}
+        {notFoundHits ? (
+          <Text style={styles.hintText}>
+            {notFoundHits} {notFoundHits === 1 ? 'visit' : 'visits'} to unknown links on your domains in the last 30 days.
+          </Text>
+        ) : null}
+        <Pressable
+          style={[styles.saveButton, fallbackMutation.isPending && styles.saveButtonDisabled]}
+          onPress={() => fallbackMutation.mutate(fallbackUrl)}
+          disabled={fallbackMutation.isPending}
+        >
+          {fallbackMutation.isPending ? (
+            <ActivityIndicator size="small" color={Colors.white} />
+          ) : (
+            <Text style={styles.saveButtonText}>Save fallback</Text>
+          )}
+        </Pressable>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Links on your page</Text>
+        <Text style={styles.hintText}>Active Spark codes appear here. Reorder, hide or rename them; taps still count as scans.</Text>
+
+        {isLoading ? (
+          <ActivityIndicator color={Colors.primary} style={styles.loader} />
+        ) : drafts.length === 0 ? (
+          <Text style={styles.emptyText}>No active Spark codes yet.</Text>
+        ) : (
+          drafts.map((d, i) => (
+            <View key={d.id} style={[styles.entry, !d.visible && styles.entryHidden]}>
+              <View style={styles.entryHeader}>
+                <View style={styles.entryTitleWrap}>
+                  <Text style={styles.entryTitle} numberOfLines={1}>{d.label.trim() || d.code}</Text>
+                  {d.brandName ? <Text style={styles.entrySubtitle} numberOfLines={1}>{d.brandName}</Text> : null}
+                </View>
+                <Pressable onPress={() => moveDraft(i, -1)} disabled={i === 0} hitSlop={6}>
+                  <ChevronUp size={18} color={i === 0 ? Colors.textMuted : Colors.textSecondary} />
+                </Pressable>
+                <Pressable onPress={() => moveDraft(i, 1)} disabled={i === drafts.length - 1} hitSlop={6}>
+                  <ChevronDown size={18} color={i === drafts.length - 1 ? Colors.textMuted : Colors.textSecondary} />
+                </Pressable>
+                <Switch
+                  value={d.visible}
+                  onValueChange={(value) => updateDraft(i, { visible: value })}
+                  trackColor={{ false: Colors.surfaceLight, true: Colors.primary }}
+                  thumbColor={Colors.white}
+                />
+              </View>
+              <TextInput
+                style={[styles.input, styles.stackedInput]}
+                value={d.label}
+                onChangeText={(text) => updateDraft(i, { label: text })}
+                placeholder={`Button label (default: ${d.code})`}
+                placeholderTextColor={Colors.textMuted}
+              />
+              <TextInput
+                style={[styles.input, styles.stackedInput]}
+                value={d.thumbnailUrl}
+                onChangeText={(text) => updateDraft(i, { thumbnailUrl: text })}
+                placeholder="Thumbnail image URL (optional)"
+                placeholderTextColor={Colors.textMuted}
+                autoCapitalize="none"
+                keyboardType="url"
+              />
+            </View>
+          ))
+        )}
+
+        {entriesMutation.isError ? (
+          <Text style={styles.errorText}>{toHumanMessage(entriesMutation.error)}</Text>
+        ) : null}
+        {drafts.length > 0 ? (
+          <Pressable
+            style={[styles.saveButton, entriesMutation.isPending && styles.saveButtonDisabled]}
+            onPress={() => entriesMutation.mutate()}
+            disabled={entriesMutation.isPending}
+            testID="save-bio-entries-btn"
+          >
+            {entriesMutation.isPending ? (
+              <ActivityIndicator size="small" color={Colors.white} />
+            ) : (
+              <Text style={styles.saveButtonText}>Save page</Text>
+            )}
+          </Pressable>
+        ) : null}
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  section: {
+    backgroundColor: Colors.surface,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: Colors.cardBorder,
+    padding: 16,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600' as const,
+    color: Colors.text,
+    marginBottom: 10,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: Colors.inputBorder,
+    borderRadius: 10,
+    backgroundColor: Colors.inputBg,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: Colors.text,
+  },
+  stackedInput: {
+    marginTop: 8,
+  },
+  hintText: {
+    fontSize: 12,
+    color: Colors.textMuted,
+    marginTop: 6,
+  },
+  errorText: {
+    fontSize: 13,
+    color: Colors.danger,
+    marginTop: 6,
+  },
+  saveButton: {
+    backgroundColor: Colors.primary,
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center' as const,
+    marginTop: 14,
+  },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    color: Colors.white,
+    fontSize: 15,
+    fontWeight: '600' as const,
+  },
+  linkRow: {
+    flexDirection: 'row' as const,
+    alignItems: 'center' as const,
+    gap: 8,
+    marginTop: 12,
+    padding: 10,
+    borderRadius: 10,
+    backgroundColor: Colors.surfaceLight,
+  },
+  linkText: {
+    flex: 1,
+    fontSize: 13,
+    color: Colors.primary,
+  },
+  loader: {
+    marginVertical: 20,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    marginTop: 12,
+  },
+  entry: {
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: Colors.cardBorder,
+    paddingVertical: 12,
+    marginTop: 8,
+  },
+  entryHidden: {
+    opacity: 0.5,
+  },
+  entryHeader: {
+    flexDirection: 'row' as const,
+    alignItems: 'center' as const,
+    gap: 10,
+  },
+  entryTitleWrap: {
+    flex: 1,
+  },
+  entryTitle: {
+    fontSize: 15,
+    fontWeight: '500' as const,
+    color: Colors.text,
+  },
+  entrySubtitle: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+});
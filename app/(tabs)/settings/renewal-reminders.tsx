@@ -0,0 +1,175 @@
+import React from 'react';
+import {
+  ActivityIndicator,
+  Platform,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  Text,
+  View,
+} from 'react-native';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import Colors from '@/constants/colors';
+import { toHumanMessage } from '@/lib/error-message';
+import { REMINDER_LEAD_OPTIONS } from '@/lib/spark-authorization';
+import {
+  ensureNotificationPermission,
+  getRenewalReminderSettings,
+  RenewalReminderSettings,
+  saveRenewalReminderSettings,
+} from '@/lib/renewal-reminders';
+
+function formatLeadDays(days: number): string {
+  return days === 1 ? '1 day before' : `${days} days before`;
+}
+
+export default function RenewalRemindersScreen() {
+  const queryClient = useQueryClient();
+
+  const { data: settings, isLoading } = useQuery({
+    queryKey: ['renewal-reminders'],
+    queryFn: getRenewalReminderSettings,
+  });
+
+  const mutation = useMutation({
+    mutationFn: async (next: RenewalReminderSettings) => {
+      if (next.notificationsEnabled && !settings?.notificationsEnabled) {
+        await ensureNotificationPermission();
+      }
+      await saveRenewalReminderSettings(next);
+    },
+    // The dashboard reschedules notifications whenever these settings change.
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['renewal-reminders'] }),
+  });
+
+  if (isLoading || !settings) {
+    return (
+      <View style={styles.container}>
+        <ActivityIndicator color={Colors.primary} style={styles.loader} />
+      </View>
+    );
+  }
+
+  const toggleLeadDays = (days: number) => {
+    const leadDays = settings.leadDays.includes(days)
+      ? settings.leadDays.filter((d) => d !== days)
+      : [...settings.leadDays, days].sort((a, b) => b - a);
+    mutation.mutate({ ...settings, leadDays });
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Warn me</Text>
+        <Text style={styles.hintText}>
+          Spark codes with a TikTok authorization window show up on the dashboard once they are this close to ending.
+        </Text>
+        <View style={styles.chipRow}>
+          {REMINDER_LEAD_OPTIONS.map((days) => {
+            const selected = settings.leadDays.includes(days);
+            return (
+              <Pressable
+                key={days}
+                style={[styles.chip, selected && styles.chipActive]}
+                onPress={() => toggleLeadDays(days)}
+                disabled={mutation.isPending}
+              >
+                <Text style={[styles.chipText, selected && styles.chipTextActive]}>{formatLeadDays(days)}</Text>
+              </Pressable>
+            );
+          })}
+        </View>
+      </View>
+
+      <View style={styles.section}>
+        <View style={styles.switchRow}>
+          <Text style={styles.sectionTitle}>Notifications</Text>
+          <Switch
+            value={settings.notificationsEnabled}
+            onValueChange={(notificationsEnabled) => mutation.mutate({ ...settings, notificationsEnabled })}
+            disabled={mutation.isPending || Platform.OS === 'web'}
+            trackColor={{ false: Colors.surfaceLight, true: Colors.primary }}
+            thumbColor={Colors.white}
+          />
+        </View>
+        <Text style={styles.hintText}>
+          {Platform.OS === 'web'
+            ? 'Reminder notifications are only available in the mobile app.'
+            : 'Get a notification on this device at each lead time, even when the app is closed.'}
+        </Text>
+      </View>
+
+      {mutation.isError ? <Text style={styles.errorText}>{toHumanMessage(mutation.error)}</Text> : null}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  loader: {
+    marginVertical: 32,
+  },
+  section: {
+    backgroundColor: Colors.surface,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: Colors.cardBorder,
+    padding: 16,
+    marginBottom: 12,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600' as const,
+    color: Colors.text,
+    marginBottom: 6,
+  },
+  hintText: {
+    fontSize: 12,
+    lineHeight: 17,
+    color: Colors.textMuted,
+    marginBottom: 8,
+  },
+  switchRow: {
+    flexDirection: 'row' as const,
+    alignItems: 'center' as const,
+    justifyContent: 'space-between' as const,
+  },
+  chipRow: {
+    flexDirection: 'row' as const,
+    flexWrap: 'wrap' as const,
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: Colors.inputBorder,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    backgroundColor: Colors.inputBg,
+  },
+  chipActive: {
+    borderColor: Colors.primary,
+    backgroundColor: 'rgba(13, 148, 136, 0.15)',
+  },
+  chipText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+  },
+  chipTextActive: {
+    color: Colors.primary,
+    fontWeight: '500' as const,
+  },
+  errorText: {
+    fontSize: 13,
+    color: Colors.danger,
+    marginTop: 6,
+  },
+});
@@ -0,0 +1,347 @@
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import * as Clipboard from 'expo-clipboard';
+import { CheckCircle2, Copy, Plus, Send, Trash2, XCircle } from 'lucide-react-native';
+import Colors from '@/constants/colors';
+import {
+  createWebhook,
+  deleteWebhook,
+  listWebhookDeliveries,
+  listWebhooks,
+  sendTestWebhook,
+  setWebhookActive,
+} from '@/features/webhooks/webhooks-api';
+import { Webhook } from '@/types/webhooks';
+import { toHumanMessage } from '@/lib/error-message';
+
+function maskSecret(secret: string): string {
+  return `${secret.slice(0, 10)}…${secret.slice(-4)}`;
+}
+
+function WebhookCard({ webhook }: { webhook: Webhook }) {
+  const queryClient = useQueryClient();
+  const [secretCopied, setSecretCopied] = useState<boolean>(false);
+  const [testResult, setTestResult] = useState<string | null>(null);
+
+  const { data: deliveries = [] } = useQuery({
+    queryKey: ['webhooks', 'deliveries', webhook.id],
+    queryFn: () => listWebhookDeliveries(webhook.id),
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['webhooks'] });
+  };
+
+  const testMutation = useMutation({
+    mutationFn: () => sendTestWebhook(webhook.id),
+    onMutate: () => setTestResult(null),
+    onSuccess: (delivered) => {
+      setTestResult(delivered ? 'Test event delivered.' : 'Test event failed. See the log below.');
+      refresh();
+    },
+    onError: (e) => setTestResult(toHumanMessage(e)),
+  });
+
+  const activeMutation = useMutation({
+    mutationFn: (isActive: boolean) => setWebhookActive(webhook.id, isActive),
+    onSuccess: refresh,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => deleteWebhook(webhook.id),
+    onSuccess: refresh,
+  });
+
+  const confirmDelete = () => {
+    Alert.alert('Delete webhook', `Stop sending scans to ${webhook.url}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: () => deleteMutation.mutate() },
+    ]);
+  };
+
+  const copySecret = async () => {
+    await Clipboard.setStringAsync(webhook.secret);
+    setSecretCopied(true);
+    setTimeout(() => setSecretCopied(false), 2000);
+  };
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.cardHeader}>
+        <Text style={styles.urlText} numberOfLines={2}>{webhook.url}</Text>
+        <Switch
+          value={webhook.is_active}
+          onValueChange={(value) => activeMutation.mutate(value)}
+          trackColor={{ false: Colors.surfaceLight, true: Colors.primary }}
+          thumbColor={Colors.white}
+        />
+      </View>
+
+      <Pressable style={styles.secretRow} onPress={copySecret}>
+        <Text style={styles.secretLabel}>Signing secret</Text>
+        <Text style={styles.secretText}>{secretCopied ? 'Copied' : maskSecret(webhook.secret)}</Text>
+        <Copy size={14} color={Colors.textMuted} />
+      </Pressable>
+
+      <View style={styles.actionsRow}>
+        <Pressable
+          style={styles.actionButton}
+          onPress={() => testMutation.mutate()}
+          disabled={testMutation.isPending}
+          testID="send-test-webhook-btn"
+        >
+          {testMutation.isPending ? (
+            <ActivityIndicator size="small" color={Colors.primary} />
+          ) : (
+            <Send size={14} color={Colors.primary} />
+          )}
+          <Text style={styles.actionText}>Send test event</Text>
+        </Pressable>
+        <Pressable style={styles.actionButton} onPress={confirmDelete} disabled={deleteMutation.isPending}>
+          <Trash2 size={14} color={Colors.danger} />
+          <Text style={styles.deleteText}>Delete</Text>
+        </Pressable>
+      </View>
+      {testResult ? <Text style={styles.hintText}>{testResult}</Text> : null}
+
+      {deliveries.length > 0 ? (
+        <View style={styles.deliveries}>
+          <Text style={styles.deliveriesTitle}>Recent deliveries</Text>
+          {deliveries.map((d) => (
+            <View key={d.id} style={styles.deliveryRow}>
+              {d.success ? (
+                <CheckCircle2 size={13} color={Colors.success} />
+              ) : (
+                <XCircle size={13} color={Colors.danger} />
+              )}
+              <Text style={styles.deliveryText} numberOfLines={1}>
+                {d.event_type} · try {d.attempt} · {d.status_code ?? d.error ?? 'no response'} · {d.duration_ms}ms
+              </Text>
+              <Text style={styles.deliveryTime}>
+                {new Date(d.created_at).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' })}
+              </Text>
+            </View>
+          ))}
+        </View>
+      ) : null}
+    </View>
+  );
+}
+
+export default function WebhooksScreen() {
+  const queryClient = useQueryClient();
+  const [newUrl, setNewUrl] = useState<string>('');
+
+  const { data: webhooks = [], isLoading, error } = useQuery({
+    queryKey: ['webhooks', 'list'],
+    queryFn: listWebhooks,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: () => createWebhook(newUrl),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['webhooks'] });
+      setNewUrl('');
+    },
+  });
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+      <Text style={styles.intro}>
+        We POST a JSON payload to each URL whenever one of your codes is scanned. Verify the
+        X-CreatorShelf-Signature header: an HMAC-SHA256 of the X-CreatorShelf-Timestamp value, a dot, and the raw body,
+        keyed with the signing secret. Failed deliveries are retried with backoff.
+      </Text>
+
+      {isLoading ? (
+        <ActivityIndicator color={Colors.primary} style={styles.loader} />
+      ) : error ? (
+        <Text style={styles.errorText}>{toHumanMessage(error)}</Text>
+      ) : (
+        webhooks.map((w) => <WebhookCard key={w.id} webhook={w} />)
+      )}
+
+      <View style={styles.addRow}>
+        <TextInput
+          style={[styles.input, styles.addInput]}
+          value={newUrl}
+          onChangeText={setNewUrl}
+          placeholder="https://example.com/webhook"
+          placeholderTextColor={Colors.textMuted}
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="url"
+          testID="webhook-url-input"
+        />
+        <Pressable
+          style={[styles.addButton, (!newUrl.trim() || createMutation.isPending) && styles.addButtonDisabled]}
+          onPress={() => createMutation.mutate()}
+          disabled={!newUrl.trim() || createMutation.isPending}
+          testID="add-webhook-btn"
+        >
+          {createMutation.isPending ? (
+            <ActivityIndicator size="small" color={Colors.white} />
+          ) : (
+            <Plus size={18} color={Colors.white} />
+          )}
+        </Pressable>
+      </View>
+      {createMutation.isError ? <Text style={styles.errorText}>{toHumanMessage(createMutation.error)}</Text> : null}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  intro: {
+    fontSize: 13,
+    lineHeight: 18,
+    color: Colors.textSecondary,
+    marginBottom: 16,
+  },
+  loader: {
+    marginVertical: 20,
+  },
+  card: {
+    backgroundColor: Colors.surface,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: Colors.cardBorder,
+    padding: 14,
+    marginBottom: 12,
+  },
+  cardHeader: {
+    flexDirection: 'row' as const,
+    alignItems: 'center' as const,
+    gap: 10,
+  },
+  urlText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '500' as const,
+    color: Colors.text,
+  },
+  secretRow: {
+    flexDirection: 'row' as const,
+    alignItems: 'center' as const,
+    gap: 8,
+    marginTop: 10,
+    padding: 10,
+    borderRadius: 10,
+    backgroundColor: Colors.surfaceLight,
+  },
+  secretLabel: {
+    fontSize: 12,
+    color: Colors.textMuted,
+  },
+  secretText: {
+    flex: 1,
+    fontSize: 12,
+    color: Colors.textSecondary,
+    fontFamily: 'monospace',
+  },
+  actionsRow: {
+    flexDirection: 'row' as const,
+    justifyContent: 'space-between' as const,
+    marginTop: 6,
+  },
+  actionButton: {
+    flexDirection: 'row' as const,
+    alignItems: 'center' as const,
+    gap: 6,
+    paddingVertical: 8,
+  },
+  actionText: {
+    fontSize: 13,
+    fontWeight: '500' as const,
+    color: Colors.primary,
+  },
+  deleteText: {
+    fontSize: 13,
+    color: Colors.danger,
+  },
+  hintText: {
+    fontSize: 12,
+    color: Colors.textMuted,
+  },
+  deliveries: {
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: Colors.cardBorder,
+    marginTop: 10,
+    paddingTop: 10,
+  },
+  deliveriesTitle: {
+    fontSize: 12,
+    fontWeight: '600' as const,
+    color: Colors.textSecondary,
+    marginBottom: 6,
+  },
+  deliveryRow: {
+    flexDirection: 'row' as const,
+    alignItems: 'center' as const,
+    gap: 6,
+    paddingVertical: 3,
+  },
+  deliveryText: {
+    flex: 1,
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
+  deliveryTime: {
+    fontSize: 11,
+    color: Colors.textMuted,
+  },
+  addRow: {
+    flexDirection: 'row' as const,
+    alignItems: 'center' as const,
+    gap: 8,
+    marginTop: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: Colors.inputBorder,
+    borderRadius: 10,
+    backgroundColor: Colors.inputBg,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: Colors.text,
+  },
+  addInput: {
+    flex: 1,
+  },
+  addButton: {
+    backgroundColor: Colors.primary,
+    borderRadius: 10,
+    width: 42,
+    height: 42,
+    alignItems: 'center' as const,
+    justifyContent: 'center' as const,
+  },
+  addButtonDisabled: {
+    opacity: 0.6,
+  },
+  errorText: {
+    fontSize: 13,
+    color: Colors.danger,
+    marginTop: 6,
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useMemo } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
   ActivityIndicator,
   Platform,
@@ -6,27 +6,48 @@ import {
   ScrollView,
   StyleSheet,
   Text,
+  TextInput,
   View,
 } from 'react-native';
 import { useLocalSearchParams } from 'expo-router';
-import { useQuery } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import {
+  AlertTriangle,
   BarChart3,
+  CalendarClock,
   Copy,
   ExternalLink,
+  GitBranch,
   Globe,
+  History,
+  Lock,
+  MapPin,
   Monitor,
+  MonitorSmartphone,
+  Pencil,
+  Share2,
   Smartphone,
   Tablet,
+  Tag,
   TrendingUp,
   Zap,
 } from 'lucide-react-native';
 import * as Clipboard from 'expo-clipboard';
 import Colors from '@/constants/colors';
-import { getSparkCodeById } from '@/features/spark-codes/spark-codes-api';
-import { getAnalyticsForCode } from '@/features/scan-events/scan-events-api';
-import { getRedirectBaseUrl } from '@/lib/trpc';
+import LinkHealthPanel from '@/components/link-health-panel';
+import QrCodePanel from '@/components/qr-code-panel';
+import RoutingPanel from '@/components/routing-panel';
+import ScanExportPanel from '@/components/scan-export-panel';
+import SendToBrandPanel from '@/components/send-to-brand-panel';
+import SparkRenewalPanel from '@/components/spark-renewal-panel';
+import { changeShortCode, getSparkCodeById, getStatusHistory } from '@/features/spark-codes/spark-codes-api';
+import { getAnalyticsForCode, subscribeToScanEvents } from '@/features/scan-events/scan-events-api';
+import { getShortLink } from '@/lib/trpc';
+import { validateVanitySlug } from '@/lib/short-code';
+import { applyScanEventToAnalytics, formatScanSource, formatTimeAgo } from '@/lib/scan-analytics';
 import { toHumanMessage } from '@/lib/error-message';
+import { ScanAnalytics, ScanDateRange } from '@/types/scan-events';
+import { SparkCodeStatusChangeReason } from '@/types/spark-codes';
 
 function getDeviceIcon(device: string) {
   switch (device.toLowerCase()) {
@@ -41,6 +62,44 @@ function getDeviceIcon(device: string) {
   }
 }
 
+const ANALYTICS_RANGES = [
+  { key: 'all', label: 'All time', days: null },
+  { key: '30d', label: '30 days', days: 30 },
+  { key: '7d', label: '7 days', days: 7 },
+] as const;
+
+type AnalyticsRangeKey = typeof ANALYTICS_RANGES[number]['key'];
+
+function toScanDateRange(key: AnalyticsRangeKey): ScanDateRange {
+  const range = ANALYTICS_RANGES.find((r) => r.key === key);
+  if (!range?.days) return {};
+  const from = new Date();
+  from.setDate(from.getDate() - range.days);
+  return { from: from.toISOString() };
+}
+
+function formatDateTime(value: string): string {
+  return new Date(value).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+function formatScheduleWindow(startsAt: string | null, endsAt: string | null): string {
+  if (startsAt && endsAt) return `${formatDateTime(startsAt)} – ${formatDateTime(endsAt)}`;
+  if (startsAt) return `From ${formatDateTime(startsAt)}`;
+  if (endsAt) return `Until ${formatDateTime(endsAt)}`;
+  return 'Always';
+}
+
+const STATUS_CHANGE_REASONS: Record<SparkCodeStatusChangeReason, string> = {
+  expired: 'expiry date passed',
+  scheduled_start: 'scheduled start',
+  manual: 'changed by you',
+};
+
 function StatCard({
   label,
   value,
@@ -93,6 +152,9 @@ function BarRow({
 
 export default function SparkCodeDetailScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
+  const queryClient = useQueryClient();
+  const [editingSlug, setEditingSlug] = useState<boolean>(false);
+  const [slugDraft, setSlugDraft] = useState<string>('');
 
   const {
     data: sparkCode,
@@ -104,20 +166,48 @@ export default function SparkCodeDetailScreen() {
     enabled: !!id,
   });
 
+  const [rangeKey, setRangeKey] = useState<AnalyticsRangeKey>('all');
+
+  const { data: statusHistory = [] } = useQuery({
+    queryKey: ['spark-code-status-history', id],
+    queryFn: () => getStatusHistory(id!),
+    enabled: !!id,
+  });
+
   const {
     data: analytics,
     isLoading: analyticsLoading,
   } = useQuery({
-    queryKey: ['spark-code-analytics', id],
-    queryFn: () => getAnalyticsForCode(id!),
+    queryKey: ['spark-code-analytics', id, rangeKey],
+    queryFn: () => getAnalyticsForCode(id!, toScanDateRange(rangeKey)),
     enabled: !!id,
   });
 
+  useEffect(() => {
+    if (!id) return;
+    // Every range ends at "now", so a new scan belongs in all cached ranges.
+    return subscribeToScanEvents(id, (event) => {
+      queryClient.setQueriesData<ScanAnalytics>(
+        { queryKey: ['spark-code-analytics', id] },
+        (prev) => (prev ? applyScanEventToAnalytics(prev, event) : prev),
+      );
+    });
+  }, [id, queryClient]);
+
+  const lastScanAt = analytics?.last_scan_at ?? null;
+  const [now, setNow] = useState<number>(() => Date.now());
+
+  useEffect(() => {
+    if (!lastScanAt) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [lastScanAt]);
+
   const shortLink = useMemo(() => {
     if (!sparkCode?.short_code) return '';
-    const base = getRedirectBaseUrl();
-    return base ? `${base}/${sparkCode.short_code}` : sparkCode.short_code;
-  }, [sparkCode?.short_code]);
+    return getShortLink(sparkCode.short_code, sparkCode.domain);
+  }, [sparkCode?.short_code, sparkCode?.domain]);
 
   const maxDeviceCount = useMemo(
     () =>
@@ -125,6 +215,12 @@ export default function SparkCodeDetailScreen() {
     [analytics?.scans_by_device],
   );
 
+  const maxSourceCount = useMemo(
+    () =>
+      analytics?.scans_by_source.reduce((m, d) => Math.max(m, d.count), 0) ?? 0,
+    [analytics?.scans_by_source],
+  );
+
   const maxOsCount = useMemo(
     () => analytics?.scans_by_os.reduce((m, d) => Math.max(m, d.count), 0) ?? 0,
     [analytics?.scans_by_os],
@@ -136,12 +232,34 @@ export default function SparkCodeDetailScreen() {
     [analytics?.scans_by_country],
   );
 
+  const maxVariantCount = useMemo(
+    () =>
+      analytics?.scans_by_variant.reduce((m, d) => Math.max(m, d.count), 0) ?? 0,
+    [analytics?.scans_by_variant],
+  );
+
   const maxDayCount = useMemo(
     () =>
       analytics?.scans_by_day.reduce((m, d) => Math.max(m, d.count), 0) ?? 0,
     [analytics?.scans_by_day],
   );
 
+  const slugMutation = useMutation({
+    mutationFn: (slug: string) => changeShortCode(id!, slug),
+    onSuccess: (updated) => {
+      queryClient.setQueryData(['spark-code', id], updated);
+      queryClient.invalidateQueries({ queryKey: ['spark-codes', 'list'] });
+      setEditingSlug(false);
+    },
+  });
+
+  const slugDraftError = slugDraft.trim() ? validateVanitySlug(slugDraft) : null;
+
+  const handleSaveSlug = () => {
+    if (!slugDraft.trim() || slugDraftError) return;
+    slugMutation.mutate(slugDraft);
+  };
+
   const handleCopyLink = async () => {
     if (!shortLink) return;
     try {
@@ -217,14 +335,64 @@ export default function SparkCodeDetailScreen() {
           </View>
         </View>
 
-        {shortLink ? (
-          <Pressable style={styles.shortLinkRow} onPress={handleCopyLink}>
-            <ExternalLink size={14} color={Colors.primary} />
-            <Text style={styles.shortLinkText} numberOfLines={1}>
-              {shortLink}
-            </Text>
-            <Copy size={14} color={Colors.textMuted} />
-          </Pressable>
+        {shortLink && !editingSlug ? (
+          <View style={styles.shortLinkWrap}>
+            <Pressable style={[styles.shortLinkRow, styles.shortLinkRowFlex]} onPress={handleCopyLink}>
+              <ExternalLink size={14} color={Colors.primary} />
+              <Text style={styles.shortLinkText} numberOfLines={1}>
+                {shortLink}
+              </Text>
+              <Copy size={14} color={Colors.textMuted} />
+            </Pressable>
+            <Pressable
+              style={styles.slugEditButton}
+              onPress={() => {
+                setSlugDraft(sparkCode.short_code);
+                setEditingSlug(true);
+              }}
+              testID="edit-slug-btn"
+            >
+              <Pencil size={14} color={Colors.textSecondary} />
+            </Pressable>
+          </View>
+        ) : null}
+
+        {editingSlug ? (
+          <View style={styles.slugEditor}>
+            <TextInput
+              style={styles.slugInput}
+              value={slugDraft}
+              onChangeText={setSlugDraft}
+              placeholder="summer-glow"
+              placeholderTextColor={Colors.textMuted}
+              autoCapitalize="none"
+              autoCorrect={false}
+              testID="edit-slug-input"
+            />
+            {slugDraftError ? <Text style={styles.slugError}>{slugDraftError}</Text> : null}
+            {slugMutation.isError ? (
+              <Text style={styles.slugError}>{toHumanMessage(slugMutation.error)}</Text>
+            ) : null}
+            <Text style={styles.slugHint}>The current link keeps working as an alias.</Text>
+            <View style={styles.slugActions}>
+              <Pressable onPress={() => setEditingSlug(false)}>
+                <Text style={styles.slugCancelText}>Cancel</Text>
+              </Pressable>
+              <Pressable style={styles.slugSaveButton} onPress={handleSaveSlug} disabled={slugMutation.isPending}>
+                {slugMutation.isPending ? (
+                  <ActivityIndicator size="small" color={Colors.white} />
+                ) : (
+                  <Text style={styles.slugSaveText}>Save link</Text>
+                )}
+              </Pressable>
+            </View>
+          </View>
+        ) : null}
+
+        {sparkCode.short_code_aliases?.length ? (
+          <Text style={styles.aliasText} numberOfLines={2}>
+            Also redirects: {sparkCode.short_code_aliases.map((a) => `/${a}`).join(', ')}
+          </Text>
         ) : null}
 
         {sparkCode.destination_url ? (
@@ -254,16 +422,141 @@ export default function SparkCodeDetailScreen() {
           </View>
         ) : null}
 
+        {sparkCode.activates_at ? (
+          <View style={styles.metaRow}>
+            <CalendarClock size={13} color={Colors.textMuted} />
+            <Text style={styles.metaText} numberOfLines={1}>
+              Goes active {formatDateTime(sparkCode.activates_at)}
+            </Text>
+          </View>
+        ) : null}
+
+        {sparkCode.destination_schedule?.map((entry) => (
+          <View key={entry.id} style={styles.metaRow}>
+            <CalendarClock size={13} color={Colors.textMuted} />
+            <Text style={styles.metaText} numberOfLines={1}>
+              {formatScheduleWindow(entry.starts_at, entry.ends_at)}: {entry.url}
+            </Text>
+          </View>
+        ))}
+
+        {sparkCode.geo_rules?.map((rule) => (
+          <View key={rule.id} style={styles.metaRow}>
+            <MapPin size={13} color={Colors.textMuted} />
+            <Text style={styles.metaText} numberOfLines={1}>
+              {rule.countries.length > 0 ? rule.countries.join(', ') : 'Everywhere else'}: {rule.url}
+            </Text>
+          </View>
+        ))}
+
+        {sparkCode.query_params && Object.keys(sparkCode.query_params).length > 0 ? (
+          <View style={styles.metaRow}>
+            <Tag size={13} color={Colors.textMuted} />
+            <Text style={styles.metaText} numberOfLines={2}>
+              {Object.entries(sparkCode.query_params)
+                .map(([key, value]) => `${key}=${value}`)
+                .join('&')}
+            </Text>
+          </View>
+        ) : null}
+
+        {sparkCode.desktop_behavior === 'qr_handoff' ? (
+          <View style={styles.metaRow}>
+            <MonitorSmartphone size={13} color={Colors.textMuted} />
+            <Text style={styles.metaText} numberOfLines={1}>
+              Desktop visitors see a QR code to continue on their phone
+            </Text>
+          </View>
+        ) : null}
+
+        {sparkCode.max_scans != null || sparkCode.password_hash ? (
+          <View style={styles.metaRow}>
+            <Lock size={13} color={Colors.textMuted} />
+            <Text style={styles.metaText} numberOfLines={1}>
+              {[
+                sparkCode.password_hash ? 'Password protected' : null,
+                sparkCode.max_scans === 1
+                  ? 'One-time link'
+                  : sparkCode.max_scans != null
+                    ? `Stops after ${sparkCode.max_scans} scans`
+                    : null,
+              ]
+                .filter(Boolean)
+                .join(' · ')}
+            </Text>
+          </View>
+        ) : null}
+
         {sparkCode.note ? (
           <Text style={styles.noteText}>{sparkCode.note}</Text>
         ) : null}
       </View>
 
+      <RoutingPanel sparkCode={sparkCode} />
+
+      <SendToBrandPanel sparkCode={sparkCode} shortLink={shortLink} />
+
+      <SparkRenewalPanel sparkCode={sparkCode} />
+
+      <LinkHealthPanel sparkCodeId={sparkCode.id} linkHealth={sparkCode.link_health} />
+
+      <View style={styles.rangeRow}>
+        {ANALYTICS_RANGES.map((r) => (
+          <Pressable
+            key={r.key}
+            style={[styles.rangeChip, rangeKey === r.key && styles.rangeChipActive]}
+            onPress={() => setRangeKey(r.key)}
+          >
+            <Text style={[styles.rangeChipText, rangeKey === r.key && styles.rangeChipTextActive]}>
+              {r.label}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+
+      <View style={styles.liveRow}>
+        <View style={styles.liveDot} />
+        <Text style={styles.liveText}>
+          Live · {lastScanAt ? `last scan ${formatTimeAgo(lastScanAt, now)}` : 'no scans yet'}
+        </Text>
+      </View>
+
+      {analytics?.suspicious_traffic && analytics.suspicious_traffic_at ? (
+        <View style={styles.suspiciousBanner}>
+          <AlertTriangle size={16} color={Colors.warning} />
+          <Text style={styles.suspiciousText}>
+            Suspicious traffic on{' '}
+            {new Date(analytics.suspicious_traffic_at).toLocaleString(undefined, {
+              month: 'short',
+              day: 'numeric',
+              hour: 'numeric',
+              minute: '2-digit',
+            })}
+            . Rapid repeat hits were throttled and left out of these numbers.
+          </Text>
+        </View>
+      ) : null}
+
+      <View style={[styles.statsRow, styles.statsRowStacked]}>
+        <StatCard
+          label="Human Scans"
+          value={analytics?.human_scans ?? '—'}
+          accent
+        />
+        <StatCard
+          label="Unique Visitors"
+          value={analytics?.unique_visitors ?? '—'}
+        />
+        <StatCard
+          label="Bot Hits"
+          value={analytics?.bot_scans ?? '—'}
+        />
+      </View>
+
       <View style={styles.statsRow}>
         <StatCard
           label="Total Scans"
           value={analytics?.total_scans ?? '—'}
-          accent
         />
         <StatCard
           label="Devices"
@@ -275,6 +568,13 @@ export default function SparkCodeDetailScreen() {
         />
       </View>
 
+      {analytics?.expired_hits ? (
+        <Text style={styles.expiredHitsText}>
+          {analytics.expired_hits} {analytics.expired_hits === 1 ? 'visit' : 'visits'} after expiry went to the fallback
+          {sparkCode.expired_fallback_url ? ` (${sparkCode.expired_fallback_url})` : ' page'}.
+        </Text>
+      ) : null}
+
       {analyticsLoading ? (
         <View style={styles.analyticsLoading}>
           <ActivityIndicator size="small" color={Colors.primary} />
@@ -323,6 +623,24 @@ export default function SparkCodeDetailScreen() {
         </View>
       ) : null}
 
+      {analytics && analytics.scans_by_source.length > 0 ? (
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Share2 size={16} color="#06b6d4" />
+            <Text style={styles.sectionTitle}>Source Breakdown</Text>
+          </View>
+          {analytics.scans_by_source.map((d) => (
+            <BarRow
+              key={d.source}
+              label={formatScanSource(d.source)}
+              count={d.count}
+              maxCount={maxSourceCount}
+              color="#06b6d4"
+            />
+          ))}
+        </View>
+      ) : null}
+
       {analytics && analytics.scans_by_os.length > 0 ? (
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
@@ -359,6 +677,53 @@ export default function SparkCodeDetailScreen() {
         </View>
       ) : null}
 
+      {analytics && analytics.scans_by_variant.length > 0 ? (
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <GitBranch size={16} color="#ec4899" />
+            <Text style={styles.sectionTitle}>Variant Breakdown</Text>
+          </View>
+          {analytics.scans_by_variant.map((d) => {
+            const variant = sparkCode.variants?.find((v) => v.id === d.variant_id);
+            return (
+              <BarRow
+                key={d.variant_id}
+                label={variant ? `${d.variant_id} · ${variant.url}` : d.variant_id}
+                count={d.count}
+                maxCount={maxVariantCount}
+                color="#ec4899"
+              />
+            );
+          })}
+        </View>
+      ) : null}
+
+      {shortLink ? (
+        <QrCodePanel link={shortLink} fileBaseName={sparkCode.short_code} />
+      ) : null}
+
+      <ScanExportPanel
+        sparkCodeId={sparkCode.id}
+        fileBaseName={sparkCode.short_code}
+        range={toScanDateRange(rangeKey)}
+        rangeLabel={rangeKey === 'all' ? 'all time' : `the last ${ANALYTICS_RANGES.find((r) => r.key === rangeKey)?.label}`}
+      />
+
+      {statusHistory.length > 0 ? (
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <History size={16} color={Colors.textSecondary} />
+            <Text style={styles.sectionTitle}>Status History</Text>
+          </View>
+          {statusHistory.map((change) => (
+            <Text key={change.id} style={styles.historyText}>
+              {formatDateTime(change.changed_at)} · {change.from_status.replace(/_/g, ' ')} →{' '}
+              {change.to_status.replace(/_/g, ' ')} ({STATUS_CHANGE_REASONS[change.reason]})
+            </Text>
+          ))}
+        </View>
+      ) : null}
+
       {analytics && analytics.total_scans === 0 ? (
         <View style={styles.emptyAnalytics}>
           <BarChart3 size={32} color={Colors.textMuted} />
@@ -463,6 +828,69 @@ const styles = StyleSheet.create({
     paddingVertical: 10,
     marginBottom: 10,
   },
+  shortLinkWrap: {
+    flexDirection: 'row' as const,
+    alignItems: 'flex-start' as const,
+    gap: 8,
+  },
+  shortLinkRowFlex: {
+    flex: 1,
+  },
+  slugEditButton: {
+    padding: 10,
+    borderRadius: 10,
+    backgroundColor: Colors.surfaceLight,
+  },
+  slugEditor: {
+    marginBottom: 10,
+  },
+  slugInput: {
+    borderWidth: 1,
+    borderColor: Colors.inputBorder,
+    borderRadius: 10,
+    backgroundColor: Colors.inputBg,
+    paddingHorizontal: 12,
+    paddingVertical: 9,
+    fontSize: 14,
+    color: Colors.text,
+  },
+  slugError: {
+    fontSize: 12,
+    color: Colors.danger,
+    marginTop: 6,
+  },
+  slugHint: {
+    fontSize: 12,
+    color: Colors.textMuted,
+    marginTop: 6,
+  },
+  slugActions: {
+    flexDirection: 'row' as const,
+    justifyContent: 'flex-end' as const,
+    alignItems: 'center' as const,
+    gap: 16,
+    marginTop: 8,
+  },
+  slugCancelText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+  },
+  slugSaveButton: {
+    backgroundColor: Colors.primary,
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  slugSaveText: {
+    color: Colors.white,
+    fontSize: 13,
+    fontWeight: '600' as const,
+  },
+  aliasText: {
+    fontSize: 12,
+    color: Colors.textMuted,
+    marginBottom: 8,
+  },
   shortLinkText: {
     flex: 1,
     fontSize: 13,
@@ -486,11 +914,78 @@ const styles = StyleSheet.create({
     marginTop: 8,
     fontStyle: 'italic' as const,
   },
+  liveRow: {
+    flexDirection: 'row' as const,
+    alignItems: 'center' as const,
+    gap: 6,
+    marginBottom: 12,
+  },
+  liveDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: Colors.success,
+  },
+  liveText: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
+  suspiciousBanner: {
+    flexDirection: 'row' as const,
+    alignItems: 'flex-start' as const,
+    gap: 10,
+    backgroundColor: 'rgba(245, 158, 11, 0.12)',
+    borderWidth: 1,
+    borderColor: 'rgba(245, 158, 11, 0.35)',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  suspiciousText: {
+    flex: 1,
+    fontSize: 13,
+    lineHeight: 18,
+    color: Colors.warningLight,
+  },
+  rangeRow: {
+    flexDirection: 'row' as const,
+    gap: 8,
+    marginBottom: 12,
+  },
+  rangeChip: {
+    borderWidth: 1,
+    borderColor: Colors.inputBorder,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    backgroundColor: Colors.inputBg,
+  },
+  rangeChipActive: {
+    borderColor: Colors.primary,
+    backgroundColor: 'rgba(13, 148, 136, 0.15)',
+  },
+  rangeChipText: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
+  rangeChipTextActive: {
+    color: Colors.primary,
+    fontWeight: '500' as const,
+  },
   statsRow: {
     flexDirection: 'row' as const,
     gap: 10,
     marginBottom: 20,
   },
+  expiredHitsText: {
+    fontSize: 12,
+    color: Colors.textMuted,
+    marginTop: -4,
+    marginBottom: 12,
+  },
+  statsRowStacked: {
+    marginBottom: 10,
+  },
   statCard: {
     flex: 1,
     backgroundColor: Colors.surface,
@@ -586,6 +1081,11 @@ const styles = StyleSheet.create({
     gap: 8,
     paddingTop: 2,
   },
+  historyText: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginBottom: 6,
+  },
   emptyAnalytics: {
     alignItems: 'center' as const,
     paddingVertical: 40,
@@ -13,6 +13,7 @@ export default function SparkCodesLayout() {
     >
       <Stack.Screen name="index" options={{ title: 'SparkCodes' }} />
       <Stack.Screen name="[id]" options={{ title: 'Spark Code Details' }} />
+      <Stack.Screen name="import" options={{ title: 'Import from CSV' }} />
     </Stack>
   );
 }
@@ -0,0 +1,360 @@
+import React, { useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Platform,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import * as DocumentPicker from 'expo-document-picker';
+import { File } from 'expo-file-system';
+import { AlertCircle, CheckCircle2, Download, FileUp } from 'lucide-react-native';
+import Colors from '@/constants/colors';
+import { bulkCreateSparkCodes } from '@/features/spark-codes/spark-codes-api';
+import { parseCsv } from '@/lib/csv';
+import {
+  buildImportReport,
+  guessImportMapping,
+  IMPORT_FIELDS,
+  ImportColumnMapping,
+  ImportField,
+  validateImportRows,
+} from '@/lib/spark-code-import';
+import { shareFile } from '@/lib/share-file';
+import { toHumanMessage } from '@/lib/error-message';
+import { CreateSparkCodeInput } from '@/types/spark-codes';
+
+type SkippedRow = { rowNumber: number; code: string; reason: string };
+
+async function readPickedFile(asset: DocumentPicker.DocumentPickerAsset): Promise<string> {
+  if (Platform.OS === 'web') {
+    return (await fetch(asset.uri)).text();
+  }
+  return new File(asset.uri).text();
+}
+
+export default function ImportSparkCodesScreen() {
+  const queryClient = useQueryClient();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ImportColumnMapping | null>(null);
+  const [pickError, setPickError] = useState<string | null>(null);
+  const [skippedRows, setSkippedRows] = useState<SkippedRow[] | null>(null);
+  const [importedCount, setImportedCount] = useState<number>(0);
+
+  const rows = useMemo(
+    () => (mapping ? validateImportRows(dataRows, mapping) : []),
+    [dataRows, mapping],
+  );
+  const validRows = rows.filter((r) => r.input);
+  const invalidCount = rows.length - validRows.length;
+
+  const pickFile = async () => {
+    setPickError(null);
+    setSkippedRows(null);
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['text/csv', 'text/comma-separated-values', 'application/vnd.ms-excel', 'text/plain'],
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled || !result.assets[0]) return;
+      const asset = result.assets[0];
+      const [headerRow = [], ...rest] = parseCsv(await readPickedFile(asset));
+      if (headerRow.length === 0) {
+        setPickError('That file is empty.');
+        return;
+      }
+      setFileName(asset.name);
+      setHeaders(headerRow.map((h) => h.trim()));
+      setDataRows(rest);
+      setMapping(guessImportMapping(headerRow));
+    } catch (e) {
+      console.log('[SparkCodeImport] could not read file:', e);
+      setPickError(toHumanMessage(e));
+    }
+  };
+
+  const importMutation = useMutation({
+    mutationFn: () => bulkCreateSparkCodes(validRows.map((r) => r.input as CreateSparkCodeInput)),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['spark-codes'] });
+      setImportedCount(result.created.length);
+      setSkippedRows([
+        ...rows.filter((r) => !r.input).map((r) => ({ rowNumber: r.rowNumber, code: r.code, reason: r.errors.join(' ') })),
+        ...result.skipped.map((s) => ({ rowNumber: validRows[s.index].rowNumber, code: validRows[s.index].code, reason: s.reason })),
+      ].sort((a, b) => a.rowNumber - b.rowNumber));
+    },
+  });
+
+  const downloadReport = async () => {
+    if (!skippedRows) return;
+    try {
+      await shareFile({
+        fileName: `${(fileName ?? 'spark-codes').replace(/\.csv$/i, '')}-import-report.csv`,
+        mimeType: 'text/csv',
+        contents: buildImportReport(skippedRows),
+      });
+    } catch (e) {
+      console.log('[SparkCodeImport] report export failed:', e);
+      setPickError(toHumanMessage(e));
+    }
+  };
+
+  const setColumn = (field: ImportField, column: number | null) => {
+    setMapping((prev) => (prev ? { ...prev, [field]: column } : prev));
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={styles.intro}>
+        Pick a spreadsheet saved as CSV with a header row. Each row becomes a Spark code with its own short link;
+        leave the custom link column empty to generate one.
+      </Text>
+
+      <Pressable style={styles.pickButton} onPress={pickFile} testID="pick-import-file-btn">
+        <FileUp size={16} color={Colors.white} />
+        <Text style={styles.pickButtonText}>{fileName ? 'Choose another file' : 'Choose CSV file'}</Text>
+      </Pressable>
+      {fileName ? (
+        <Text style={styles.hintText}>{fileName} · {dataRows.length} {dataRows.length === 1 ? 'row' : 'rows'}</Text>
+      ) : null}
+      {pickError ? <Text style={styles.errorText}>{pickError}</Text> : null}
+
+      {skippedRows ? (
+        <View style={styles.section}>
+          <View style={styles.resultRow}>
+            <CheckCircle2 size={16} color={Colors.success} />
+            <Text style={styles.resultText}>Imported {importedCount} {importedCount === 1 ? 'code' : 'codes'}.</Text>
+          </View>
+          {skippedRows.length > 0 ? (
+            <>
+              <View style={styles.resultRow}>
+                <AlertCircle size={16} color={Colors.warning} />
+                <Text style={styles.resultText}>
+                  Skipped {skippedRows.length} {skippedRows.length === 1 ? 'row' : 'rows'}.
+                </Text>
+              </View>
+              <Pressable style={styles.actionButton} onPress={downloadReport} testID="import-report-btn">
+                <Download size={14} color={Colors.primary} />
+                <Text style={styles.actionText}>Download import report</Text>
+              </Pressable>
+            </>
+          ) : null}
+        </View>
+      ) : mapping ? (
+        <>
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Columns</Text>
+            {IMPORT_FIELDS.map((field) => (
+              <View key={field.key} style={styles.mappingField}>
+                <Text style={styles.label}>{field.label}{field.required ? ' *' : ''}</Text>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+                  {[null, ...headers.map((_, i) => i)].map((column) => (
+                    <Pressable
+                      key={column ?? 'none'}
+                      style={[styles.chip, mapping[field.key] === column && styles.chipActive]}
+                      onPress={() => setColumn(field.key, column)}
+                    >
+                      <Text style={[styles.chipText, mapping[field.key] === column && styles.chipTextActive]}>
+                        {column === null ? 'None' : headers[column] || `Column ${column + 1}`}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </ScrollView>
+              </View>
+            ))}
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Preview</Text>
+            <Text style={styles.hintText}>
+              {validRows.length} ready · {invalidCount} with problems (skipped)
+            </Text>
+            {rows.map((row) => (
+              <View key={row.rowNumber} style={styles.previewRow}>
+                {row.input ? (
+                  <CheckCircle2 size={14} color={Colors.success} />
+                ) : (
+                  <AlertCircle size={14} color={Colors.danger} />
+                )}
+                <View style={styles.previewInfo}>
+                  <Text style={styles.previewCode} numberOfLines={1}>
+                    Row {row.rowNumber} · {row.code || '—'}
+                  </Text>
+                  {row.input ? (
+                    <Text style={styles.previewMeta} numberOfLines={1}>
+                      {[row.input.brand_name, row.input.short_code, row.input.destination_url].filter(Boolean).join(' · ') || 'No destination'}
+                    </Text>
+                  ) : (
+                    row.errors.map((e) => (
+                      <Text key={e} style={styles.previewError}>{e}</Text>
+                    ))
+                  )}
+                </View>
+              </View>
+            ))}
+          </View>
+
+          <Pressable
+            style={[styles.pickButton, (validRows.length === 0 || importMutation.isPending) && styles.buttonDisabled]}
+            onPress={() => importMutation.mutate()}
+            disabled={validRows.length === 0 || importMutation.isPending}
+            testID="import-spark-codes-submit"
+          >
+            {importMutation.isPending ? <ActivityIndicator size="small" color={Colors.white} /> : null}
+            <Text style={styles.pickButtonText}>
+              Import {validRows.length} {validRows.length === 1 ? 'code' : 'codes'}
+            </Text>
+          </Pressable>
+          {importMutation.isError ? (
+            <Text style={styles.errorText}>{toHumanMessage(importMutation.error)}</Text>
+          ) : null}
+        </>
+      ) : null}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  intro: {
+    fontSize: 13,
+    lineHeight: 18,
+    color: Colors.textSecondary,
+    marginBottom: 16,
+  },
+  pickButton: {
+    flexDirection: 'row' as const,
+    alignItems: 'center' as const,
+    justifyContent: 'center' as const,
+    gap: 8,
+    backgroundColor: Colors.primary,
+    borderRadius: 10,
+    paddingVertical: 12,
+    marginBottom: 8,
+  },
+  pickButtonText: {
+    color: Colors.white,
+    fontSize: 15,
+    fontWeight: '600' as const,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  section: {
+    backgroundColor: Colors.surface,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: Colors.cardBorder,
+    padding: 14,
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  sectionTitle: {
+    fontSize: 15,
+    fontWeight: '600' as const,
+    color: Colors.text,
+    marginBottom: 6,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '500' as const,
+    color: Colors.textSecondary,
+    marginBottom: 6,
+  },
+  hintText: {
+    fontSize: 12,
+    color: Colors.textMuted,
+    marginBottom: 6,
+  },
+  mappingField: {
+    marginTop: 8,
+  },
+  chipRow: {
+    flexDirection: 'row' as const,
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: Colors.inputBorder,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    backgroundColor: Colors.inputBg,
+  },
+  chipActive: {
+    borderColor: Colors.primary,
+    backgroundColor: 'rgba(13, 148, 136, 0.15)',
+  },
+  chipText: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
+  chipTextActive: {
+    color: Colors.primary,
+    fontWeight: '500' as const,
+  },
+  previewRow: {
+    flexDirection: 'row' as const,
+    alignItems: 'flex-start' as const,
+    gap: 8,
+    paddingVertical: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: Colors.cardBorder,
+  },
+  previewInfo: {
+    flex: 1,
+  },
+  previewCode: {
+    fontSize: 13,
+    fontWeight: '500' as const,
+    color: Colors.text,
+  },
+  previewMeta: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  previewError: {
+    fontSize: 12,
+    color: Colors.dangerLight,
+    marginTop: 2,
+  },
+  resultRow: {
+    flexDirection: 'row' as const,
+    alignItems: 'center' as const,
+    gap: 8,
+    marginBottom: 6,
+  },
+  resultText: {
+    fontSize: 14,
+    color: Colors.text,
+  },
+  actionButton: {
+    flexDirection: 'row' as const,
+    alignItems: 'center' as const,
+    gap: 6,
+    paddingVertical: 8,
+  },
+  actionText: {
+    fontSize: 13,
+    fontWeight: '500' as const,
+    color: Colors.primary,
+  },
+  errorText: {
+    fontSize: 13,
+    color: Colors.danger,
+    marginTop: 6,
+  },
+});
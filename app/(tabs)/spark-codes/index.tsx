@@ -14,17 +14,50 @@ import {
 } from 'react-native';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useRouter } from 'expo-router';
-import { BarChart3, ChevronRight, ExternalLink, Zap } from 'lucide-react-native';
+import { AlertCircle, BarChart3, ChevronRight, ExternalLink, Plus, Upload, X, Zap } from 'lucide-react-native';
 import Colors from '@/constants/colors';
 import { useAuthStore } from '@/store/auth-store';
 import { listSparkCodesWithStats, createSparkCode } from '@/features/spark-codes/spark-codes-api';
-import { SparkCodeWithStats } from '@/types/spark-codes';
+import {
+  SparkAuthorizationDays,
+  SparkCodeDesktopBehavior,
+  SparkCodeWithStats,
+} from '@/types/spark-codes';
 import { toHumanMessage } from '@/lib/error-message';
 import { isSupabaseConfigured } from '@/lib/supabase';
-import { getRedirectBaseUrl } from '@/lib/trpc';
+import { getShortLink } from '@/lib/trpc';
+import { getProfileByUserId } from '@/features/profile/profile-api';
+import { validateVanitySlug } from '@/lib/short-code';
+import { validateDeepLinkUrl, validateWebUrl } from '@/lib/link-url';
+import { EMPTY_ROUTING_DRAFTS, parseScheduleTime, RoutingDrafts, toRouting, validateRoutingDrafts } from '@/lib/spark-routing';
+import RoutingFields from '@/components/routing-fields';
+import {
+  AUTHORIZATION_PERIODS,
+  deriveAuthorizationExpiry,
+  formatAuthorizationDay,
+  isValidAuthorizationStart,
+} from '@/lib/spark-authorization';
 
 const SPARK_STATUSES = ['draft', 'sent_to_brand', 'active', 'expired'] as const;
 
+const DESKTOP_BEHAVIORS: { value: SparkCodeDesktopBehavior; label: string }[] = [
+  { value: 'redirect', label: 'Redirect' },
+  { value: 'qr_handoff', label: 'Show QR for phone' },
+];
+
+type QueryParamDraft = { key: string; value: string };
+
+function toQueryParams(utm: Record<string, string>, custom: QueryParamDraft[]): Record<string, string> {
+  const params: Record<string, string> = {};
+  for (const [key, value] of Object.entries(utm)) {
+    if (value.trim()) params[key] = value.trim();
+  }
+  for (const p of custom) {
+    if (p.key.trim() && p.value.trim()) params[p.key.trim()] = p.value.trim();
+  }
+  return params;
+}
+
 function isExpired(expiresAt: string | null): boolean {
   if (!expiresAt) return false;
   return new Date(expiresAt) < new Date();
@@ -42,15 +75,36 @@ export default function SparkCodesScreen() {
     enabled: !!userId,
   });
 
+  const { data: profile } = useQuery({
+    queryKey: ['profile', userId],
+    queryFn: () => userId ? getProfileByUserId(userId) : null,
+    enabled: !!userId,
+  });
+  const customDomains = profile?.custom_domains ?? [];
+
   const [code, setCode] = useState<string>('');
   const [destinationUrl, setDestinationUrl] = useState<string>('');
   const [deepLinkIos, setDeepLinkIos] = useState<string>('');
   const [deepLinkAndroid, setDeepLinkAndroid] = useState<string>('');
   const [brandName, setBrandName] = useState<string>('');
   const [status, setStatus] = useState<typeof SPARK_STATUSES[number]>('draft');
+  const [activatesAt, setActivatesAt] = useState<string>('');
   const [expiresAt, setExpiresAt] = useState<string>('');
+  const [authorizationStart, setAuthorizationStart] = useState<string>('');
+  const [authorizationDays, setAuthorizationDays] = useState<SparkAuthorizationDays | null>(null);
+  const [expiredFallbackUrl, setExpiredFallbackUrl] = useState<string>('');
   const [note, setNote] = useState<string>('');
   const [isActive, setIsActive] = useState<boolean>(true);
+  const [routing, setRouting] = useState<RoutingDrafts>(EMPTY_ROUTING_DRAFTS);
+  const [utmSource, setUtmSource] = useState<string>('');
+  const [utmCampaign, setUtmCampaign] = useState<string>('');
+  const [utmContent, setUtmContent] = useState<string>('');
+  const [customParams, setCustomParams] = useState<QueryParamDraft[]>([]);
+  const [vanitySlug, setVanitySlug] = useState<string>('');
+  const [maxScans, setMaxScans] = useState<string>('');
+  const [accessPassword, setAccessPassword] = useState<string>('');
+  const [domain, setDomain] = useState<string | null>(null);
+  const [desktopBehavior, setDesktopBehavior] = useState<SparkCodeDesktopBehavior>('redirect');
 
   const mutation = useMutation({
     mutationFn: createSparkCode,
@@ -62,25 +116,96 @@ export default function SparkCodesScreen() {
       setDeepLinkAndroid('');
       setBrandName('');
       setStatus('draft');
+      setActivatesAt('');
       setExpiresAt('');
+      setAuthorizationStart('');
+      setAuthorizationDays(null);
+      setExpiredFallbackUrl('');
       setNote('');
       setIsActive(true);
+      setRouting(EMPTY_ROUTING_DRAFTS);
+      setUtmSource('');
+      setUtmCampaign('');
+      setUtmContent('');
+      setCustomParams([]);
+      setVanitySlug('');
+      setMaxScans('');
+      setAccessPassword('');
+      setDesktopBehavior('redirect');
+      setDomain(null);
     },
   });
 
+  const updateCustomParam = (index: number, patch: Partial<QueryParamDraft>) => {
+    setCustomParams((prev) => prev.map((p, i) => (i === index ? { ...p, ...patch } : p)));
+  };
+
+  const vanitySlugError = vanitySlug.trim() ? validateVanitySlug(vanitySlug) : null;
+
+  const passwordError =
+    accessPassword.length > 0 && accessPassword.length < 4 ? 'Passwords need at least 4 characters.' : null;
+
+  const authorizationStartError =
+    authorizationDays && !isValidAuthorizationStart(authorizationStart.trim())
+      ? 'Enter the date the brand authorized the code, as YYYY-MM-DD.'
+      : null;
+  const authorizationExpiry =
+    authorizationDays && !authorizationStartError
+      ? deriveAuthorizationExpiry(authorizationStart.trim(), authorizationDays)
+      : null;
+
+  // Stored as ISO timestamps so the status job and the redirect compare instants, not text.
+  const activatesAtIso = parseScheduleTime(activatesAt);
+  const expiresAtIso = authorizationDays ? null : parseScheduleTime(expiresAt);
+  const activatesAtError = activatesAtIso === undefined ? 'Enter the start as YYYY-MM-DD, or leave it blank.' : null;
+  const expiresAtError = expiresAtIso === undefined ? 'Enter the expiry as YYYY-MM-DD, or leave it blank.' : null;
+
+  const deepLinkIosError = validateDeepLinkUrl(deepLinkIos);
+  const deepLinkAndroidError = validateDeepLinkUrl(deepLinkAndroid);
+  const expiredFallbackUrlError = validateWebUrl(expiredFallbackUrl);
+  const linkError = deepLinkIosError ?? deepLinkAndroidError ?? expiredFallbackUrlError;
+  const routingError = validateRoutingDrafts(routing);
+
   const handleAdd = () => {
-    if (!code.trim()) return;
+    if (
+      !code.trim() ||
+      vanitySlugError ||
+      passwordError ||
+      authorizationStartError ||
+      activatesAtError ||
+      expiresAtError ||
+      linkError ||
+      routingError
+    ) {
+      return;
+    }
+    const startsLater = !!activatesAtIso && new Date(activatesAtIso) > new Date();
     mutation.mutate({
       code: code.trim(),
+      short_code: vanitySlug.trim() || null,
+      domain: domain && customDomains.includes(domain) ? domain : null,
       destination_url: destinationUrl.trim() || null,
       deep_link_ios: deepLinkIos.trim() || null,
       deep_link_android: deepLinkAndroid.trim() || null,
-      is_active: isActive,
+      is_active: isActive && !startsLater,
       brand_name: brandName.trim() || null,
       platform: null,
       status,
-      expires_at: expiresAt.trim() || null,
+      authorization_start: authorizationExpiry ? authorizationStart.trim() : null,
+      authorization_days: authorizationExpiry ? authorizationDays : null,
+      renewed_from_id: null,
+      activates_at: activatesAtIso ?? null,
+      expires_at: authorizationExpiry ?? expiresAtIso ?? null,
+      expired_fallback_url: expiredFallbackUrl.trim() || null,
       note: note.trim() || null,
+      ...toRouting(routing),
+      query_params: toQueryParams(
+        { utm_source: utmSource, utm_campaign: utmCampaign, utm_content: utmContent },
+        customParams,
+      ),
+      max_scans: Number(maxScans) > 0 ? Number(maxScans) : null,
+      password: accessPassword || null,
+      desktop_behavior: desktopBehavior,
     });
   };
 
@@ -102,7 +227,17 @@ export default function SparkCodesScreen() {
     <View>
       <Text style={styles.pageTitle}>SparkCodes</Text>
       <Text style={styles.pageSubtitle}>Intelligent routing, analytics & brand tracking.</Text>
-      <Text style={styles.sectionTitle}>Your Spark Codes</Text>
+      <View style={styles.sectionHeaderRow}>
+        <Text style={styles.sectionTitle}>Your Spark Codes</Text>
+        <Pressable
+          style={styles.importButton}
+          onPress={() => router.push('/spark-codes/import' as any)}
+          testID="import-spark-codes-btn"
+        >
+          <Upload size={14} color={Colors.primary} />
+          <Text style={styles.importButtonText}>Import CSV</Text>
+        </Pressable>
+      </View>
       {isLoading && (
         <View style={styles.loadingWrap}>
           <ActivityIndicator size="small" color={Colors.primary} />
@@ -122,14 +257,77 @@ export default function SparkCodesScreen() {
       <Text style={styles.label}>Code</Text>
       <TextInput style={styles.input} value={code} onChangeText={setCode} placeholder="Spark code" placeholderTextColor={Colors.textMuted} testID="spark-code-input" />
 
+      {customDomains.length > 0 ? (
+        <>
+          <Text style={styles.label}>Domain</Text>
+          <View style={styles.statusRow}>
+            {[null, ...customDomains].map((d) => (
+              <Pressable key={d ?? 'default'} style={[styles.statusChip, domain === d && styles.statusChipActive]} onPress={() => setDomain(d)}>
+                <Text style={[styles.statusChipText, domain === d && styles.statusChipTextActive]}>{d ?? 'Default'}</Text>
+              </Pressable>
+            ))}
+          </View>
+        </>
+      ) : null}
+
+      <Text style={styles.label}>Custom link (optional)</Text>
+      <TextInput style={styles.input} value={vanitySlug} onChangeText={setVanitySlug} placeholder="summer-glow" placeholderTextColor={Colors.textMuted} autoCapitalize="none" autoCorrect={false} testID="vanity-slug-input" />
+      {vanitySlugError ? (
+        <Text style={styles.errorText}>{vanitySlugError}</Text>
+      ) : vanitySlug.trim() ? (
+        <Text style={styles.hintText}>{getShortLink(vanitySlug.trim().toLowerCase(), domain)}</Text>
+      ) : null}
+
       <Text style={styles.label}>Destination URL</Text>
       <TextInput style={styles.input} value={destinationUrl} onChangeText={setDestinationUrl} placeholder="https://tiktok.com/..." placeholderTextColor={Colors.textMuted} autoCapitalize="none" keyboardType="url" />
 
+      <RoutingFields value={routing} onChange={setRouting} />
+      {routingError ? <Text style={styles.errorText}>{routingError}</Text> : null}
+
+      <Text style={styles.label}>Tracking parameters (optional)</Text>
+      <Text style={styles.hintText}>Added to web destinations. Values can use {'{short_code}'}, {'{os}'} and {'{country}'}.</Text>
+      <TextInput style={[styles.input, styles.stackedInput]} value={utmSource} onChangeText={setUtmSource} placeholder="utm_source, e.g. tiktok" placeholderTextColor={Colors.textMuted} autoCapitalize="none" />
+      <TextInput style={[styles.input, styles.stackedInput]} value={utmCampaign} onChangeText={setUtmCampaign} placeholder="utm_campaign" placeholderTextColor={Colors.textMuted} autoCapitalize="none" />
+      <TextInput style={[styles.input, styles.stackedInput]} value={utmContent} onChangeText={setUtmContent} placeholder="utm_content, e.g. {short_code}" placeholderTextColor={Colors.textMuted} autoCapitalize="none" />
+      {customParams.map((p, i) => (
+        <View key={i} style={styles.variantRow}>
+          <TextInput style={[styles.input, styles.variantUrlInput]} value={p.key} onChangeText={(text) => updateCustomParam(i, { key: text })} placeholder="key" placeholderTextColor={Colors.textMuted} autoCapitalize="none" />
+          <TextInput style={[styles.input, styles.variantUrlInput]} value={p.value} onChangeText={(text) => updateCustomParam(i, { value: text })} placeholder="value" placeholderTextColor={Colors.textMuted} autoCapitalize="none" />
+          <Pressable style={styles.variantRemove} onPress={() => setCustomParams((prev) => prev.filter((_, j) => j !== i))} hitSlop={8}>
+            <X size={16} color={Colors.textMuted} />
+          </Pressable>
+        </View>
+      ))}
+      <Pressable style={styles.addVariantButton} onPress={() => setCustomParams((prev) => [...prev, { key: '', value: '' }])} testID="add-query-param-btn">
+        <Plus size={14} color={Colors.primary} />
+        <Text style={styles.addVariantText}>Add parameter</Text>
+      </Pressable>
+
+      <Text style={styles.label}>Scan limit (optional)</Text>
+      <TextInput style={styles.input} value={maxScans} onChangeText={(text) => setMaxScans(text.replace(/[^0-9]/g, ''))} placeholder="Unlimited" placeholderTextColor={Colors.textMuted} keyboardType="number-pad" testID="max-scans-input" />
+      <Text style={styles.hintText}>The link stops redirecting after this many scans. Use 1 for a one-time link.</Text>
+
+      <Text style={styles.label}>Access password (optional)</Text>
+      <TextInput style={styles.input} value={accessPassword} onChangeText={setAccessPassword} placeholder="Only people with the password can open it" placeholderTextColor={Colors.textMuted} autoCapitalize="none" autoCorrect={false} secureTextEntry testID="access-password-input" />
+      {passwordError ? <Text style={styles.errorText}>{passwordError}</Text> : null}
+
       <Text style={styles.label}>iOS Deep Link (optional)</Text>
       <TextInput style={styles.input} value={deepLinkIos} onChangeText={setDeepLinkIos} placeholder="myapp://content/123" placeholderTextColor={Colors.textMuted} autoCapitalize="none" />
+      {deepLinkIosError ? <Text style={styles.errorText}>{deepLinkIosError}</Text> : null}
 
       <Text style={styles.label}>Android Deep Link (optional)</Text>
       <TextInput style={styles.input} value={deepLinkAndroid} onChangeText={setDeepLinkAndroid} placeholder="myapp://content/123" placeholderTextColor={Colors.textMuted} autoCapitalize="none" />
+      {deepLinkAndroidError ? <Text style={styles.errorText}>{deepLinkAndroidError}</Text> : null}
+
+      <Text style={styles.label}>Desktop visitors</Text>
+      <View style={styles.statusRow}>
+        {DESKTOP_BEHAVIORS.map((b) => (
+          <Pressable key={b.value} style={[styles.statusChip, desktopBehavior === b.value && styles.statusChipActive]} onPress={() => setDesktopBehavior(b.value)}>
+            <Text style={[styles.statusChipText, desktopBehavior === b.value && styles.statusChipTextActive]}>{b.label}</Text>
+          </Pressable>
+        ))}
+      </View>
+      <Text style={styles.hintText}>Useful when the link only makes sense on a phone, like app deep links or app store pages.</Text>
 
       <Text style={styles.label}>Brand (optional)</Text>
       <TextInput style={styles.input} value={brandName} onChangeText={setBrandName} placeholder="Brand name" placeholderTextColor={Colors.textMuted} />
@@ -155,8 +353,49 @@ export default function SparkCodesScreen() {
         />
       </View>
 
-      <Text style={styles.label}>Expires at (optional)</Text>
-      <TextInput style={styles.input} value={expiresAt} onChangeText={setExpiresAt} placeholder="YYYY-MM-DD" placeholderTextColor={Colors.textMuted} />
+      <Text style={styles.label}>Starts at (optional)</Text>
+      <TextInput style={styles.input} value={activatesAt} onChangeText={setActivatesAt} placeholder="YYYY-MM-DD" placeholderTextColor={Colors.textMuted} />
+      {activatesAtError ? <Text style={styles.errorText}>{activatesAtError}</Text> : null}
+      {activatesAtIso ? (
+        <Text style={styles.hintText}>The link stays off until then, and the code switches to Active automatically.</Text>
+      ) : null}
+
+      <Text style={styles.label}>TikTok authorization (optional)</Text>
+      <View style={styles.statusRow}>
+        {[null, ...AUTHORIZATION_PERIODS].map((days) => (
+          <Pressable key={days ?? 'none'} style={[styles.statusChip, authorizationDays === days && styles.statusChipActive]} onPress={() => setAuthorizationDays(days)}>
+            <Text style={[styles.statusChipText, authorizationDays === days && styles.statusChipTextActive]}>
+              {days === null ? 'None' : `${days} days`}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+      {authorizationDays ? (
+        <>
+          <TextInput style={styles.input} value={authorizationStart} onChangeText={setAuthorizationStart} placeholder="Authorized on YYYY-MM-DD" placeholderTextColor={Colors.textMuted} />
+          {authorizationStartError && authorizationStart.trim() ? (
+            <Text style={styles.errorText}>{authorizationStartError}</Text>
+          ) : null}
+          {authorizationExpiry ? (
+            <Text style={styles.hintText}>
+              Expires {formatAuthorizationDay(authorizationExpiry)}, when the authorization ends.
+            </Text>
+          ) : null}
+        </>
+      ) : (
+        <>
+          <Text style={styles.label}>Expires at (optional)</Text>
+          <TextInput style={styles.input} value={expiresAt} onChangeText={setExpiresAt} placeholder="YYYY-MM-DD" placeholderTextColor={Colors.textMuted} />
+          {expiresAtError ? <Text style={styles.errorText}>{expiresAtError}</Text> : null}
+        </>
+      )}
+      {expiresAt.trim() || authorizationExpiry ? (
+        <>
+          <Text style={styles.label}>After it expires, send visitors to (optional)</Text>
+          <TextInput style={styles.input} value={expiredFallbackUrl} onChangeText={setExpiredFallbackUrl} placeholder="Your fallback link, or leave blank" placeholderTextColor={Colors.textMuted} autoCapitalize="none" keyboardType="url" />
+          {expiredFallbackUrlError ? <Text style={styles.errorText}>{expiredFallbackUrlError}</Text> : null}
+        </>
+      ) : null}
 
       <Text style={styles.label}>Note (optional)</Text>
       <TextInput style={styles.input} value={note} onChangeText={setNote} placeholder="Note" placeholderTextColor={Colors.textMuted} />
@@ -172,8 +411,7 @@ export default function SparkCodesScreen() {
   const renderItem = ({ item }: { item: SparkCodeWithStats }) => {
     const expired = item.expires_at ? isExpired(item.expires_at) : false;
     const active = item.status === 'active' && !expired;
-    const baseUrl = getRedirectBaseUrl();
-    const shortLink = baseUrl ? `${baseUrl}/${item.short_code}` : item.short_code;
+    const shortLink = getShortLink(item.short_code, item.domain);
 
     return (
       <Pressable
@@ -188,6 +426,12 @@ export default function SparkCodesScreen() {
           <View style={styles.codeCardInfo}>
             <Text style={styles.codeText} numberOfLines={1}>{item.code}</Text>
             {item.brand_name ? <Text style={styles.codeMeta}>{item.brand_name}</Text> : null}
+            {item.link_health?.broken ? (
+              <View style={styles.brokenLinkRow}>
+                <AlertCircle size={11} color={Colors.danger} />
+                <Text style={styles.brokenLinkText}>Broken link</Text>
+              </View>
+            ) : null}
           </View>
           <View style={[styles.statusBadge, active && styles.statusBadgeActive, expired && styles.statusBadgeExpired]}>
             <Text style={[styles.statusBadgeText, active && styles.statusBadgeTextActive, expired && styles.statusBadgeTextExpired]}>
@@ -264,6 +508,22 @@ const styles = StyleSheet.create({
     marginBottom: 12,
     marginTop: 8,
   },
+  sectionHeaderRow: {
+    flexDirection: 'row' as const,
+    alignItems: 'center' as const,
+    justifyContent: 'space-between' as const,
+  },
+  importButton: {
+    flexDirection: 'row' as const,
+    alignItems: 'center' as const,
+    gap: 6,
+    paddingVertical: 6,
+  },
+  importButtonText: {
+    fontSize: 13,
+    fontWeight: '500' as const,
+    color: Colors.primary,
+  },
   loadingWrap: {
     paddingVertical: 32,
     alignItems: 'center' as const,
@@ -312,6 +572,17 @@ const styles = StyleSheet.create({
     color: Colors.textSecondary,
     marginTop: 1,
   },
+  brokenLinkRow: {
+    flexDirection: 'row' as const,
+    alignItems: 'center' as const,
+    gap: 4,
+    marginTop: 2,
+  },
+  brokenLinkText: {
+    fontSize: 11,
+    fontWeight: '500' as const,
+    color: Colors.danger,
+  },
   statusBadge: {
     borderRadius: 12,
     paddingHorizontal: 8,
@@ -419,6 +690,38 @@ const styles = StyleSheet.create({
     marginTop: 10,
     marginBottom: 4,
   },
+  variantRow: {
+    flexDirection: 'row' as const,
+    alignItems: 'center' as const,
+    gap: 8,
+    marginBottom: 8,
+  },
+  variantUrlInput: {
+    flex: 1,
+  },
+  stackedInput: {
+    marginBottom: 8,
+  },
+  hintText: {
+    fontSize: 12,
+    color: Colors.textMuted,
+    marginBottom: 8,
+  },
+  variantRemove: {
+    padding: 4,
+  },
+  addVariantButton: {
+    flexDirection: 'row' as const,
+    alignItems: 'center' as const,
+    gap: 6,
+    alignSelf: 'flex-start' as const,
+    paddingVertical: 6,
+  },
+  addVariantText: {
+    fontSize: 13,
+    fontWeight: '500' as const,
+    color: Colors.primary,
+  },
   addButton: {
     backgroundColor: Colors.primary,
     borderRadius: 12,
@@ -0,0 +1,54 @@
+/**
+ * Access passwords for gated links, stored as
+ * `pbkdf2$<iterations>$<salt hex>$<hash hex>` (PBKDF2-SHA256 via Web Crypto).
+ */
+
+const PBKDF2_ITERATIONS = 100_000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes).map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function fromHex(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+async function derive(password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(password),
+    "PBKDF2",
+    false,
+    ["deriveBits"],
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt: salt as BufferSource, iterations },
+    key,
+    HASH_BITS,
+  );
+  return new Uint8Array(bits);
+}
+
+export async function hashAccessPassword(password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await derive(password, salt, PBKDF2_ITERATIONS);
+  return `pbkdf2$${PBKDF2_ITERATIONS}$${toHex(salt)}$${toHex(hash)}`;
+}
+
+export async function verifyAccessPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, iterations, saltHex, hashHex] = stored.split("$");
+  if (scheme !== "pbkdf2" || !iterations || !saltHex || !hashHex) return false;
+  const expected = fromHex(hashHex);
+  const actual = await derive(password, fromHex(saltHex), Number(iterations));
+  if (actual.length !== expected.length) return false;
+  // Constant-time comparison so response timing doesn't leak matching prefixes.
+  let diff = 0;
+  for (let i = 0; i < actual.length; i++) diff |= actual[i] ^ expected[i];
+  return diff === 0;
+}
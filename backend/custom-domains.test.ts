@@ -0,0 +1,46 @@
+import { afterEach, describe, expect, it } from "bun:test";
+
+import { getRequestHost, hasVerificationRecord, verificationRecordName } from "./custom-domains";
+
+function headers(values: Record<string, string>) {
+  return new Headers(values);
+}
+
+describe("getRequestHost", () => {
+  afterEach(() => {
+    delete process.env.TRUST_PROXY;
+  });
+
+  it("ignores X-Forwarded-Host unless the proxy is trusted", () => {
+    const request = headers({ host: "api.example.com", "x-forwarded-host": "go.victim.com" });
+    expect(getRequestHost(request)).toBe("api.example.com");
+
+    process.env.TRUST_PROXY = "true";
+    expect(getRequestHost(request)).toBe("go.victim.com");
+  });
+
+  it("lowercases and drops the port", () => {
+    expect(getRequestHost(headers({ host: "Go.Brand.com:8443" }))).toBe("go.brand.com");
+  });
+});
+
+describe("hasVerificationRecord", () => {
+  it("matches the token in a TXT record, joining split chunks", async () => {
+    const names: string[] = [];
+    const resolve = async (name: string) => {
+      names.push(name);
+      return [["v=spf1 -all"], ["creatorshelf-verify=", "tok-123"]];
+    };
+
+    expect(await hasVerificationRecord("go.brand.com", "tok-123", resolve)).toBe(true);
+    expect(names).toEqual([verificationRecordName("go.brand.com")]);
+    expect(await hasVerificationRecord("go.brand.com", "other", resolve)).toBe(false);
+  });
+
+  it("treats lookup failures as unverified", async () => {
+    const resolve = async (): Promise<string[][]> => {
+      throw new Error("queryTxt ENOTFOUND");
+    };
+    expect(await hasVerificationRecord("go.brand.com", "tok-123", resolve)).toBe(false);
+  });
+});
@@ -0,0 +1,100 @@
+import { resolveTxt } from "node:dns/promises";
+
+import { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Custom short-link domains (e.g. `go.mybrand.com`) claimed by a creator.
+ * Requests are scoped by Host so the same slug can live on several domains;
+ * the default API host only serves codes without a domain. A domain only
+ * routes once its owner has proved control of it with a DNS TXT record, and
+ * only one account can hold a verified domain.
+ */
+
+export type DomainScope = { domain: string; userId: string } | null;
+
+export const CUSTOM_DOMAINS_TABLE = "custom_domains";
+
+const VERIFICATION_RECORD_PREFIX = "_creatorshelf";
+const VERIFICATION_VALUE_PREFIX = "creatorshelf-verify=";
+
+const CACHE_TTL_MS = 60_000;
+const domainCache = new Map<string, { scope: DomainScope; expiresAt: number }>();
+
+export function getDefaultHost(): string | null {
+  const url = process.env.EXPO_PUBLIC_RORK_API_BASE_URL;
+  if (!url) return null;
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Host the visitor asked for; lowercase without the port. `X-Forwarded-Host`
+ * is only honoured with `TRUST_PROXY=true`, i.e. when a proxy we run sets it,
+ * since anyone can send the header straight to the server.
+ */
+export function getRequestHost(headers: { get(name: string): string | null | undefined }): string | null {
+  const forwarded = process.env.TRUST_PROXY === "true" ? headers.get("x-forwarded-host")?.split(",")[0] : null;
+  const raw = forwarded ?? headers.get("host") ?? "";
+  const host = raw.trim().toLowerCase().replace(/:\d+$/, "");
+  return host || null;
+}
+
+export async function resolveDomainScope(
+  supabase: SupabaseClient,
+  host: string | null,
+): Promise<DomainScope> {
+  if (!host || host === getDefaultHost()) return null;
+
+  const cached = domainCache.get(host);
+  if (cached && cached.expiresAt > Date.now()) return cached.scope;
+
+  const { data, error } = await supabase
+    .from(CUSTOM_DOMAINS_TABLE)
+    .select("user_id")
+    .eq("domain", host)
+    .not("verified_at", "is", null)
+    .maybeSingle();
+  if (error) {
+    console.log("[Domains] lookup failed for:", host, error.message);
+    return null;
+  }
+  const scope: DomainScope = data ? { domain: host, userId: data.user_id } : null;
+  domainCache.set(host, { scope, expiresAt: Date.now() + CACHE_TTL_MS });
+  return scope;
+}
+
+/** Drops a cached lookup after the domain is verified or removed. */
+export function forgetDomainScope(domain: string) {
+  domainCache.delete(domain);
+}
+
+export function verificationRecordName(domain: string): string {
+  return `${VERIFICATION_RECORD_PREFIX}.${domain}`;
+}
+
+export function verificationRecordValue(token: string): string {
+  return `${VERIFICATION_VALUE_PREFIX}${token}`;
+}
+
+export type ResolveTxt = (hostname: string) => Promise<string[][]>;
+
+/** True when the domain publishes the TXT record for `token`. */
+export async function hasVerificationRecord(
+  domain: string,
+  token: string,
+  resolve: ResolveTxt = resolveTxt,
+): Promise<boolean> {
+  let records: string[][];
+  try {
+    records = await resolve(verificationRecordName(domain));
+  } catch (e) {
+    console.log("[Domains] TXT lookup failed for:", domain, (e as Error)?.message);
+    return false;
+  }
+  // Long TXT values arrive split into chunks.
+  const expected = verificationRecordValue(token);
+  return records.some((chunks) => chunks.join("").trim() === expected);
+}
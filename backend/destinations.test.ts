@@ -0,0 +1,129 @@
+import { describe, expect, it } from "bun:test";
+
+import { matchGeoRule, pickDeepLink, pickScheduledDestination, pickVariant } from "./destinations";
+
+const variants = [
+  { id: "A", url: "https://shop.example.com/a", weight: 50 },
+  { id: "B", url: "https://shop.example.com/b", weight: 50 },
+];
+
+describe("pickVariant", () => {
+  it("returns null without a usable variant", () => {
+    expect(pickVariant(null)).toBeNull();
+    expect(pickVariant([])).toBeNull();
+    expect(pickVariant([{ id: "A", url: "https://shop.example.com/a", weight: 0 }])).toBeNull();
+    expect(pickVariant([{ id: "A", url: "", weight: 50 }])).toBeNull();
+  });
+
+  it("only picks variants with weight", () => {
+    const pool = [
+      { id: "A", url: "https://shop.example.com/a", weight: 0 },
+      { id: "B", url: "https://shop.example.com/b", weight: 10 },
+    ];
+    for (let i = 0; i < 20; i++) {
+      expect(pickVariant(pool)?.id).toBe("B");
+    }
+  });
+
+  it("keeps a visitor on the same variant with a sticky key", () => {
+    const first = pickVariant(variants, "code-1:abc123");
+    for (let i = 0; i < 10; i++) {
+      expect(pickVariant(variants, "code-1:abc123")).toEqual(first);
+    }
+  });
+
+  it("spreads sticky visitors across variants by weight", () => {
+    const counts: Record<string, number> = { A: 0, B: 0 };
+    for (let i = 0; i < 1000; i++) {
+      counts[pickVariant(variants, `code-1:visitor-${i}`)!.id]++;
+    }
+    expect(counts.A).toBeGreaterThan(400);
+    expect(counts.B).toBeGreaterThan(400);
+
+    const skewed = [
+      { id: "A", url: "https://shop.example.com/a", weight: 90 },
+      { id: "B", url: "https://shop.example.com/b", weight: 10 },
+    ];
+    let a = 0;
+    for (let i = 0; i < 1000; i++) {
+      if (pickVariant(skewed, `code-1:visitor-${i}`)!.id === "A") a++;
+    }
+    expect(a).toBeGreaterThan(800);
+  });
+});
+
+describe("matchGeoRule", () => {
+  const rules = [
+    { id: "R1", countries: ["GB", "IE"], url: "https://amazon.co.uk/item" },
+    { id: "R2", countries: ["EU"], url: "https://amazon.de/item" },
+    { id: "R3", countries: [], url: "https://amazon.com/item" },
+  ];
+
+  it("returns the first matching rule in list order", () => {
+    // IE is in the EU too, but R1 comes first.
+    expect(matchGeoRule(rules, "IE")?.id).toBe("R1");
+    expect(matchGeoRule(rules, "DE")?.id).toBe("R2");
+    expect(matchGeoRule(rules, "US")?.id).toBe("R3");
+  });
+
+  it("matches country codes case-insensitively and expands UK", () => {
+    expect(matchGeoRule([{ id: "R1", countries: [" uk "], url: "https://a.example" }], "gb")?.id).toBe("R1");
+  });
+
+  it("only lets a catch-all match an unknown country", () => {
+    expect(matchGeoRule(rules, null)?.id).toBe("R3");
+    expect(matchGeoRule(rules.slice(0, 2), null)).toBeNull();
+  });
+
+  it("skips rules without a URL", () => {
+    expect(matchGeoRule([{ id: "R1", countries: [], url: "" }], "US")).toBeNull();
+    expect(matchGeoRule(undefined, "US")).toBeNull();
+  });
+});
+
+describe("pickScheduledDestination", () => {
+  const schedule = [
+    { id: "S1", url: "https://shop.example.com/product", starts_at: null, ends_at: null },
+    {
+      id: "S2",
+      url: "https://shop.example.com/sale",
+      starts_at: "2026-11-27T00:00:00.000Z",
+      ends_at: "2026-11-30T00:00:00.000Z",
+    },
+  ];
+
+  it("lets the entry that started most recently win an overlap", () => {
+    expect(pickScheduledDestination(schedule, new Date("2026-11-28T12:00:00Z"))?.id).toBe("S2");
+    expect(pickScheduledDestination(schedule, new Date("2026-11-01T12:00:00Z"))?.id).toBe("S1");
+  });
+
+  it("treats the end time as exclusive", () => {
+    expect(pickScheduledDestination(schedule, new Date("2026-11-30T00:00:00Z"))?.id).toBe("S1");
+    expect(pickScheduledDestination(schedule.slice(1), new Date("2026-11-30T00:00:00Z"))).toBeNull();
+    expect(pickScheduledDestination(schedule.slice(1), new Date("2026-11-27T00:00:00Z"))?.id).toBe("S2");
+  });
+
+  it("skips entries without a URL", () => {
+    expect(pickScheduledDestination([{ id: "S1", url: "", starts_at: null, ends_at: null }])).toBeNull();
+    expect(pickScheduledDestination(null)).toBeNull();
+  });
+});
+
+describe("pickDeepLink", () => {
+  const links = { deep_link_ios: "shop://item/1", deep_link_android: "shopapp://item/1" };
+
+  it("picks the deep link for the visitor's OS", () => {
+    expect(pickDeepLink(links, "iOS", false)).toBe("shop://item/1");
+    expect(pickDeepLink(links, "Android", false)).toBe("shopapp://item/1");
+    expect(pickDeepLink(links, "Windows", false)).toBeNull();
+    expect(pickDeepLink({ deep_link_ios: null, deep_link_android: null }, "iOS", false)).toBeNull();
+  });
+
+  it("leaves deep links out when a geo rule or variant routed the scan", () => {
+    expect(pickDeepLink(links, "iOS", true)).toBeNull();
+  });
+
+  it("refuses schemes the browser runs itself", () => {
+    expect(pickDeepLink({ deep_link_ios: "javascript://alert(1)", deep_link_android: null }, "iOS", false)).toBeNull();
+  });
+});
@@ -0,0 +1,118 @@
+import { isDeepLinkUrl } from "../lib/link-url";
+import type {
+  SparkCode,
+  SparkCodeGeoRule,
+  SparkCodeScheduledDestination,
+  SparkCodeVariant,
+} from "../types/spark-codes";
+
+const REGION_ALIASES: Record<string, string[]> = {
+  EU: [
+    "AT", "BE", "BG", "HR", "CY", "CZ", "DK", "EE", "FI", "FR", "DE", "GR", "HU", "IE",
+    "IT", "LV", "LT", "LU", "MT", "NL", "PL", "PT", "RO", "SK", "SI", "ES", "SE",
+  ],
+  UK: ["GB"],
+};
+
+function hashToUnit(key: string): number {
+  // FNV-1a, mapped to [0, 1) so the same key always lands in the same bucket.
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+}
+
+/**
+ * Picks one weighted variant for a scan. When `stickyKey` is given (e.g. the
+ * visitor's ip_hash plus the code id) the same visitor keeps getting the same
+ * variant; otherwise each scan rolls independently.
+ */
+export function pickVariant(
+  variants: SparkCodeVariant[] | null | undefined,
+  stickyKey?: string | null,
+): SparkCodeVariant | null {
+  const pool = (variants ?? []).filter((v) => v.url && v.weight > 0);
+  if (pool.length === 0) return null;
+
+  const totalWeight = pool.reduce((sum, v) => sum + v.weight, 0);
+  const roll = (stickyKey ? hashToUnit(stickyKey) : Math.random()) * totalWeight;
+
+  let cumulative = 0;
+  for (const variant of pool) {
+    cumulative += variant.weight;
+    if (roll < cumulative) return variant;
+  }
+  return pool[pool.length - 1];
+}
+
+function ruleMatchesCountry(rule: SparkCodeGeoRule, country: string | null): boolean {
+  if (rule.countries.length === 0) return true;
+  if (!country) return false;
+  const upper = country.toUpperCase();
+  return rule.countries.some((entry) => {
+    const code = entry.trim().toUpperCase();
+    return code === upper || (REGION_ALIASES[code]?.includes(upper) ?? false);
+  });
+}
+
+/** Returns the first rule, in list order, that matches the visitor's country. */
+export function matchGeoRule(
+  rules: SparkCodeGeoRule[] | null | undefined,
+  country: string | null,
+): SparkCodeGeoRule | null {
+  for (const rule of rules ?? []) {
+    if (rule.url && ruleMatchesCountry(rule, country)) return rule;
+  }
+  return null;
+}
+
+function toTime(value: string | null): number | null {
+  if (!value) return null;
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? null : time;
+}
+
+/**
+ * Returns the scheduled destination live at `now`. When windows overlap the
+ * one that started most recently wins, so a short sale window can sit on top
+ * of an open-ended product page entry.
+ */
+export function pickScheduledDestination(
+  schedule: SparkCodeScheduledDestination[] | null | undefined,
+  now: Date = new Date(),
+): SparkCodeScheduledDestination | null {
+  const nowTime = now.getTime();
+  let current: SparkCodeScheduledDestination | null = null;
+  let currentStart = -Infinity;
+
+  for (const entry of schedule ?? []) {
+    if (!entry.url) continue;
+    const start = toTime(entry.starts_at) ?? -Infinity;
+    const end = toTime(entry.ends_at) ?? Infinity;
+    if (nowTime < start || nowTime >= end) continue;
+    if (!current || start >= currentStart) {
+      current = entry;
+      currentStart = start;
+    }
+  }
+  return current;
+}
+
+/**
+ * The app deep link for the visitor's OS, or null. A matched geo rule or
+ * served variant (`routed`) wins over deep links so the visitor lands on the
+ * right storefront and the split test stays accurate.
+ */
+export function pickDeepLink(
+  sparkCode: Pick<SparkCode, "deep_link_ios" | "deep_link_android">,
+  os: string,
+  routed: boolean,
+): string | null {
+  if (routed) return null;
+  const link =
+    os === "iOS" ? sparkCode.deep_link_ios : os === "Android" ? sparkCode.deep_link_android : null;
+  // Only app deep links are followed, never a scheme the browser runs itself.
+  return link && isDeepLinkUrl(link) ? link : null;
+}
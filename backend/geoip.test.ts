@@ -0,0 +1,36 @@
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { beforeAll, describe, expect, it } from "bun:test";
+
+import { lookupGeo } from "./geoip";
+
+const TABLE = `start_ip,end_ip,country,city
+# test ranges
+8.8.8.0,8.8.8.255,US,"Washington, D.C."
+1.0.0.0,1.0.0.255,AU,
+2001:db8::,2001:db8::ffff,DE,Berlin
+`;
+
+describe("lookupGeo", () => {
+  beforeAll(() => {
+    const dbPath = path.join(mkdtempSync(path.join(tmpdir(), "geoip-")), "geoip.csv");
+    writeFileSync(dbPath, TABLE);
+    process.env.GEOIP_DB_PATH = dbPath;
+  });
+
+  it("keeps quoted names with commas whole", async () => {
+    expect(await lookupGeo("8.8.8.8")).toEqual({ country: "US", city: "Washington, D.C." });
+  });
+
+  it("finds IPv4 and IPv6 ranges, with null for a missing city", async () => {
+    expect(await lookupGeo("1.0.0.1")).toEqual({ country: "AU", city: null });
+    expect(await lookupGeo("::ffff:1.0.0.1")).toEqual({ country: "AU", city: null });
+    expect(await lookupGeo("2001:db8::42")).toEqual({ country: "DE", city: "Berlin" });
+  });
+
+  it("returns nulls outside every range", async () => {
+    expect(await lookupGeo("9.9.9.9")).toEqual({ country: null, city: null });
+    expect(await lookupGeo("not-an-ip")).toEqual({ country: null, city: null });
+  });
+});
@@ -0,0 +1,143 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+
+import { parseCsv } from "../lib/csv";
+
+/**
+ * Offline GeoIP lookup backed by a CSV range table bundled with the backend.
+ *
+ * Each row is `start_ip,end_ip,country,city` (IPv4 or IPv6, inclusive range),
+ * quoted like any CSV when a name holds a comma. A header row and `#` comments
+ * are ignored. `bun run geoip` builds the file from DB-IP Lite. It is read
+ * once and kept in memory; if it is missing or unreadable every lookup
+ * resolves to nulls.
+ */
+
+export type GeoLocation = {
+  country: string | null;
+  city: string | null;
+};
+
+type GeoRange = {
+  start: bigint;
+  end: bigint;
+  country: string | null;
+  city: string | null;
+};
+
+const DEFAULT_GEOIP_DB_PATH = path.join(process.cwd(), "backend", "data", "geoip.csv");
+
+const EMPTY_LOCATION: GeoLocation = { country: null, city: null };
+
+let rangesPromise: Promise<GeoRange[]> | null = null;
+
+function parseIpv4(ip: string): bigint | null {
+  const parts = ip.split(".");
+  if (parts.length !== 4) return null;
+  let value = BigInt(0);
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part)) return null;
+    const octet = Number(part);
+    if (octet > 255) return null;
+    value = (value << BigInt(8)) + BigInt(octet);
+  }
+  return value;
+}
+
+function parseIpv6(ip: string): bigint | null {
+  let address = ip;
+
+  const lastColon = address.lastIndexOf(":");
+  const dotted = address.slice(lastColon + 1);
+  if (dotted.includes(".")) {
+    const v4 = parseIpv4(dotted);
+    if (v4 === null) return null;
+    const high = (v4 >> BigInt(16)).toString(16);
+    const low = (v4 & BigInt(0xffff)).toString(16);
+    address = `${address.slice(0, lastColon + 1)}${high}:${low}`;
+  }
+
+  const halves = address.split("::");
+  if (halves.length > 2) return null;
+
+  const head = halves[0] ? halves[0].split(":") : [];
+  const rest = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+  const missing = 8 - head.length - rest.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 0) return null;
+
+  const groups = [...head, ...Array(missing).fill("0"), ...rest];
+  let value = BigInt(0);
+  for (const group of groups) {
+    if (!/^[0-9a-f]{1,4}$/i.test(group)) return null;
+    value = (value << BigInt(16)) + BigInt(parseInt(group, 16));
+  }
+  return value;
+}
+
+/** IPv4 addresses map into the IPv4-mapped IPv6 space so both share one table. */
+export function ipToBigInt(ip: string): bigint | null {
+  const trimmed = ip.trim();
+  if (!trimmed) return null;
+  if (trimmed.includes(":")) return parseIpv6(trimmed);
+  const v4 = parseIpv4(trimmed);
+  return v4 === null ? null : (BigInt(0xffff) << BigInt(32)) + v4;
+}
+
+function parseRanges(contents: string): GeoRange[] {
+  const ranges: GeoRange[] = [];
+  for (const cells of parseCsv(contents)) {
+    if (cells[0].trim().startsWith("#")) continue;
+    const [startIp, endIp, country, city] = cells.map((v) => v.trim());
+    const start = ipToBigInt(startIp ?? "");
+    const end = ipToBigInt(endIp ?? "");
+    if (start === null || end === null || end < start) continue;
+    ranges.push({
+      start,
+      end,
+      country: country || null,
+      city: city || null,
+    });
+  }
+  return ranges.sort((a, b) => (a.start < b.start ? -1 : a.start > b.start ? 1 : 0));
+}
+
+async function loadRanges(): Promise<GeoRange[]> {
+  const dbPath = process.env.GEOIP_DB_PATH || DEFAULT_GEOIP_DB_PATH;
+  try {
+    const contents = await readFile(dbPath, "utf8");
+    const ranges = parseRanges(contents);
+    console.log("[GeoIP] loaded", ranges.length, "ranges from", dbPath);
+    return ranges;
+  } catch (e) {
+    console.log("[GeoIP] database unavailable, lookups disabled:", dbPath, (e as Error)?.message);
+    return [];
+  }
+}
+
+function getRanges(): Promise<GeoRange[]> {
+  if (!rangesPromise) {
+    rangesPromise = loadRanges();
+  }
+  return rangesPromise;
+}
+
+export async function lookupGeo(ip: string): Promise<GeoLocation> {
+  const value = ipToBigInt(ip);
+  if (value === null) return EMPTY_LOCATION;
+
+  const ranges = await getRanges();
+  let low = 0;
+  let high = ranges.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    const range = ranges[mid];
+    if (value < range.start) {
+      high = mid - 1;
+    } else if (value > range.end) {
+      low = mid + 1;
+    } else {
+      return { country: range.country, city: range.city };
+    }
+  }
+  return EMPTY_LOCATION;
+}
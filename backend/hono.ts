@@ -1,10 +1,36 @@
 import { trpcServer } from "@hono/trpc-server";
-import { Hono } from "hono";
+import { Context, Hono } from "hono";
+import { getConnInfo } from "hono/bun";
 import { cors } from "hono/cors";
-import { createClient } from "@supabase/supabase-js";
+import { SupabaseClient } from "@supabase/supabase-js";
 
+import { verifyAccessPassword } from "./access";
+import { DomainScope, getRequestHost, resolveDomainScope } from "./custom-domains";
+import { matchGeoRule, pickDeepLink, pickScheduledDestination, pickVariant } from "./destinations";
+import { lookupGeo } from "./geoip";
+import {
+  BioPageEntry,
+  renderDesktopHandoffPage,
+  renderFallbackPage,
+  renderInAppEscapePage,
+  renderLimitReachedPage,
+  renderLinkInBioPage,
+  renderPasswordPage,
+} from "./html";
+import { buildEscapeLinks, detectInAppBrowser, IN_APP_BROWSER_NAMES, InAppBrowser } from "./in-app-browser";
+import { runLinkHealthCheck } from "./link-health";
+import { applyQueryParams } from "./query-params";
+import { checkRedirectRateLimit, hitRateLimit, RATE_LIMITS, RateLimitResult } from "./rate-limit";
+import { parseReferrerHost, resolveScanSource } from "./scan-sources";
+import { runStatusTransitions } from "./status-transitions";
+import { getSupabaseService } from "./supabase";
 import { appRouter } from "./trpc/app-router";
 import { createContext } from "./trpc/create-context";
+import { dispatchScanWebhooks } from "./webhooks";
+import { isWebUrl } from "../lib/link-url";
+import { encodeQrCode, qrCodeToSvgString } from "../lib/qr-code";
+import type { SparkCode } from "../types/spark-codes";
+import type { ScanWebhookPayload } from "../types/webhooks";
 
 const app = new Hono();
 
@@ -23,14 +49,11 @@ app.get("/", (c) => {
   return c.json({ status: "ok", message: "CreatorShelf API is running" });
 });
 
-function getSupabaseAdmin() {
-  const url = process.env.EXPO_PUBLIC_SUPABASE_URL ?? "";
-  const key = process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY ?? "";
-  if (!url || !key) return null;
-  return createClient(url, key);
-}
-
-function parseUserAgent(ua: string): { device_type: string; os: string } {
+function parseUserAgent(ua: string): {
+  device_type: string;
+  os: string;
+  in_app_browser: InAppBrowser | null;
+} {
   let os = "Unknown";
   let device_type = "Unknown";
 
@@ -54,10 +77,72 @@ function parseUserAgent(ua: string): { device_type: string; os: string } {
     device_type = "Desktop";
   }
 
-  return { device_type, os };
+  return { device_type, os, in_app_browser: detectInAppBrowser(ua) };
+}
+
+const BOT_UA_PATTERN =
+  /bot|crawl|spider|slurp|preview|facebookexternalhit|facebot|embedly|quora link|whatsapp|slack|vkshare|skypeuripreview|bitlybot|outbrain|nuzzel|headless|lighthouse|curl\/|wget\/|python-requests|go-http-client|okhttp|axios\//i;
+
+/** Link-preview fetchers (Slack, iMessage, Twitter, ...) and scripted clients. */
+function isBotUserAgent(ua: string): boolean {
+  if (!ua.trim()) return true;
+  return BOT_UA_PATTERN.test(ua);
+}
+
+function getScanAttribution(c: Context, inAppBrowser: InAppBrowser | null) {
+  const referrer = parseReferrerHost(c.req.header("referer"));
+  const source = resolveScanSource({
+    src: c.req.query("src"),
+    ref: c.req.query("ref"),
+    referrerHost: referrer,
+    inAppBrowser,
+    ownHost: getRequestHost(c.req.raw.headers),
+  });
+  return { source, referrer };
+}
+
+/** Source tag carried by the hand-off QR, so phone scans that follow a desktop visit are attributed. */
+const DESKTOP_HANDOFF_SOURCE = "desktop_qr";
+
+function renderDesktopHandoff(c: Context, sparkCode: SparkCode, shortLink: string, continueUrl: string | null) {
+  const url = new URL(shortLink);
+  url.searchParams.set("src", DESKTOP_HANDOFF_SOURCE);
+  const qrSvg = qrCodeToSvgString(encodeQrCode(url.toString(), "M"), { margin: 2 });
+  return c.html(
+    renderDesktopHandoffPage(sparkCode.bio_label || sparkCode.code, sparkCode.brand_name, qrSvg, continueUrl),
+  );
+}
+
+/** Keeps work (webhook retries) going after the response where the runtime allows it. */
+function runInBackground(c: Context, task: Promise<unknown>) {
+  const guarded = task.catch((e) => console.log("[Background] task failed:", e instanceof Error ? e.message : e));
+  try {
+    c.executionCtx.waitUntil(guarded);
+  } catch {
+    // No execution context (Node/Bun): the promise keeps running on its own.
+  }
+}
+
+/**
+ * The visitor's address. Like `getRequestHost`, forwarding headers are only
+ * honoured with `TRUST_PROXY=true`: anyone can send X-Forwarded-For, and one
+ * client posing as many would walk past the per-visitor limits.
+ */
+function getClientIp(c: Context): string {
+  if (process.env.TRUST_PROXY === "true") {
+    const forwarded = c.req.header("x-forwarded-for")?.split(",")[0]?.trim() || c.req.header("x-real-ip")?.trim();
+    if (forwarded) return forwarded;
+  }
+  try {
+    return getConnInfo(c).remote.address ?? "unknown";
+  } catch {
+    // Not running on Bun.serve, so there is no socket to ask.
+    return "unknown";
+  }
 }
 
 async function hashIp(ip: string): Promise<string> {
+  if (ip === "unknown") return ip;
   try {
     const encoder = new TextEncoder();
     const data = encoder.encode(ip + "creatorshelf-salt");
@@ -69,72 +154,560 @@ async function hashIp(ip: string): Promise<string> {
   }
 }
 
-app.get("/r/:shortCode", async (c) => {
-  const shortCode = c.req.param("shortCode");
-  console.log("[Redirect] incoming request for short_code:", shortCode);
+/**
+ * Resolves an active (or expired) code by exact short code, then case-insensitively (vanity
+ * slugs are stored lowercase), then by a previous short code kept as an alias.
+ * On a custom domain only that creator's codes for the domain match.
+ */
+async function findSparkCode(supabase: SupabaseClient, shortCode: string, scope: DomainScope) {
+  if (!/^[A-Za-z0-9-]{1,64}$/.test(shortCode)) {
+    return { data: null, error: null };
+  }
+  const lower = shortCode.toLowerCase();
+  // Codes the status job deactivated on expiry still resolve, so visitors get
+  // the expired fallback rather than a not-found page.
+  const active = () => {
+    const query = supabase
+      .from("spark_codes")
+      .select("*")
+      .or(`is_active.eq.true,expires_at.lte.${new Date().toISOString()}`)
+      .limit(1);
+    return scope
+      ? query.eq("domain", scope.domain).eq("user_id", scope.userId)
+      : query.is("domain", null);
+  };
 
-  const supabase = getSupabaseAdmin();
-  if (!supabase) {
-    console.log("[Redirect] Supabase not configured");
-    return c.text("Service unavailable", 503);
+  const exact = await active().eq("short_code", shortCode).maybeSingle();
+  if (exact.data || exact.error) return exact;
+
+  const insensitive = await active().ilike("short_code", lower).maybeSingle();
+  if (insensitive.data || insensitive.error) return insensitive;
+
+  return active().overlaps("short_code_aliases", [shortCode, lower]).maybeSingle();
+}
+
+/**
+ * Redirects used against `max_scans`, bots included: a cap that skipped bot
+ * hits could be drained with curl or an empty User-Agent. A quick pre-check;
+ * `logScanEvent` enforces the cap.
+ */
+async function countCountedScans(supabase: SupabaseClient, sparkCodeId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from("scan_events")
+    .select("id", { count: "exact", head: true })
+    .eq("spark_code_id", sparkCodeId)
+    .eq("outcome", "redirect");
+  if (error) {
+    console.log("[Redirect] failed to count scans:", error.message);
+    return 0;
   }
+  return count ?? 0;
+}
+
+/** Link to another of the creator's codes, on its own domain when it has one. */
+function shortLinkHref(shortCode: string, domain: string | null, defaultPrefix: string): string {
+  const path = encodeURIComponent(shortCode);
+  return domain ? `https://${domain}/${path}` : `${defaultPrefix}${path}`;
+}
+
+/** Absolute `/api/r/` prefix on the public base URL, or null when none is configured. */
+function defaultShortLinkPrefix(): string | null {
+  const base = process.env.EXPO_PUBLIC_RORK_API_BASE_URL;
+  return base ? `${base}/api/r/` : null;
+}
+
+/**
+ * The code's public short link, from the configured base URL: behind a proxy
+ * the request URL can carry an internal host the phone can't reach.
+ */
+function publicShortLink(sparkCode: SparkCode): string | null {
+  const prefix = defaultShortLinkPrefix();
+  if (!sparkCode.domain && !prefix) return null;
+  return shortLinkHref(sparkCode.short_code, sparkCode.domain, prefix ?? "");
+}
 
-  const { data: sparkCode, error } = await supabase
+/** Active, unexpired codes the creator shows on their link-in-bio page, in their chosen order. */
+async function loadBioEntries(
+  supabase: SupabaseClient,
+  userId: string,
+  defaultPrefix: string,
+): Promise<BioPageEntry[] | null> {
+  const { data: codes, error } = await supabase
     .from("spark_codes")
-    .select("*")
-    .eq("short_code", shortCode)
+    .select("code, short_code, domain, brand_name, bio_label, thumbnail_url")
+    .eq("user_id", userId)
     .eq("is_active", true)
-    .single();
+    .eq("bio_visible", true)
+    .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+    .order("bio_position", { ascending: true })
+    .order("created_at", { ascending: false });
+  if (error) {
+    console.log("[LinkInBio] failed to load codes:", error.message);
+    return null;
+  }
+  return (codes ?? []).map((code) => ({
+    title: code.bio_label || code.code,
+    subtitle: code.brand_name,
+    thumbnailUrl: code.thumbnail_url,
+    href: `${shortLinkHref(code.short_code, code.domain, defaultPrefix)}?src=bio`,
+  }));
+}
+
+/**
+ * Logs an expired or not-found hit. These use their own `outcome` so they
+ * never count as scans, but still show up in analytics.
+ */
+async function logFallbackHit(
+  c: Context,
+  supabase: SupabaseClient,
+  hit: { outcome: "expired" | "not_found"; sparkCodeId: string | null; userId: string; requestedCode: string },
+) {
+  const ua = c.req.header("user-agent") ?? "";
+  const { device_type, os, in_app_browser } = parseUserAgent(ua);
+  const ipHash = await hashIp(getClientIp(c));
+
+  const { error } = await supabase.from("scan_events").insert({
+    spark_code_id: hit.sparkCodeId,
+    user_id: hit.userId,
+    outcome: hit.outcome,
+    requested_code: hit.requestedCode,
+    device_type,
+    os,
+    ip_hash: ipHash,
+    is_bot: isBotUserAgent(ua),
+    ...getScanAttribution(c, in_app_browser),
+    in_app_browser,
+  });
+  if (error) {
+    console.log("[Redirect] failed to log", hit.outcome, "hit:", error.message);
+  }
+}
+
+/**
+ * Expired and unknown links go to the code's fallback URL, then the
+ * creator's profile fallback, then a branded page with their current links.
+ */
+async function serveFallback(
+  c: Context,
+  supabase: SupabaseClient,
+  kind: "expired" | "not_found",
+  ownerId: string | null,
+  codeFallbackUrl: string | null,
+): Promise<Response> {
+  const status = kind === "expired" ? 410 : 404;
+  if (!ownerId) {
+    return c.html(renderFallbackPage(kind, null, []), status);
+  }
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("first_name, fallback_url")
+    .eq("user_id", ownerId)
+    .maybeSingle();
+
+  const fallbackUrl = [codeFallbackUrl, profile?.fallback_url].find((url) => url && isWebUrl(url)) ?? null;
+  if (fallbackUrl) {
+    console.log("[Redirect]", kind, "link, redirecting to fallback:", fallbackUrl);
+    return c.redirect(fallbackUrl, 302);
+  }
+
+  const entries = await loadBioEntries(supabase, ownerId, defaultShortLinkPrefix() ?? "/r/");
+  return c.html(renderFallbackPage(kind, profile?.first_name ?? null, entries ?? []), status);
+}
+
+type GateResult =
+  | { kind: "ok"; supabase: SupabaseClient; sparkCode: SparkCode }
+  | { kind: "response"; response: Response };
+
+/**
+ * Public pages read codes with the service role: anon can't select
+ * spark_codes, whose rows carry password hashes and gated destinations.
+ */
+function getPublicPageClient(tag: string): SupabaseClient | null {
+  const supabase = getSupabaseService();
+  if (!supabase) {
+    console.log(`[${tag}] Supabase or SUPABASE_SERVICE_ROLE_KEY not configured`);
+  }
+  return supabase;
+}
+
+/** Records when a code last tripped a rate limit; surfaced on its analytics. */
+async function flagSuspiciousTraffic(supabase: SupabaseClient, sparkCodeId: string) {
+  const { error } = await supabase
+    .from("spark_codes")
+    .update({ suspicious_traffic_at: new Date().toISOString() })
+    .eq("id", sparkCodeId);
+  if (error) {
+    console.log("[Redirect] failed to flag suspicious traffic:", error.message);
+  }
+}
+
+/**
+ * Rate limits a hit before anything reads the database, keyed on the link as
+ * requested (host and short code) since the code isn't loaded yet. Throttled
+ * hits still reach their destination so real visitors are never stranded,
+ * but they are not logged: flooding a link can't inflate its numbers or load
+ * the database.
+ */
+async function checkThrottle(c: Context, shortCode: string): Promise<RateLimitResult> {
+  const ipHash = await hashIp(getClientIp(c));
+  const link = `${getRequestHost(c.req.raw.headers) ?? ""}/${shortCode.toLowerCase()}`;
+  const rateLimit = await checkRedirectRateLimit(link, ipHash);
+  if (rateLimit.limited) {
+    console.log("[Redirect] rate limited (" + rateLimit.reason + ") for:", shortCode);
+  }
+  return rateLimit;
+}
+
+/** Looks up the code and applies the checks shared by GET and the password POST. */
+async function loadRedirectTarget(c: Context, shortCode: string, throttle: RateLimitResult): Promise<GateResult> {
+  const supabase = getPublicPageClient("Redirect");
+  if (!supabase) {
+    return { kind: "response", response: c.text("Service unavailable", 503) };
+  }
+
+  const scope = await resolveDomainScope(supabase, getRequestHost(c.req.raw.headers));
+  const { data: sparkCode, error } = await findSparkCode(supabase, shortCode, scope);
 
   if (error || !sparkCode) {
     console.log("[Redirect] spark_code not found for:", shortCode, error?.message);
-    return c.text("Link not found", 404);
+    // Only a custom domain tells us whose link this was meant to be.
+    if (scope && !throttle.limited) {
+      await logFallbackHit(c, supabase, {
+        outcome: "not_found",
+        sparkCodeId: null,
+        userId: scope.userId,
+        requestedCode: shortCode,
+      });
+    }
+    return { kind: "response", response: await serveFallback(c, supabase, "not_found", scope?.userId ?? null, null) };
+  }
+
+  if (throttle.firstLimitedHit) {
+    await flagSuspiciousTraffic(supabase, sparkCode.id);
   }
 
   if (sparkCode.expires_at && new Date(sparkCode.expires_at) < new Date()) {
     console.log("[Redirect] spark_code expired:", shortCode);
-    return c.text("This link has expired", 410);
+    if (!throttle.limited) {
+      await logFallbackHit(c, supabase, {
+        outcome: "expired",
+        sparkCodeId: sparkCode.id,
+        userId: sparkCode.user_id,
+        requestedCode: shortCode,
+      });
+    }
+    return {
+      kind: "response",
+      response: await serveFallback(c, supabase, "expired", sparkCode.user_id, sparkCode.expired_fallback_url),
+    };
   }
 
-  const ua = c.req.header("user-agent") ?? "";
-  const { device_type, os } = parseUserAgent(ua);
-  const clientIp = c.req.header("x-forwarded-for")?.split(",")[0]?.trim() ?? 
-                   c.req.header("x-real-ip") ?? 
-                   "unknown";
-  const ipHash = await hashIp(clientIp);
+  if (sparkCode.max_scans != null) {
+    // Every redirect of a capped code has to be logged to count, so a
+    // throttled hit is turned away instead.
+    if (throttle.limited) {
+      return { kind: "response", response: c.text("Too many requests. Try again in a minute.", 429) };
+    }
+    const scans = await countCountedScans(supabase, sparkCode.id);
+    if (scans >= sparkCode.max_scans) {
+      console.log("[Redirect] scan limit reached:", shortCode, scans, "/", sparkCode.max_scans);
+      return { kind: "response", response: c.html(renderLimitReachedPage(), 410) };
+    }
+  }
 
-  const scanEvent = {
-    spark_code_id: sparkCode.id,
-    device_type,
-    os,
-    ip_hash: ipHash,
-    country: null,
-    city: null,
-  };
+  return { kind: "ok", supabase, sparkCode: sparkCode as SparkCode };
+}
 
+/** Form action for the password prompt; keeps `src` and other tags on the retry. */
+function passwordFormAction(c: Context): string {
+  const url = new URL(c.req.url);
+  return `${url.pathname}${url.search}`;
+}
+
+type ScanEventRow = {
+  spark_code_id: string;
+  device_type: string;
+  os: string;
+  ip_hash: string;
+  country: string | null;
+  city: string | null;
+  variant_id: string | null;
+  geo_rule_id: string | null;
+  is_bot: boolean;
+  source: string;
+  referrer: string | null;
+  in_app_browser: InAppBrowser | null;
+  outcome: string;
+};
+
+/**
+ * Inserts a scan event. Capped codes go through `log_capped_scan`, which
+ * checks the cap and inserts under a row lock, so parallel hits can't
+ * overshoot. `limited` means the cap was used up and nothing was logged.
+ */
+async function logScanEvent(
+  supabase: SupabaseClient,
+  sparkCode: SparkCode,
+  scanEvent: ScanEventRow,
+): Promise<{ status: "logged" | "limited" | "failed"; id: string | null }> {
   console.log("[Redirect] logging scan event:", JSON.stringify(scanEvent));
-  const { error: insertError } = await supabase
-    .from("scan_events")
-    .insert(scanEvent);
+  if (sparkCode.max_scans != null && scanEvent.outcome === "redirect") {
+    const { data, error } = await supabase.rpc("log_capped_scan", { p_event: scanEvent });
+    if (error) {
+      console.log("[Redirect] failed to log capped scan:", error.message);
+      return { status: "failed", id: null };
+    }
+    return data == null ? { status: "limited", id: null } : { status: "logged", id: data as string };
+  }
 
-  if (insertError) {
-    console.log("[Redirect] failed to log scan event:", insertError.message);
+  const { data, error } = await supabase.from("scan_events").insert(scanEvent).select("id").maybeSingle();
+  if (error) {
+    console.log("[Redirect] failed to log scan event:", error.message);
+    return { status: "failed", id: null };
   }
+  return { status: "logged", id: data?.id ?? null };
+}
 
-  let redirectUrl = sparkCode.destination_url;
+/** `supabase` is the redirect's service-role client, which can read signing secrets. */
+function dispatchWebhooksInBackground(
+  c: Context,
+  supabase: SupabaseClient,
+  userId: string,
+  data: ScanWebhookPayload["data"],
+) {
+  runInBackground(c, dispatchScanWebhooks(supabase, userId, data));
+}
+
+/** `throttled` hits are redirected without being logged (see `checkThrottle`). */
+async function redirectToDestination(
+  c: Context,
+  supabase: SupabaseClient,
+  sparkCode: SparkCode,
+  throttled: boolean,
+) {
+  const ua = c.req.header("user-agent") ?? "";
+  const { device_type, os, in_app_browser } = parseUserAgent(ua);
+  const isBot = isBotUserAgent(ua);
+  const { source, referrer } = getScanAttribution(c, in_app_browser);
+  const clientIp = getClientIp(c);
+  const { country, city } = await lookupGeo(clientIp);
+  const ipHash = await hashIp(clientIp);
 
-  if (os === "iOS" && sparkCode.deep_link_ios) {
-    redirectUrl = sparkCode.deep_link_ios;
-  } else if (os === "Android" && sparkCode.deep_link_android) {
-    redirectUrl = sparkCode.deep_link_android;
+  const geoRule = matchGeoRule(sparkCode.geo_rules, country);
+  const stickyKey =
+    sparkCode.sticky_variants && ipHash !== "unknown" ? `${sparkCode.id}:${ipHash}` : null;
+  const variant = geoRule ? null : pickVariant(sparkCode.variants, stickyKey);
+
+  // Desktop visitors get a QR for their phone instead of the destination. The
+  // page view is logged as its own outcome: the phone scan that follows is the
+  // real one, so the view must not count as a scan or use up a capped link.
+  const handoffLink =
+    device_type === "Desktop" && sparkCode.desktop_behavior === "qr_handoff" && !isBot && !in_app_browser
+      ? publicShortLink(sparkCode)
+      : null;
+
+  if (!throttled) {
+    const scanEvent: ScanEventRow = {
+      spark_code_id: sparkCode.id,
+      device_type,
+      os,
+      ip_hash: ipHash,
+      country,
+      city,
+      variant_id: variant?.id ?? null,
+      geo_rule_id: geoRule?.id ?? null,
+      is_bot: isBot,
+      source,
+      referrer,
+      in_app_browser,
+      outcome: handoffLink ? "desktop_handoff" : "redirect",
+    };
+
+    const logged = await logScanEvent(supabase, sparkCode, scanEvent);
+    if (logged.status === "limited") {
+      console.log("[Redirect] scan limit reached:", sparkCode.short_code, "/", sparkCode.max_scans);
+      return c.html(renderLimitReachedPage(), 410);
+    }
+    if (logged.status === "logged" && !isBot && !handoffLink) {
+      dispatchWebhooksInBackground(c, supabase, sparkCode.user_id, {
+        scan_event_id: logged.id,
+        spark_code_id: sparkCode.id,
+        code: sparkCode.code,
+        short_code: sparkCode.short_code,
+        device_type,
+        os,
+        country,
+        source,
+      });
+    }
   }
 
-  if (!redirectUrl) {
+  const scheduled = pickScheduledDestination(sparkCode.destination_schedule);
+  const routedWebUrl = geoRule?.url ?? variant?.url ?? scheduled?.url ?? sparkCode.destination_url;
+  // Only http(s) pages and app deep links are followed or put in the escape page.
+  const baseWebUrl = routedWebUrl && isWebUrl(routedWebUrl) ? routedWebUrl : null;
+
+  const appUrl = pickDeepLink(sparkCode, os, !!geoRule || !!variant);
+
+  if (!baseWebUrl && !appUrl) {
     return c.text("No destination configured for this link", 404);
   }
 
-  console.log("[Redirect] redirecting to:", redirectUrl, "| device:", device_type, "| os:", os);
+  const webUrl = baseWebUrl
+    ? applyQueryParams(baseWebUrl, sparkCode.query_params, {
+      short_code: sparkCode.short_code,
+      os,
+      device: device_type,
+      country,
+      city,
+      variant: variant?.id,
+    })
+    : null;
+  const redirectUrl = (appUrl ?? webUrl)!;
+
+  if (in_app_browser && !isBot) {
+    const links = buildEscapeLinks(os, webUrl, appUrl);
+    console.log("[Redirect] serving in-app escape for:", in_app_browser, "| os:", os, "| open:", links.openUrl ?? "none");
+    return c.html(renderInAppEscapePage(IN_APP_BROWSER_NAMES[in_app_browser], links));
+  }
+
+  if (handoffLink) {
+    console.log("[Redirect] serving desktop QR hand-off for:", sparkCode.short_code);
+    // On a capped code the page view isn't counted, so it can't show the destination either.
+    return renderDesktopHandoff(c, sparkCode, handoffLink, sparkCode.max_scans != null ? null : webUrl);
+  }
+
+  console.log("[Redirect] redirecting to:", redirectUrl, "| device:", device_type, "| os:", os, "| variant:", variant?.id ?? "none", "| geo rule:", geoRule?.id ?? "none");
   return c.redirect(redirectUrl, 302);
+}
+
+async function handleRedirect(c: Context) {
+  const shortCode = c.req.param("shortCode");
+  console.log("[Redirect] incoming request for short_code:", shortCode);
+
+  const throttle = await checkThrottle(c, shortCode);
+  const target = await loadRedirectTarget(c, shortCode, throttle);
+  if (target.kind === "response") return target.response;
+
+  if (target.sparkCode.password_hash) {
+    return c.html(renderPasswordPage(passwordFormAction(c)), 401);
+  }
+
+  return redirectToDestination(c, target.supabase, target.sparkCode, throttle.limited);
+}
+
+async function handlePasswordSubmit(c: Context) {
+  const shortCode = c.req.param("shortCode");
+  const throttle = await checkThrottle(c, shortCode);
+  const target = await loadRedirectTarget(c, shortCode, throttle);
+  if (target.kind === "response") return target.response;
+
+  const { sparkCode, supabase } = target;
+  if (sparkCode.password_hash) {
+    const ipHash = await hashIp(getClientIp(c));
+    const attempts = await hitRateLimit(`password:${sparkCode.id}:${ipHash}`, RATE_LIMITS.passwordAttempts);
+    if (attempts.limited) {
+      console.log("[Redirect] too many password attempts for:", shortCode);
+      return c.html(renderPasswordPage(passwordFormAction(c), "Too many attempts. Try again in a few minutes."), 429);
+    }
+    const body = await c.req.parseBody();
+    const password = typeof body.password === "string" ? body.password : "";
+    if (!password || !(await verifyAccessPassword(password, sparkCode.password_hash))) {
+      console.log("[Redirect] wrong password for:", shortCode);
+      return c.html(renderPasswordPage(passwordFormAction(c), "That password is incorrect."), 401);
+    }
+  }
+
+  return redirectToDestination(c, supabase, sparkCode, throttle.limited);
+}
+
+app.get("/r/:shortCode", handleRedirect);
+app.post("/r/:shortCode", handlePasswordSubmit);
+
+app.get("/u/:handle", async (c) => {
+  const handle = c.req.param("handle").toLowerCase();
+  if (!/^[a-z0-9._]{1,30}$/.test(handle)) {
+    return c.text("Page not found", 404);
+  }
+
+  const supabase = getPublicPageClient("LinkInBio");
+  if (!supabase) {
+    return c.text("Service unavailable", 503);
+  }
+
+  const { data: profile, error: profileError } = await supabase
+    .from("profiles")
+    .select("user_id, first_name, handle")
+    .eq("handle", handle)
+    .maybeSingle();
+  if (profileError || !profile) {
+    console.log("[LinkInBio] profile not found for:", handle, profileError?.message);
+    return c.text("Page not found", 404);
+  }
+
+  // Absolute when the public base is known: this page can be served from a
+  // custom domain, where default-domain codes don't resolve. The relative
+  // fallback hits the tracked redirect on whatever host and mount path served it.
+  const entries = await loadBioEntries(supabase, profile.user_id, defaultShortLinkPrefix() ?? "../r/");
+  if (!entries) {
+    return c.text("Service unavailable", 503);
+  }
+
+  c.header("Cache-Control", "public, max-age=60");
+  return c.html(renderLinkInBioPage(profile.first_name, profile.handle, entries));
+});
+
+/**
+ * Scheduled jobs are triggered by an external cron hitting these routes with
+ * `Authorization: Bearer $JOBS_SECRET`. Without the secret they stay off.
+ */
+function isAuthorizedJob(c: Context): boolean {
+  const secret = process.env.JOBS_SECRET;
+  return !!secret && c.req.header("authorization") === `Bearer ${secret}`;
+}
+
+// Like the status job below, this writes to every creator's codes.
+app.post("/jobs/link-health", async (c) => {
+  if (!isAuthorizedJob(c)) return c.text("Unauthorized", 401);
+  const supabase = getSupabaseService();
+  if (!supabase) return c.text("Service unavailable", 503);
+
+  try {
+    const { checked, broken } = await runLinkHealthCheck(supabase);
+    return c.json({ checked, broken });
+  } catch (e) {
+    console.log("[LinkHealth] job failed:", (e as Error)?.message);
+    return c.json({ error: "Link health check failed" }, 500);
+  }
 });
 
+// Updates codes of every creator, so it needs the service role (see .env.example).
+app.post("/jobs/status-transitions", async (c) => {
+  if (!isAuthorizedJob(c)) return c.text("Unauthorized", 401);
+  const supabase = getSupabaseService();
+  if (!supabase) return c.text("Service unavailable", 503);
+
+  try {
+    return c.json(await runStatusTransitions(supabase));
+  } catch (e) {
+    console.log("[StatusJob] job failed:", (e as Error)?.message);
+    return c.json({ error: "Status transitions failed" }, 500);
+  }
+});
+
+// Custom domains serve short links at the root (`go.mybrand.com/<code>`).
+// The default host keeps `/r/<code>` only, so other root paths stay free.
+function onCustomDomain(handler: (c: Context) => Promise<Response>) {
+  return async (c: Context) => {
+    const host = getRequestHost(c.req.raw.headers);
+    const supabase = getPublicPageClient("Domains");
+    if (!supabase || !(await resolveDomainScope(supabase, host))) return c.notFound();
+    return handler(c);
+  };
+}
+
+app.get("/:shortCode", onCustomDomain(handleRedirect));
+app.post("/:shortCode", onCustomDomain(handlePasswordSubmit));
+
 export default app;
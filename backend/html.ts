@@ -0,0 +1,178 @@
+/**
+ * Minimal self-contained HTML pages served by the redirect handler (password
+ * prompt, limit reached, ...). No external assets so they render anywhere.
+ */
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+const PAGE_STYLES = `
+  *{box-sizing:border-box}
+  body{margin:0;min-height:100vh;display:flex;align-items:center;justify-content:center;
+    font-family:-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,sans-serif;
+    background:#0B1120;color:#F1F5F9;padding:24px}
+  main{width:100%;max-width:360px;text-align:center}
+  h1{font-size:20px;margin:0 0 8px}
+  p{font-size:15px;line-height:1.5;color:#94A3B8;margin:0 0 20px}
+  form{display:flex;flex-direction:column;gap:12px}
+  input{font-size:16px;padding:12px 14px;border-radius:10px;border:1px solid #334155;
+    background:#111827;color:#F1F5F9}
+  button,.button{display:block;font-size:15px;font-weight:600;padding:12px 14px;border:0;
+    border-radius:10px;background:#0D9488;color:#fff;text-decoration:none;cursor:pointer}
+  .button.secondary{background:#1F2937}
+  .actions{display:flex;flex-direction:column;gap:12px}
+  .error{color:#F87171;font-size:14px;margin:0}
+  .qr{background:#fff;border-radius:16px;padding:16px;width:240px;margin:0 auto 20px}
+  .qr svg{display:block;width:100%;height:auto}
+`;
+
+/** Wraps `body` (already-escaped HTML) in a mobile-friendly page shell. */
+export function renderPage(title: string, body: string): string {
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width,initial-scale=1">
+<meta name="robots" content="noindex">
+<title>${escapeHtml(title)}</title>
+<style>${PAGE_STYLES}</style>
+</head>
+<body><main>${body}</main></body>
+</html>`;
+}
+
+export function renderPasswordPage(action: string, error?: string): string {
+  return renderPage(
+    "Password required",
+    `<h1>Password required</h1>
+<p>This link is protected. Enter the password you were given to continue.</p>
+<form method="post" action="${escapeHtml(action)}">
+  <input type="password" name="password" placeholder="Password" autocomplete="current-password" autofocus required>
+  ${error ? `<p class="error">${escapeHtml(error)}</p>` : ""}
+  <button type="submit">Continue</button>
+</form>`,
+  );
+}
+
+export function renderLimitReachedPage(): string {
+  return renderPage(
+    "Link limit reached",
+    `<h1>This link is no longer available</h1>
+<p>It has reached the maximum number of scans allowed by its owner.</p>`,
+  );
+}
+
+export type BioPageEntry = {
+  title: string;
+  subtitle: string | null;
+  thumbnailUrl: string | null;
+  href: string;
+};
+
+const BIO_STYLES = `
+  main{max-width:480px;text-align:left;align-self:flex-start;margin-top:32px}
+  header{text-align:center;margin-bottom:24px}
+  ul{list-style:none;margin:0;padding:0;display:flex;flex-direction:column;gap:12px}
+  a.entry{display:flex;align-items:center;gap:12px;padding:12px;border-radius:14px;
+    background:#111827;border:1px solid #1F2937;color:#F1F5F9;text-decoration:none}
+  a.entry:active{background:#1F2937}
+  .thumb{width:48px;height:48px;border-radius:10px;object-fit:cover;flex-shrink:0;background:#1F2937}
+  .entry-title{display:block;font-size:15px;font-weight:600}
+  .entry-subtitle{display:block;font-size:13px;color:#94A3B8;margin-top:2px}
+`;
+
+function renderBioEntries(entries: BioPageEntry[]): string {
+  return entries
+    .map(
+      (entry) => `<li><a class="entry" href="${escapeHtml(entry.href)}" rel="noopener">
+  ${entry.thumbnailUrl ? `<img class="thumb" src="${escapeHtml(entry.thumbnailUrl)}" alt="" loading="lazy">` : ""}
+  <span><span class="entry-title">${escapeHtml(entry.title)}</span>${
+    entry.subtitle ? `<span class="entry-subtitle">${escapeHtml(entry.subtitle)}</span>` : ""
+  }</span>
+</a></li>`,
+    )
+    .join("\n");
+}
+
+export function renderLinkInBioPage(name: string, handle: string, entries: BioPageEntry[]): string {
+  return renderPage(
+    `${name} (@${handle})`,
+    `<style>${BIO_STYLES}</style>
+<header><h1>${escapeHtml(name)}</h1><p>@${escapeHtml(handle)}</p></header>
+${entries.length > 0 ? `<ul>${renderBioEntries(entries)}</ul>` : "<p>No links yet.</p>"}`,
+  );
+}
+
+/**
+ * Shown for expired or unknown links when no fallback URL is set. Lists the
+ * creator's current links when we know whose link it was.
+ */
+export function renderFallbackPage(
+  kind: "expired" | "not_found",
+  creatorName: string | null,
+  entries: BioPageEntry[],
+): string {
+  const title = kind === "expired" ? "This link has ended" : "Link not found";
+  const message =
+    kind === "expired"
+      ? "The campaign behind this link is over."
+      : "This link doesn't exist or has been turned off.";
+  const more =
+    creatorName && entries.length > 0
+      ? `<p>Here's what ${escapeHtml(creatorName)} is sharing right now:</p><ul>${renderBioEntries(entries)}</ul>`
+      : "";
+  return renderPage(
+    title,
+    `<style>${BIO_STYLES}</style>
+<header><h1>${escapeHtml(title)}</h1><p>${message}</p></header>
+${more}`,
+  );
+}
+
+/** JSON for inline `<script>`; escapes `<` so a URL can't close the tag. */
+function toScriptJson(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, "\\u003c");
+}
+
+export function renderInAppEscapePage(
+  appName: string,
+  links: { autoUrl: string | null; openUrl: string | null; continueUrl: string },
+): string {
+  return renderPage(
+    "Open in your browser",
+    `<h1>Open in your browser</h1>
+<p>${escapeHtml(appName)}'s built-in browser can't open this link properly.
+If nothing happens, tap <strong>•••</strong> and choose <strong>Open in browser</strong>.</p>
+<div class="actions">
+  ${links.openUrl ? `<a class="button" href="${escapeHtml(links.openUrl)}">Open in browser</a>` : ""}
+  <a class="button secondary" href="${escapeHtml(links.continueUrl)}">Continue here</a>
+</div>
+${links.autoUrl ? `<script>setTimeout(function(){window.location.href=${toScriptJson(links.autoUrl)};},50);</script>` : ""}`,
+  );
+}
+
+/**
+ * Desktop hand-off: the visitor scans `qrSvg` (an inline SVG of the same short
+ * link) to continue on their phone.
+ */
+export function renderDesktopHandoffPage(
+  title: string,
+  subtitle: string | null,
+  qrSvg: string,
+  continueUrl: string | null,
+): string {
+  return renderPage(
+    title,
+    `<h1>${escapeHtml(title)}</h1>
+${subtitle ? `<p>${escapeHtml(subtitle)}</p>` : ""}
+<div class="qr">${qrSvg}</div>
+<p>Scan with your phone's camera to open this on your phone.</p>
+${continueUrl ? `<div class="actions"><a class="button secondary" href="${escapeHtml(continueUrl)}">Continue on this computer</a></div>` : ""}`,
+  );
+}
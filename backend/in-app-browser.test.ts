@@ -0,0 +1,83 @@
+import { describe, expect, it } from "bun:test";
+
+import { buildEscapeLinks, detectInAppBrowser, toAndroidIntentUrl, toSafariUrl } from "./in-app-browser";
+
+const UA = {
+  tiktokIos:
+    "Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Mobile/15E148 musical_ly_34.1.0 BytedanceWebview/d8a21c6",
+  instagramAndroid:
+    "Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Version/4.0 Chrome/124.0 Mobile Safari/537.36 Instagram 330.0.0.40.92 Android",
+  facebookIos:
+    "Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Mobile/15E148 [FBAN/FBIOS;FBAV/460.0.0.37.104;]",
+  snapchat:
+    "Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Mobile/15E148 Snapchat/13.0.0.42",
+  safari:
+    "Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Mobile/15E148 Safari/604.1",
+};
+
+describe("detectInAppBrowser", () => {
+  it("recognises the social app webviews", () => {
+    expect(detectInAppBrowser(UA.tiktokIos)).toBe("tiktok");
+    expect(detectInAppBrowser(UA.instagramAndroid)).toBe("instagram");
+    expect(detectInAppBrowser(UA.facebookIos)).toBe("facebook");
+    expect(detectInAppBrowser(UA.snapchat)).toBe("snapchat");
+  });
+
+  it("leaves regular browsers alone", () => {
+    expect(detectInAppBrowser(UA.safari)).toBeNull();
+    expect(detectInAppBrowser("")).toBeNull();
+  });
+});
+
+describe("toAndroidIntentUrl", () => {
+  it("opens web links in Chrome with the page as fallback", () => {
+    expect(toAndroidIntentUrl("https://shop.example.com/a?b=1", "https://shop.example.com/a?b=1")).toBe(
+      "intent://shop.example.com/a?b=1#Intent;scheme=https;package=com.android.chrome;" +
+        "S.browser_fallback_url=https%3A%2F%2Fshop.example.com%2Fa%3Fb%3D1;end",
+    );
+  });
+
+  it("opens deep links in their app", () => {
+    expect(toAndroidIntentUrl("shopapp://item/1", null)).toBe("intent://item/1#Intent;scheme=shopapp;end");
+    expect(toAndroidIntentUrl("not a url", null)).toBeNull();
+  });
+});
+
+describe("toSafariUrl", () => {
+  it("rewrites http(s) links to the Safari scheme", () => {
+    expect(toSafariUrl("HTTPS://shop.example.com/a")).toBe("x-safari-https://shop.example.com/a");
+    expect(toSafariUrl("shop://item/1")).toBeNull();
+  });
+});
+
+describe("buildEscapeLinks", () => {
+  const web = "https://shop.example.com/a";
+
+  it("tries Safari automatically on iOS when there is no deep link", () => {
+    expect(buildEscapeLinks("iOS", web, null)).toEqual({
+      autoUrl: "x-safari-https://shop.example.com/a",
+      openUrl: "x-safari-https://shop.example.com/a",
+      continueUrl: web,
+    });
+  });
+
+  it("waits for a tap to open an iOS deep link", () => {
+    expect(buildEscapeLinks("iOS", web, "shop://item/1")).toEqual({
+      autoUrl: null,
+      openUrl: "shop://item/1",
+      continueUrl: web,
+    });
+  });
+
+  it("uses an intent to the app, or Chrome, on Android", () => {
+    const app = buildEscapeLinks("Android", web, "shopapp://item/1");
+    expect(app.autoUrl).toStartWith("intent://item/1#Intent;scheme=shopapp;");
+    expect(app.openUrl).toBe(app.autoUrl);
+
+    expect(buildEscapeLinks("Android", web, null).autoUrl).toContain("package=com.android.chrome");
+  });
+
+  it("only offers the plain link elsewhere", () => {
+    expect(buildEscapeLinks("Windows", web, null)).toEqual({ autoUrl: null, openUrl: null, continueUrl: web });
+  });
+});
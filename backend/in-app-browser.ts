@@ -0,0 +1,73 @@
+/**
+ * In-app browser detection and escape links. Webviews inside TikTok,
+ * Instagram, Facebook and Snapchat swallow app deep links, so the redirect
+ * serves an interstitial that tries to hand the visitor to the system browser.
+ */
+
+export type InAppBrowser = "tiktok" | "instagram" | "facebook" | "snapchat";
+
+const IN_APP_BROWSER_PATTERNS: [InAppBrowser, RegExp][] = [
+  ["tiktok", /musical_ly|BytedanceWebview|TikTok/i],
+  ["instagram", /Instagram/i],
+  ["facebook", /FBAN|FBAV|FB_IAB|FBIOS|FB4A/i],
+  ["snapchat", /Snapchat/i],
+];
+
+export function detectInAppBrowser(ua: string): InAppBrowser | null {
+  for (const [browser, pattern] of IN_APP_BROWSER_PATTERNS) {
+    if (pattern.test(ua)) return browser;
+  }
+  return null;
+}
+
+export const IN_APP_BROWSER_NAMES: Record<InAppBrowser, string> = {
+  tiktok: "TikTok",
+  instagram: "Instagram",
+  facebook: "Facebook",
+  snapchat: "Snapchat",
+};
+
+/**
+ * Android intent URL for any `scheme://rest` link. Web links target Chrome,
+ * falling back to the plain URL when Chrome or the app isn't installed.
+ */
+export function toAndroidIntentUrl(url: string, fallbackUrl: string | null): string | null {
+  const match = /^([a-z][a-z0-9+.-]*):\/\/(.*)$/i.exec(url);
+  if (!match) return null;
+  const [, scheme, rest] = match;
+  const isWeb = /^https?$/i.test(scheme);
+  const parts = [`scheme=${scheme}`];
+  if (isWeb) parts.push("package=com.android.chrome");
+  if (fallbackUrl) parts.push(`S.browser_fallback_url=${encodeURIComponent(fallbackUrl)}`);
+  return `intent://${rest}#Intent;${parts.join(";")};end`;
+}
+
+/** iOS 17+ opens `x-safari-https://` links in Safari, even from webviews. */
+export function toSafariUrl(url: string): string | null {
+  const match = /^(https?):\/\/(.*)$/i.exec(url);
+  if (!match) return null;
+  return `x-safari-${match[1].toLowerCase()}://${match[2]}`;
+}
+
+export type EscapeLinks = {
+  /** Tried automatically on load. */
+  autoUrl: string | null;
+  /** Behind the "Open in browser" button; a tap lets universal links fire. */
+  openUrl: string | null;
+  /** Plain link that stays in the webview. */
+  continueUrl: string;
+};
+
+export function buildEscapeLinks(os: string, webUrl: string | null, appUrl: string | null): EscapeLinks {
+  const continueUrl = webUrl ?? appUrl ?? "";
+  if (os === "Android") {
+    const intent = toAndroidIntentUrl(appUrl ?? continueUrl, webUrl);
+    return { autoUrl: intent, openUrl: intent, continueUrl };
+  }
+  if (os === "iOS") {
+    const safari = webUrl ? toSafariUrl(webUrl) : null;
+    // Custom-scheme and universal deep links need a real tap to open the app.
+    return { autoUrl: appUrl ? null : safari, openUrl: appUrl ?? safari, continueUrl };
+  }
+  return { autoUrl: null, openUrl: null, continueUrl };
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "bun:test";
+
+import { checkLink } from "./link-health";
+import { assertPublicUrl } from "./outbound-url";
+
+type Route = { status: number; location?: string } | "hang";
+
+/** Answers from a URL → response table; "hang" waits until the request is aborted. */
+function fakeFetch(routes: Record<string, Route>) {
+  const requested: string[] = [];
+  const fetchImpl = (async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = String(input);
+    requested.push(url);
+    const route = routes[url];
+    if (route === "hang") {
+      return new Promise<Response>((_, reject) => {
+        init?.signal?.addEventListener("abort", () => reject(new Error("aborted")));
+      });
+    }
+    if (!route) throw new Error(`getaddrinfo ENOTFOUND ${new URL(url).hostname}`);
+    const headers = route.location ? { location: route.location } : undefined;
+    return new Response(null, { status: route.status, headers });
+  }) as typeof fetch;
+  return { fetchImpl, requested };
+}
+
+// Names resolve to a public address; literal IPs are checked as written.
+const checkUrl = (url: string) => assertPublicUrl(url, async () => ["93.184.216.34"]);
+
+describe("checkLink", () => {
+  it("reports a 2xx page as healthy", async () => {
+    const { fetchImpl } = fakeFetch({ "https://shop.example.com/p": { status: 200 } });
+
+    const result = await checkLink("https://shop.example.com/p", { fetchImpl, checkUrl });
+
+    expect(result).toEqual({
+      url: "https://shop.example.com/p",
+      status: 200,
+      broken: false,
+      error: null,
+      redirects: [],
+      final_url: "https://shop.example.com/p",
+    });
+  });
+
+  it.each([404, 410, 500, 503])("flags %d as broken", async (status) => {
+    const { fetchImpl } = fakeFetch({ "https://shop.example.com/p": { status } });
+
+    const result = await checkLink("https://shop.example.com/p", { fetchImpl, checkUrl });
+
+    expect(result).toMatchObject({ status, broken: true, error: null });
+  });
+
+  it("does not flag 403 from bot protection as broken", async () => {
+    const { fetchImpl } = fakeFetch({ "https://shop.example.com/p": { status: 403 } });
+
+    const result = await checkLink("https://shop.example.com/p", { fetchImpl, checkUrl });
+
+    expect(result).toMatchObject({ status: 403, broken: false });
+  });
+
+  it("times out slow pages", async () => {
+    const { fetchImpl } = fakeFetch({ "https://slow.example.com/": "hang" });
+
+    const result = await checkLink("https://slow.example.com/", { fetchImpl, checkUrl, timeoutMs: 20 });
+
+    expect(result).toMatchObject({ status: null, broken: true, error: "Timed out" });
+  });
+
+  it("follows and records a redirect chain", async () => {
+    const { fetchImpl } = fakeFetch({
+      "https://bit.example.com/x": { status: 301, location: "https://shop.example.com/old" },
+      "https://shop.example.com/old": { status: 302, location: "/new" },
+      "https://shop.example.com/new": { status: 200 },
+    });
+
+    const result = await checkLink("https://bit.example.com/x", { fetchImpl, checkUrl });
+
+    expect(result).toEqual({
+      url: "https://bit.example.com/x",
+      status: 200,
+      broken: false,
+      error: null,
+      redirects: [
+        { url: "https://bit.example.com/x", status: 301 },
+        { url: "https://shop.example.com/old", status: 302 },
+      ],
+      final_url: "https://shop.example.com/new",
+    });
+  });
+
+  it("gives up on redirect loops", async () => {
+    const { fetchImpl } = fakeFetch({
+      "https://a.example.com/": { status: 302, location: "https://b.example.com/" },
+      "https://b.example.com/": { status: 302, location: "https://a.example.com/" },
+    });
+
+    const result = await checkLink("https://a.example.com/", { fetchImpl, checkUrl });
+
+    expect(result).toMatchObject({ status: null, broken: true, error: "Too many redirects" });
+  });
+
+  it("blocks a redirect hop to a private address without requesting it", async () => {
+    const { fetchImpl, requested } = fakeFetch({
+      "https://shop.example.com/p": { status: 302, location: "http://169.254.169.254/latest/meta-data" },
+    });
+
+    const result = await checkLink("https://shop.example.com/p", { fetchImpl, checkUrl });
+
+    expect(requested).toEqual(["https://shop.example.com/p"]);
+    expect(result.broken).toBe(true);
+    expect(result.error).toContain("private or reserved address");
+    expect(result.final_url).toBe("http://169.254.169.254/latest/meta-data");
+  });
+});
@@ -0,0 +1,171 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+
+import type { LinkCheckResult, LinkRedirectHop, SparkCode, SparkCodeLinkHealth } from "../types/spark-codes";
+import { assertPublicUrl, UnsafeUrlError } from "./outbound-url";
+import { isWebUrl } from "../lib/link-url";
+
+/**
+ * Destination link health. Every http(s) URL a code can send visitors to is
+ * requested with redirects followed by hand, so the whole chain is recorded
+ * and every hop goes through the private-address guard before it is fetched.
+ * `fetchImpl` is injectable so checks can run against a local stand-in server.
+ */
+
+const SPARK_CODES_TABLE = "spark_codes";
+
+const LINK_CHECK_TIMEOUT_MS = 10_000;
+const LINK_CHECK_MAX_REDIRECTS = 10;
+const LINK_CHECK_CONCURRENCY = 4;
+export const LINK_CHECK_BATCH_SIZE = 200;
+
+const LINK_CHECK_HEADERS = {
+  "User-Agent": "Mozilla/5.0 (compatible; CreatorShelf-LinkCheck/1.0)",
+  Accept: "text/html,application/xhtml+xml,*/*;q=0.8",
+};
+
+type FetchLike = typeof fetch;
+
+export type LinkCheckOptions = {
+  fetchImpl?: FetchLike;
+  /** Runs before every request in the chain and throws to block it; defaults to `assertPublicUrl`. */
+  checkUrl?: (url: string) => Promise<void>;
+  timeoutMs?: number;
+};
+
+/**
+ * Gone, missing and server errors count as broken. 401/403/429 usually mean
+ * the site is turning away automated requests, not that the page is down.
+ */
+function isBrokenStatus(status: number): boolean {
+  return status === 404 || status === 410 || status >= 500;
+}
+
+function isRedirectStatus(status: number): boolean {
+  return status === 301 || status === 302 || status === 303 || status === 307 || status === 308;
+}
+
+export async function checkLink(
+  url: string,
+  options: LinkCheckOptions = {},
+): Promise<Omit<LinkCheckResult, "source">> {
+  const fetchImpl = options.fetchImpl ?? fetch;
+  const checkUrl = options.checkUrl ?? ((hopUrl: string) => assertPublicUrl(hopUrl));
+  const redirects: LinkRedirectHop[] = [];
+  let current = url;
+
+  for (let hop = 0; hop <= LINK_CHECK_MAX_REDIRECTS; hop++) {
+    try {
+      await checkUrl(current);
+    } catch (e) {
+      if (!(e instanceof UnsafeUrlError)) throw e;
+      return { url, status: null, broken: true, error: `Blocked: ${e.message}`, redirects, final_url: current };
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), options.timeoutMs ?? LINK_CHECK_TIMEOUT_MS);
+    let res: Response;
+    try {
+      res = await fetchImpl(current, {
+        method: "GET",
+        headers: LINK_CHECK_HEADERS,
+        redirect: "manual",
+        signal: controller.signal,
+      });
+    } catch (e) {
+      const error = controller.signal.aborted ? "Timed out" : (e as Error)?.message ?? "Request failed";
+      return { url, status: null, broken: true, error, redirects, final_url: current };
+    } finally {
+      clearTimeout(timer);
+    }
+    // Only the status matters; don't download the page.
+    await res.body?.cancel().catch(() => {});
+
+    const location = res.headers.get("location");
+    if (!isRedirectStatus(res.status) || !location) {
+      return { url, status: res.status, broken: isBrokenStatus(res.status), error: null, redirects, final_url: current };
+    }
+    redirects.push({ url: current, status: res.status });
+    current = new URL(location, current).toString();
+  }
+
+  return { url, status: null, broken: true, error: "Too many redirects", redirects, final_url: current };
+}
+
+/** Every http(s) URL the redirect may serve for this code, deduped, with where it came from. */
+export function collectCheckableLinks(sparkCode: SparkCode): { source: string; url: string }[] {
+  const candidates: { source: string; url: string | null }[] = [
+    { source: "destination_url", url: sparkCode.destination_url },
+    { source: "deep_link_ios", url: sparkCode.deep_link_ios },
+    { source: "deep_link_android", url: sparkCode.deep_link_android },
+    ...(sparkCode.variants ?? []).map((v) => ({ source: `variant:${v.id}`, url: v.url })),
+    ...(sparkCode.geo_rules ?? []).map((r) => ({ source: `geo_rule:${r.id}`, url: r.url })),
+    ...(sparkCode.destination_schedule ?? []).map((e) => ({ source: `schedule:${e.id}`, url: e.url })),
+    { source: "expired_fallback_url", url: sparkCode.expired_fallback_url },
+  ];
+  const seen = new Set<string>();
+  return candidates.filter((c): c is { source: string; url: string } => {
+    if (!c.url || !isWebUrl(c.url) || seen.has(c.url)) return false;
+    seen.add(c.url);
+    return true;
+  });
+}
+
+export async function checkSparkCodeLinks(
+  sparkCode: SparkCode,
+  options: LinkCheckOptions = {},
+): Promise<SparkCodeLinkHealth> {
+  const links: LinkCheckResult[] = [];
+  for (const { source, url } of collectCheckableLinks(sparkCode)) {
+    links.push({ source, ...(await checkLink(url, options)) });
+  }
+  return { checked_at: new Date().toISOString(), broken: links.some((l) => l.broken), links };
+}
+
+export type LinkHealthRunResult = {
+  checked: number;
+  broken: number;
+  results: { spark_code_id: string; link_health: SparkCodeLinkHealth }[];
+};
+
+/**
+ * Checks active codes, least recently checked first, and stores the result
+ * on each code. Scope to one owner or one code for on-demand runs. Unscoped
+ * runs cover every creator and need the service-role client.
+ */
+export async function runLinkHealthCheck(
+  supabase: SupabaseClient,
+  options: { userId?: string; sparkCodeId?: string; limit?: number } & LinkCheckOptions = {},
+): Promise<LinkHealthRunResult> {
+  let query = supabase.from(SPARK_CODES_TABLE).select("*");
+  if (options.userId) query = query.eq("user_id", options.userId);
+  query = options.sparkCodeId ? query.eq("id", options.sparkCodeId) : query.eq("is_active", true);
+  const { data, error } = await query
+    .order("link_health->>checked_at", { ascending: true, nullsFirst: true })
+    .limit(options.limit ?? LINK_CHECK_BATCH_SIZE);
+  if (error) throw error;
+
+  const codes = (data ?? []) as SparkCode[];
+  const results: LinkHealthRunResult["results"] = [];
+
+  for (let i = 0; i < codes.length; i += LINK_CHECK_CONCURRENCY) {
+    const batch = codes.slice(i, i + LINK_CHECK_CONCURRENCY);
+    await Promise.all(
+      batch.map(async (code) => {
+        const linkHealth = await checkSparkCodeLinks(code, options);
+        const { error: updateError } = await supabase
+          .from(SPARK_CODES_TABLE)
+          .update({ link_health: linkHealth })
+          .eq("id", code.id);
+        if (updateError) {
+          console.log("[LinkHealth] failed to save result for", code.id, updateError.message);
+          return;
+        }
+        results.push({ spark_code_id: code.id, link_health: linkHealth });
+      }),
+    );
+  }
+
+  const broken = results.filter((r) => r.link_health.broken).length;
+  console.log("[LinkHealth] checked", results.length, "codes,", broken, "with broken links");
+  return { checked: results.length, broken, results };
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "bun:test";
+
+import { assertPublicUrl, isPrivateAddress } from "./outbound-url";
+
+describe("isPrivateAddress", () => {
+  it.each(["127.0.0.1", "10.1.2.3", "172.16.0.1", "192.168.1.1", "169.254.169.254", "100.64.0.1", "0.0.0.0", "::1", "fe80::1", "fd00::1", "::ffff:10.0.0.1"])(
+    "blocks %s",
+    (ip) => {
+      expect(isPrivateAddress(ip)).toBe(true);
+    },
+  );
+
+  it.each(["8.8.8.8", "172.32.0.1", "2606:4700::1111"])("allows %s", (ip) => {
+    expect(isPrivateAddress(ip)).toBe(false);
+  });
+});
+
+describe("assertPublicUrl", () => {
+  const publicDns = async () => ["93.184.216.34"];
+
+  it("accepts http(s) hosts that resolve to public addresses", async () => {
+    await expect(assertPublicUrl("https://hooks.example.com/in", publicDns)).resolves.toBeUndefined();
+  });
+
+  it.each(["http://127.0.0.1/", "http://2130706433/", "http://[::1]:8080/", "http://localhost:3000/", "http://169.254.169.254/latest/meta-data"])(
+    "rejects %s",
+    async (url) => {
+      await expect(assertPublicUrl(url, publicDns)).rejects.toThrow();
+    },
+  );
+
+  it("rejects hosts that resolve to a private address", async () => {
+    await expect(assertPublicUrl("https://internal.example.com/", async () => ["10.0.0.5"])).rejects.toThrow(
+      "private or reserved address",
+    );
+  });
+
+  it("rejects other schemes", async () => {
+    await expect(assertPublicUrl("file:///etc/passwd", publicDns)).rejects.toThrow("Only http and https");
+  });
+});
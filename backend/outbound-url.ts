@@ -0,0 +1,92 @@
+import { lookup } from "node:dns/promises";
+
+import { ipToBigInt } from "./geoip";
+
+/**
+ * Guard for URLs the backend requests on a creator's behalf (webhooks, link
+ * checks). Only http(s) to public addresses is allowed, so a saved URL can't
+ * reach loopback, the private network or the cloud metadata endpoint.
+ * Run it right before every request: the host may resolve differently later
+ * than when the URL was saved.
+ */
+
+export class UnsafeUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnsafeUrlError";
+  }
+}
+
+export type ResolveHost = (hostname: string) => Promise<string[]>;
+
+const BLOCKED_CIDRS = [
+  "0.0.0.0/8",
+  "10.0.0.0/8",
+  "100.64.0.0/10",
+  "127.0.0.0/8",
+  "169.254.0.0/16",
+  "172.16.0.0/12",
+  "192.0.0.0/24",
+  "192.168.0.0/16",
+  "198.18.0.0/15",
+  "224.0.0.0/4",
+  "240.0.0.0/4",
+  "::/96",
+  "fc00::/7",
+  "fe80::/10",
+  "ff00::/8",
+];
+
+function parseCidr(cidr: string): { start: bigint; end: bigint } {
+  const [ip, bits] = cidr.split("/");
+  const start = ipToBigInt(ip)!;
+  // IPv4 addresses sit in the IPv4-mapped block, 96 bits in.
+  const prefix = Number(bits) + (ip.includes(":") ? 0 : 96);
+  return { start, end: start + (BigInt(1) << BigInt(128 - prefix)) - BigInt(1) };
+}
+
+const BLOCKED_RANGES = BLOCKED_CIDRS.map(parseCidr);
+
+/** Loopback, private, link-local, CGNAT, multicast and reserved addresses. */
+export function isPrivateAddress(ip: string): boolean {
+  const value = ipToBigInt(ip.replace(/%.*$/, ""));
+  if (value === null) return true;
+  return BLOCKED_RANGES.some((range) => value >= range.start && value <= range.end);
+}
+
+async function resolveHost(hostname: string): Promise<string[]> {
+  const records = await lookup(hostname, { all: true });
+  return records.map((record) => record.address);
+}
+
+/** Throws `UnsafeUrlError` unless `url` is http(s) and its host only resolves to public addresses. */
+export async function assertPublicUrl(url: string, resolve: ResolveHost = resolveHost): Promise<void> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new UnsafeUrlError("Invalid URL.");
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw new UnsafeUrlError("Only http and https URLs are allowed.");
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  if (hostname === "localhost" || hostname.endsWith(".localhost")) {
+    throw new UnsafeUrlError(`${hostname} is not a public host.`);
+  }
+
+  let addresses: string[];
+  if (ipToBigInt(hostname) !== null) {
+    addresses = [hostname];
+  } else {
+    try {
+      addresses = await resolve(hostname);
+    } catch {
+      throw new UnsafeUrlError(`Could not resolve ${hostname}.`);
+    }
+  }
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new UnsafeUrlError(`${hostname} points to a private or reserved address.`);
+  }
+}
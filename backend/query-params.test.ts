@@ -0,0 +1,47 @@
+import { describe, expect, it } from "bun:test";
+
+import { applyQueryParams, expandTemplate } from "./query-params";
+
+describe("expandTemplate", () => {
+  it("fills known variables and blanks the rest", () => {
+    expect(expandTemplate("{short_code}-{country}", { short_code: "abc", country: "GB" })).toBe("abc-GB");
+    expect(expandTemplate("{country}-{missing}", { country: null })).toBe("-");
+  });
+});
+
+describe("applyQueryParams", () => {
+  const variables = { short_code: "abc", country: "GB" };
+
+  it("adds UTM parameters to the destination", () => {
+    const url = applyQueryParams(
+      "https://shop.example.com/item",
+      { utm_source: "tiktok", utm_campaign: "{short_code}" },
+      variables,
+    );
+    expect(url).toBe("https://shop.example.com/item?utm_source=tiktok&utm_campaign=abc");
+  });
+
+  it("keeps parameters already on the destination and its fragment", () => {
+    const url = applyQueryParams(
+      "https://shop.example.com/item?utm_source=ig&size=m#reviews",
+      { utm_source: "tiktok", utm_medium: "qr" },
+      variables,
+    );
+    expect(url).toBe("https://shop.example.com/item?utm_source=ig&size=m&utm_medium=qr#reviews");
+  });
+
+  it("encodes values and skips blank keys and empty expansions", () => {
+    const url = applyQueryParams(
+      "https://shop.example.com/",
+      { utm_content: "a b&c", " ": "x", ref: "{city}" },
+      variables,
+    );
+    expect(url).toBe("https://shop.example.com/?utm_content=a+b%26c");
+  });
+
+  it("leaves deep links and unparseable URLs untouched", () => {
+    expect(applyQueryParams("shop://item/1", { utm_source: "tiktok" }, variables)).toBe("shop://item/1");
+    expect(applyQueryParams("not a url", { utm_source: "tiktok" }, variables)).toBe("not a url");
+    expect(applyQueryParams("https://shop.example.com/item", null, variables)).toBe("https://shop.example.com/item");
+  });
+});
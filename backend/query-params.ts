@@ -0,0 +1,35 @@
+export type TemplateVariables = Record<string, string | null | undefined>;
+
+/** Expands `{name}` placeholders; unknown or empty variables become "". */
+export function expandTemplate(value: string, variables: TemplateVariables): string {
+  return value.replace(/\{(\w+)\}/g, (_, name: string) => variables[name] ?? "");
+}
+
+/**
+ * Merges a code's query parameters into an http(s) destination. Parameters
+ * already present on the destination are kept as-is; other schemes (app deep
+ * links) are returned untouched.
+ */
+export function applyQueryParams(
+  url: string,
+  params: Record<string, string> | null | undefined,
+  variables: TemplateVariables,
+): string {
+  const entries = Object.entries(params ?? {}).filter(([key]) => key.trim());
+  if (entries.length === 0) return url;
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") return url;
+
+  for (const [key, value] of entries) {
+    if (parsed.searchParams.has(key)) continue;
+    const expanded = expandTemplate(value, variables);
+    if (expanded) parsed.searchParams.set(key, expanded);
+  }
+  return parsed.toString();
+}
@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, setSystemTime } from "bun:test";
+
+import {
+  checkRedirectRateLimit,
+  hitRateLimit,
+  MemoryRateLimitStore,
+  RATE_LIMITS,
+  setRateLimitStore,
+} from "./rate-limit";
+
+const LINK = "api.example.com/summer-sale";
+
+beforeEach(() => {
+  setSystemTime(new Date("2026-10-19T12:00:00Z"));
+  setRateLimitStore(new MemoryRateLimitStore());
+});
+
+afterEach(() => {
+  setSystemTime();
+});
+
+async function hitTimes(times: number, hit: () => Promise<{ limited: boolean }>) {
+  let last = { limited: false };
+  for (let i = 0; i < times; i++) last = await hit();
+  return last;
+}
+
+describe("MemoryRateLimitStore", () => {
+  it("counts hits per key within the window and starts over after it", async () => {
+    const store = new MemoryRateLimitStore();
+    expect(await store.increment("a", 60_000)).toBe(1);
+    expect(await store.increment("a", 60_000)).toBe(2);
+    expect(await store.increment("b", 60_000)).toBe(1);
+
+    setSystemTime(new Date("2026-10-19T12:00:59Z"));
+    expect(await store.increment("a", 60_000)).toBe(3);
+
+    setSystemTime(new Date("2026-10-19T12:01:00Z"));
+    expect(await store.increment("a", 60_000)).toBe(1);
+  });
+});
+
+describe("hitRateLimit", () => {
+  it("flags only the first hit over the limit", async () => {
+    const rule = { limit: 2, windowMs: 60_000 };
+    const results = [];
+    for (let i = 0; i < 4; i++) results.push(await hitRateLimit("k", rule));
+    expect(results.map((r) => r.limited)).toEqual([false, false, true, true]);
+    expect(results.map((r) => r.firstLimitedHit)).toEqual([false, false, true, false]);
+  });
+
+  it("fails open when the store breaks", async () => {
+    setRateLimitStore({
+      increment: async () => {
+        throw new Error("redis down");
+      },
+    });
+    expect(await hitRateLimit("k", { limit: 0, windowMs: 60_000 })).toEqual({ limited: false, firstLimitedHit: false });
+  });
+
+  it("locks out password guesses until the window passes", async () => {
+    const attempt = () => hitRateLimit("password:code-1:visitor-a", RATE_LIMITS.passwordAttempts);
+    expect((await hitTimes(RATE_LIMITS.passwordAttempts.limit, attempt)).limited).toBe(false);
+    expect((await attempt()).limited).toBe(true);
+
+    setSystemTime(new Date(Date.now() + RATE_LIMITS.passwordAttempts.windowMs));
+    expect((await attempt()).limited).toBe(false);
+  });
+});
+
+describe("checkRedirectRateLimit", () => {
+  it("throttles one visitor re-scanning a link, not others", async () => {
+    const visitorA = () => checkRedirectRateLimit(LINK, "visitor-a");
+    expect((await hitTimes(RATE_LIMITS.perVisitor.limit, visitorA)).limited).toBe(false);
+
+    const limited = await visitorA();
+    expect(limited).toEqual({ limited: true, firstLimitedHit: true, reason: "visitor" });
+    expect((await visitorA()).firstLimitedHit).toBe(false);
+
+    expect((await checkRedirectRateLimit(LINK, "visitor-b")).limited).toBe(false);
+    expect((await checkRedirectRateLimit("api.example.com/other", "visitor-a")).limited).toBe(false);
+
+    setSystemTime(new Date(Date.now() + RATE_LIMITS.perVisitor.windowMs));
+    expect((await visitorA()).limited).toBe(false);
+  });
+
+  it("throttles all traffic to a link past the per-code limit", async () => {
+    for (let i = 0; i < RATE_LIMITS.perCode.limit; i++) {
+      expect((await checkRedirectRateLimit(LINK, `visitor-${i}`)).limited).toBe(false);
+    }
+    expect(await checkRedirectRateLimit(LINK, "visitor-new")).toEqual({
+      limited: true,
+      firstLimitedHit: true,
+      reason: "code",
+    });
+  });
+
+  it("only applies the per-code limit to visitors without an address", async () => {
+    const unknown = () => checkRedirectRateLimit(LINK, "unknown");
+    expect((await hitTimes(RATE_LIMITS.perVisitor.limit * 2, unknown)).limited).toBe(false);
+  });
+});
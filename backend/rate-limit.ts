@@ -0,0 +1,97 @@
+/**
+ * Fixed-window rate limiting for the public redirect endpoint. The store is
+ * pluggable: the in-memory default only covers a single instance, so
+ * multi-instance deployments should call `setRateLimitStore` with a shared
+ * implementation (Redis, Upstash, ...).
+ */
+
+export interface RateLimitStore {
+  /** Counts a hit for `key` and returns the total for the current window. */
+  increment(key: string, windowMs: number): Promise<number>;
+}
+
+type WindowEntry = { count: number; resetAt: number };
+
+const MEMORY_STORE_MAX_KEYS = 10_000;
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private windows = new Map<string, WindowEntry>();
+
+  async increment(key: string, windowMs: number): Promise<number> {
+    const now = Date.now();
+    const entry = this.windows.get(key);
+    if (entry && entry.resetAt > now) {
+      entry.count += 1;
+      return entry.count;
+    }
+    if (this.windows.size >= MEMORY_STORE_MAX_KEYS) this.prune(now);
+    this.windows.set(key, { count: 1, resetAt: now + windowMs });
+    return 1;
+  }
+
+  private prune(now: number): void {
+    for (const [key, entry] of this.windows) {
+      if (entry.resetAt <= now) this.windows.delete(key);
+    }
+    // Still full of live windows: drop the oldest insertions.
+    for (const key of this.windows.keys()) {
+      if (this.windows.size < MEMORY_STORE_MAX_KEYS) break;
+      this.windows.delete(key);
+    }
+  }
+}
+
+let store: RateLimitStore = new MemoryRateLimitStore();
+
+export function setRateLimitStore(next: RateLimitStore): void {
+  store = next;
+}
+
+export type RateLimitRule = { limit: number; windowMs: number };
+
+export const RATE_LIMITS = {
+  /** One visitor re-scanning the same code. */
+  perVisitor: { limit: 10, windowMs: 60_000 },
+  /** All traffic to one code; well above a viral spike from real phones. */
+  perCode: { limit: 600, windowMs: 60_000 },
+  /** Wrong guesses on a password-gated link. */
+  passwordAttempts: { limit: 5, windowMs: 5 * 60_000 },
+} satisfies Record<string, RateLimitRule>;
+
+export type RateLimitResult = {
+  limited: boolean;
+  /** True only on the first limited hit of a window, so callers can flag once. */
+  firstLimitedHit: boolean;
+};
+
+export async function hitRateLimit(key: string, rule: RateLimitRule): Promise<RateLimitResult> {
+  try {
+    const count = await store.increment(key, rule.windowMs);
+    return { limited: count > rule.limit, firstLimitedHit: count === rule.limit + 1 };
+  } catch (e) {
+    // Fail open: a broken store must not take redirects down with it.
+    console.log("[RateLimit] store error:", e instanceof Error ? e.message : e);
+    return { limited: false, firstLimitedHit: false };
+  }
+}
+
+const NO_LIMIT: RateLimitResult = { limited: false, firstLimitedHit: false };
+
+/**
+ * Applies the per-visitor and per-code limits for one redirect hit. `link`
+ * names the link as requested (e.g. host and short code). Visitors whose
+ * address is `unknown` would all share one window, so only the per-code
+ * limit applies to them.
+ */
+export async function checkRedirectRateLimit(
+  link: string,
+  ipHash: string,
+): Promise<RateLimitResult & { reason: "visitor" | "code" | null }> {
+  const [visitor, code] = await Promise.all([
+    ipHash === "unknown" ? NO_LIMIT : hitRateLimit(`visitor:${link}:${ipHash}`, RATE_LIMITS.perVisitor),
+    hitRateLimit(`code:${link}`, RATE_LIMITS.perCode),
+  ]);
+  if (code.limited) return { ...code, reason: "code" };
+  if (visitor.limited) return { ...visitor, reason: "visitor" };
+  return { ...NO_LIMIT, reason: null };
+}
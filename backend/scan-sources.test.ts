@@ -0,0 +1,28 @@
+import { describe, expect, it } from "bun:test";
+
+import { resolveScanSource } from "./scan-sources";
+
+const untagged = { src: undefined, ref: undefined, referrerHost: null, inAppBrowser: null, ownHost: "api.example.com" };
+
+describe("resolveScanSource", () => {
+  it.each([
+    ["tt", "tiktok"],
+    ["QR", "qr"],
+    ["desktop_qr", "desktop_qr"],
+    ["bio", "bio"],
+    ["podcast", "other"],
+  ] as const)("maps src=%s to %s", (src, expected) => {
+    expect(resolveScanSource({ ...untagged, src })).toBe(expected);
+  });
+
+  it("prefers the tag over the referrer", () => {
+    expect(resolveScanSource({ ...untagged, src: "bio", referrerHost: "api.example.com" })).toBe("bio");
+    expect(resolveScanSource({ ...untagged, src: "email", referrerHost: "tiktok.com" })).toBe("email");
+  });
+
+  it("falls back to the referrer host, then the in-app browser", () => {
+    expect(resolveScanSource({ ...untagged, referrerHost: "m.youtube.com" })).toBe("youtube");
+    expect(resolveScanSource({ ...untagged, referrerHost: "api.example.com", inAppBrowser: "tiktok" })).toBe("tiktok");
+    expect(resolveScanSource(untagged)).toBe("direct");
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Scan source attribution. An explicit `src`/`ref` tag on the short link wins,
+ * then the Referer host, then the in-app browser (TikTok and Instagram
+ * webviews usually strip the Referer). Anything else with no referrer is direct.
+ */
+import type { InAppBrowser } from "./in-app-browser";
+import type { ScanSource } from "../types/scan-events";
+
+const SOURCE_ALIASES: Record<string, ScanSource> = {
+  tiktok: "tiktok",
+  tt: "tiktok",
+  instagram: "instagram",
+  ig: "instagram",
+  insta: "instagram",
+  youtube: "youtube",
+  yt: "youtube",
+  email: "email",
+  mail: "email",
+  newsletter: "email",
+  direct: "direct",
+  qr: "qr",
+  desktop_qr: "desktop_qr",
+  bio: "bio",
+};
+
+const REFERRER_HOSTS: [ScanSource, RegExp][] = [
+  ["tiktok", /(^|\.)tiktok\.com$/],
+  ["instagram", /(^|\.)instagram\.com$/],
+  ["youtube", /(^|\.)(youtube\.com|youtu\.be)$/],
+  ["email", /^(mail\.google\.com|outlook\.(live|office|office365)\.com|mail\.yahoo\.com|mail\.proton\.me|(www\.)?icloud\.com)$/],
+];
+
+/** Lowercased host of a Referer header, or null when absent or unparseable. */
+export function parseReferrerHost(referer: string | undefined): string | null {
+  if (!referer) return null;
+  try {
+    const { protocol, hostname } = new URL(referer);
+    if (protocol !== "http:" && protocol !== "https:") return null;
+    return hostname.toLowerCase().replace(/^www\./, "") || null;
+  } catch {
+    return null;
+  }
+}
+
+function sourceFromTag(value: string | undefined): ScanSource | null {
+  const normalized = value?.trim().toLowerCase() ?? "";
+  if (!normalized) return null;
+  return SOURCE_ALIASES[normalized] ?? "other";
+}
+
+export function resolveScanSource(input: {
+  src: string | undefined;
+  ref: string | undefined;
+  referrerHost: string | null;
+  inAppBrowser: InAppBrowser | null;
+  ownHost: string | null;
+}): ScanSource {
+  const tagged = sourceFromTag(input.src) ?? sourceFromTag(input.ref);
+  if (tagged) return tagged;
+
+  // Same-host referrers are our own pages (password form, link-in-bio).
+  const ownHost = input.ownHost?.replace(/^www\./, "") ?? null;
+  const host = input.referrerHost && input.referrerHost !== ownHost ? input.referrerHost : null;
+  if (host) {
+    for (const [source, pattern] of REFERRER_HOSTS) {
+      if (pattern.test(host)) return source;
+    }
+    return "other";
+  }
+
+  if (input.inAppBrowser === "tiktok" || input.inAppBrowser === "instagram") return input.inAppBrowser;
+  return "direct";
+}
@@ -0,0 +1,148 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { describe, expect, it } from "bun:test";
+
+import { runStatusTransitions } from "./status-transitions";
+
+type Row = Record<string, unknown>;
+type Filter = (row: Row) => boolean;
+
+/** PostgREST operators the job uses; timestamps compare as instants, like timestamptz. */
+function matches(value: unknown, op: string, operand: string | string[]): boolean {
+  switch (op) {
+    case "is":
+      return value === null;
+    case "eq":
+      return String(value) === operand;
+    case "neq":
+      return String(value) !== operand;
+    case "in":
+      return (operand as string[]).includes(String(value));
+    default: {
+      if (value === null) return false;
+      const diff = new Date(value as string).getTime() - new Date(operand as string).getTime();
+      return op === "lte" ? diff <= 0 : diff > 0;
+    }
+  }
+}
+
+/** In-memory spark_codes and status history behind the query calls the job makes. */
+function fakeSupabase(codes: Row[]) {
+  const history: Row[] = [];
+
+  const query = (patch?: Row) => {
+    const filters: Filter[] = [];
+    const where = (column: string, op: string, operand: string | string[]) => {
+      filters.push((row) => matches(row[column], op, operand));
+      return builder;
+    };
+    const builder = {
+      select: () => builder,
+      lte: (column: string, value: string) => where(column, "lte", value),
+      in: (column: string, values: string[]) => where(column, "in", values),
+      or: (expression: string) => {
+        const alternatives = expression.split(",").map((part) => {
+          const [column, op, ...value] = part.split(".");
+          return (row: Row) => matches(row[column], op, value.join("."));
+        });
+        filters.push((row) => alternatives.some((alt) => alt(row)));
+        return builder;
+      },
+      then: (resolve: (result: { data: Row[]; error: null }) => void) => {
+        const matched = codes.filter((row) => filters.every((filter) => filter(row)));
+        if (patch) matched.forEach((row) => Object.assign(row, patch));
+        resolve({ data: matched.map((row) => ({ ...row })), error: null });
+      },
+    };
+    return builder;
+  };
+
+  const client = {
+    from: (table: string) =>
+      table === "spark_code_status_history"
+        ? {
+          insert: async (rows: Row[]) => {
+            history.push(...rows);
+            return { error: null };
+          },
+        }
+        : { select: () => query(), update: (patch: Row) => query(patch) },
+  };
+  return { supabase: client as unknown as SupabaseClient, history };
+}
+
+function code(id: string, fields: Row): Row {
+  return { id, user_id: "user_1", status: "active", is_active: true, activates_at: null, expires_at: null, ...fields };
+}
+
+const NOW = new Date("2026-10-19T12:00:00.000Z");
+
+describe("runStatusTransitions", () => {
+  it("expires codes past expires_at and records the change", async () => {
+    const codes = [
+      code("past", { expires_at: "2026-10-19T11:59:00+00:00" }),
+      code("date-only", { expires_at: "2026-10-19" }),
+      code("future", { expires_at: "2026-10-20T00:00:00+00:00" }),
+      code("open", {}),
+    ];
+    const { supabase, history } = fakeSupabase(codes);
+
+    expect(await runStatusTransitions(supabase, NOW)).toEqual({ expired: 2, activated: 0 });
+    expect(codes.map((c) => [c.id, c.status, c.is_active])).toEqual([
+      ["past", "expired", false],
+      ["date-only", "expired", false],
+      ["future", "active", true],
+      ["open", "active", true],
+    ]);
+    expect(history).toEqual([
+      expect.objectContaining({ spark_code_id: "past", from_status: "active", to_status: "expired", reason: "expired" }),
+      expect.objectContaining({ spark_code_id: "date-only", to_status: "expired", changed_at: NOW.toISOString() }),
+    ]);
+  });
+
+  it("switches off expired codes that are still live without a second history entry", async () => {
+    const codes = [code("stale", { status: "expired", is_active: true, expires_at: "2026-10-01T00:00:00+00:00" })];
+    const { supabase, history } = fakeSupabase(codes);
+
+    expect(await runStatusTransitions(supabase, NOW)).toEqual({ expired: 1, activated: 0 });
+    expect(codes[0].is_active).toBe(false);
+    expect(history).toEqual([]);
+  });
+
+  it("activates scheduled draft and sent codes once", async () => {
+    const codes = [
+      code("draft", { status: "draft", is_active: false, activates_at: "2026-10-19T09:00:00+00:00" }),
+      code("sent", { status: "sent_to_brand", is_active: false, activates_at: "2026-10-18T00:00:00+00:00" }),
+      code("later", { status: "draft", is_active: false, activates_at: "2026-10-21T00:00:00+00:00" }),
+    ];
+    const { supabase, history } = fakeSupabase(codes);
+
+    expect(await runStatusTransitions(supabase, NOW)).toEqual({ expired: 0, activated: 2 });
+    expect(codes.map((c) => [c.id, c.status, c.is_active, c.activates_at])).toEqual([
+      ["draft", "active", true, null],
+      ["sent", "active", true, null],
+      ["later", "draft", false, "2026-10-21T00:00:00+00:00"],
+    ]);
+    expect(history.map((h) => [h.spark_code_id, h.from_status, h.reason])).toEqual([
+      ["draft", "draft", "scheduled_start"],
+      ["sent", "sent_to_brand", "scheduled_start"],
+    ]);
+
+    expect(await runStatusTransitions(supabase, NOW)).toEqual({ expired: 0, activated: 0 });
+  });
+
+  it("leaves scheduled codes whose window already ended to expire", async () => {
+    const codes = [
+      code("missed", {
+        status: "draft",
+        is_active: false,
+        activates_at: "2026-10-10T00:00:00+00:00",
+        expires_at: "2026-10-15T00:00:00+00:00",
+      }),
+    ];
+    const { supabase, history } = fakeSupabase(codes);
+
+    expect(await runStatusTransitions(supabase, NOW)).toEqual({ expired: 1, activated: 0 });
+    expect(codes[0].status).toBe("expired");
+    expect(history.map((h) => [h.from_status, h.to_status])).toEqual([["draft", "expired"]]);
+  });
+});
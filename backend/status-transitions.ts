@@ -0,0 +1,103 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+
+import type { SparkCodeStatus, SparkCodeStatusChangeReason } from "../types/spark-codes";
+
+/**
+ * Scheduled status changes. Codes past `expires_at` become `expired` and stop
+ * redirecting; draft or sent codes whose `activates_at` has arrived become
+ * `active`. Every status change is written to the status history.
+ *
+ * The job touches every creator's rows, so it must run on the service-role
+ * client; owner-only RLS on `spark_codes` and the history table stays as is.
+ */
+
+const SPARK_CODES_TABLE = "spark_codes";
+const STATUS_HISTORY_TABLE = "spark_code_status_history";
+
+type DueCode = { id: string; user_id: string; status: SparkCodeStatus };
+
+async function recordStatusChanges(
+  supabase: SupabaseClient,
+  codes: DueCode[],
+  toStatus: SparkCodeStatus,
+  reason: SparkCodeStatusChangeReason,
+  changedAt: string,
+): Promise<void> {
+  const rows = codes
+    .filter((code) => code.status !== toStatus)
+    .map((code) => ({
+      spark_code_id: code.id,
+      user_id: code.user_id,
+      from_status: code.status,
+      to_status: toStatus,
+      reason,
+      changed_at: changedAt,
+    }));
+  if (rows.length === 0) return;
+  const { error } = await supabase.from(STATUS_HISTORY_TABLE).insert(rows);
+  if (error) console.log("[StatusJob] failed to write history:", error.message);
+}
+
+async function expireCodes(supabase: SupabaseClient, nowIso: string): Promise<number> {
+  const { data, error } = await supabase
+    .from(SPARK_CODES_TABLE)
+    .select("id, user_id, status")
+    .lte("expires_at", nowIso)
+    .or("status.neq.expired,is_active.eq.true");
+  if (error) throw error;
+  const due = (data ?? []) as DueCode[];
+  if (due.length === 0) return 0;
+
+  // Re-applying the expiry filter keeps the update safe if a creator extended
+  // `expires_at` between the read and the write.
+  const { data: updated, error: updateError } = await supabase
+    .from(SPARK_CODES_TABLE)
+    .update({ status: "expired", is_active: false })
+    .in("id", due.map((code) => code.id))
+    .lte("expires_at", nowIso)
+    .select("id");
+  if (updateError) throw updateError;
+
+  const updatedIds = new Set((updated ?? []).map((row: { id: string }) => row.id));
+  const expired = due.filter((code) => updatedIds.has(code.id));
+  await recordStatusChanges(supabase, expired, "expired", "expired", nowIso);
+  return expired.length;
+}
+
+async function activateScheduledCodes(supabase: SupabaseClient, nowIso: string): Promise<number> {
+  const { data, error } = await supabase
+    .from(SPARK_CODES_TABLE)
+    .select("id, user_id, status")
+    .lte("activates_at", nowIso)
+    .in("status", ["draft", "sent_to_brand"])
+    .or(`expires_at.is.null,expires_at.gt.${nowIso}`);
+  if (error) throw error;
+  const due = (data ?? []) as DueCode[];
+  if (due.length === 0) return 0;
+
+  // Clearing `activates_at` makes this one-shot, so a creator can move the
+  // code back to draft afterwards without the job flipping it again.
+  const { data: updated, error: updateError } = await supabase
+    .from(SPARK_CODES_TABLE)
+    .update({ status: "active", is_active: true, activates_at: null })
+    .in("id", due.map((code) => code.id))
+    .lte("activates_at", nowIso)
+    .select("id");
+  if (updateError) throw updateError;
+
+  const updatedIds = new Set((updated ?? []).map((row: { id: string }) => row.id));
+  const activated = due.filter((code) => updatedIds.has(code.id));
+  await recordStatusChanges(supabase, activated, "active", "scheduled_start", nowIso);
+  return activated.length;
+}
+
+export async function runStatusTransitions(
+  supabase: SupabaseClient,
+  now: Date = new Date(),
+): Promise<{ expired: number; activated: number }> {
+  const nowIso = now.toISOString();
+  const activated = await activateScheduledCodes(supabase, nowIso);
+  const expired = await expireCodes(supabase, nowIso);
+  console.log("[StatusJob] activated", activated, "codes, expired", expired);
+  return { expired, activated };
+}
@@ -0,0 +1,33 @@
+import { createClient, SupabaseClient } from "@supabase/supabase-js";
+
+function getSupabaseConfig(): { url: string; key: string } | null {
+  const url = process.env.EXPO_PUBLIC_SUPABASE_URL ?? "";
+  const key = process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY ?? "";
+  if (!url || !key) return null;
+  return { url, key };
+}
+
+/** Client that runs queries as the signed-in user so row-level security applies. */
+export function getSupabaseForUser(accessToken: string): SupabaseClient | null {
+  const config = getSupabaseConfig();
+  if (!config) return null;
+  return createClient(config.url, config.key, {
+    global: { headers: { Authorization: `Bearer ${accessToken}` } },
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
+
+/**
+ * Server-only client keyed with the service role, for work that runs without
+ * a signed-in user: short links and public pages, scan webhooks and scheduled
+ * jobs. It bypasses row-level security, so `SUPABASE_SERVICE_ROLE_KEY` must
+ * never get an `EXPO_PUBLIC_` prefix or ship in the app bundle.
+ */
+export function getSupabaseService(): SupabaseClient | null {
+  const url = process.env.EXPO_PUBLIC_SUPABASE_URL ?? "";
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY ?? "";
+  if (!url || !key) return null;
+  return createClient(url, key, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
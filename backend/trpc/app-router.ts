@@ -1,8 +1,18 @@
 import { createTRPCRouter } from "./create-context";
+import { customDomainsRouter } from "./routes/custom-domains";
 import { exampleRouter } from "./routes/example";
+import { linkHealthRouter } from "./routes/link-health";
+import { scanAnalyticsRouter } from "./routes/scan-analytics";
+import { sparkCodeAccessRouter } from "./routes/spark-code-access";
+import { webhooksRouter } from "./routes/webhooks";
 
 export const appRouter = createTRPCRouter({
+  customDomains: customDomainsRouter,
   example: exampleRouter,
+  linkHealth: linkHealthRouter,
+  scanAnalytics: scanAnalyticsRouter,
+  sparkCodeAccess: sparkCodeAccessRouter,
+  webhooks: webhooksRouter,
 });
 
 export type AppRouter = typeof appRouter;
@@ -1,10 +1,15 @@
-import { initTRPC } from "@trpc/server";
+import { initTRPC, TRPCError } from "@trpc/server";
 import { FetchCreateContextFnOptions } from "@trpc/server/adapters/fetch";
 import superjson from "superjson";
 
+import { getSupabaseForUser } from "../supabase";
+
 export const createContext = async (opts: FetchCreateContextFnOptions) => {
+  const authHeader = opts.req.headers.get("authorization") ?? "";
+  const accessToken = authHeader.startsWith("Bearer ") ? authHeader.slice(7) : null;
   return {
     req: opts.req,
+    accessToken,
   };
 };
 
@@ -16,3 +21,18 @@ const t = initTRPC.context<Context>().create({
 
 export const createTRPCRouter = t.router;
 export const publicProcedure = t.procedure;
+
+export const protectedProcedure = t.procedure.use(async ({ ctx, next }) => {
+  if (!ctx.accessToken) {
+    throw new TRPCError({ code: "UNAUTHORIZED", message: "You must be signed in to perform this action." });
+  }
+  const supabase = getSupabaseForUser(ctx.accessToken);
+  if (!supabase) {
+    throw new TRPCError({ code: "PRECONDITION_FAILED", message: "Supabase is not configured." });
+  }
+  const { data, error } = await supabase.auth.getUser(ctx.accessToken);
+  if (error || !data.user) {
+    throw new TRPCError({ code: "UNAUTHORIZED", message: "You must be signed in to perform this action." });
+  }
+  return next({ ctx: { ...ctx, supabase, userId: data.user.id } });
+});
@@ -0,0 +1,172 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+
+import { normalizeDomain, validateDomain } from "../../../lib/custom-domains";
+import type { CustomDomain } from "../../../types/custom-domains";
+import {
+  CUSTOM_DOMAINS_TABLE,
+  forgetDomainScope,
+  getDefaultHost,
+  hasVerificationRecord,
+  verificationRecordName,
+  verificationRecordValue,
+} from "../../custom-domains";
+import { getSupabaseService } from "../../supabase";
+import { createTRPCRouter, protectedProcedure } from "../create-context";
+
+/**
+ * Claims are written with the service role: clients can read their own rows
+ * but not create, verify or move them, and profiles.custom_domains is kept in
+ * sync here for the screens that list a creator's domains.
+ */
+
+const PROFILES_TABLE = "profiles";
+
+type DomainRow = { domain: string; verification_token: string; verified_at: string | null; created_at: string };
+
+const domainInput = z.object({
+  domain: z
+    .string()
+    .transform(normalizeDomain)
+    .superRefine((domain, ctx) => {
+      const problem = validateDomain(domain);
+      if (problem) ctx.addIssue({ code: "custom", message: problem });
+    }),
+});
+
+function toCustomDomain(row: DomainRow): CustomDomain {
+  return {
+    domain: row.domain,
+    verified_at: row.verified_at,
+    created_at: row.created_at,
+    txt_name: verificationRecordName(row.domain),
+    txt_value: verificationRecordValue(row.verification_token),
+  };
+}
+
+function requireService(): SupabaseClient {
+  const service = getSupabaseService();
+  if (!service) {
+    throw new TRPCError({ code: "PRECONDITION_FAILED", message: "Custom domains are not set up on this server." });
+  }
+  return service;
+}
+
+async function findOwnDomain(supabase: SupabaseClient, userId: string, domain: string): Promise<DomainRow | null> {
+  const { data, error } = await supabase
+    .from(CUSTOM_DOMAINS_TABLE)
+    .select("domain, verification_token, verified_at, created_at")
+    .eq("domain", domain)
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) throw error;
+  return data as DomainRow | null;
+}
+
+async function isVerifiedElsewhere(service: SupabaseClient, userId: string, domain: string): Promise<boolean> {
+  const { count, error } = await service
+    .from(CUSTOM_DOMAINS_TABLE)
+    .select("domain", { count: "exact", head: true })
+    .eq("domain", domain)
+    .neq("user_id", userId)
+    .not("verified_at", "is", null);
+  if (error) throw error;
+  return (count ?? 0) > 0;
+}
+
+function domainTaken(domain: string): TRPCError {
+  return new TRPCError({ code: "CONFLICT", message: `${domain} is already connected to another account.` });
+}
+
+async function syncProfileDomains(service: SupabaseClient, userId: string): Promise<void> {
+  const { data, error } = await service
+    .from(CUSTOM_DOMAINS_TABLE)
+    .select("domain")
+    .eq("user_id", userId)
+    .not("verified_at", "is", null)
+    .order("domain", { ascending: true });
+  if (error) throw error;
+  const domains = (data ?? []).map((row: { domain: string }) => row.domain);
+  const { error: updateError } = await service
+    .from(PROFILES_TABLE)
+    .update({ custom_domains: domains })
+    .eq("user_id", userId);
+  if (updateError) throw updateError;
+}
+
+export const customDomainsRouter = createTRPCRouter({
+  list: protectedProcedure.query(async ({ ctx }) => {
+    const { data, error } = await ctx.supabase
+      .from(CUSTOM_DOMAINS_TABLE)
+      .select("domain, verification_token, verified_at, created_at")
+      .eq("user_id", ctx.userId)
+      .order("created_at", { ascending: true });
+    if (error) throw error;
+    return ((data ?? []) as DomainRow[]).map(toCustomDomain);
+  }),
+
+  /** Starts a claim; the domain serves links once `verify` finds its TXT record. */
+  add: protectedProcedure.input(domainInput).mutation(async ({ ctx, input }) => {
+    if (input.domain === getDefaultHost()) {
+      throw new TRPCError({ code: "BAD_REQUEST", message: "That is the default short-link host." });
+    }
+    const service = requireService();
+    const existing = await findOwnDomain(service, ctx.userId, input.domain);
+    if (existing) return toCustomDomain(existing);
+    if (await isVerifiedElsewhere(service, ctx.userId, input.domain)) throw domainTaken(input.domain);
+
+    const { data, error } = await service
+      .from(CUSTOM_DOMAINS_TABLE)
+      .insert({ domain: input.domain, user_id: ctx.userId, verification_token: crypto.randomUUID() })
+      .select("domain, verification_token, verified_at, created_at")
+      .single();
+    if (error) throw error;
+    return toCustomDomain(data as DomainRow);
+  }),
+
+  verify: protectedProcedure.input(domainInput).mutation(async ({ ctx, input }) => {
+    const service = requireService();
+    const claim = await findOwnDomain(service, ctx.userId, input.domain);
+    if (!claim) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "Add the domain before verifying it." });
+    }
+    if (claim.verified_at) return toCustomDomain(claim);
+
+    if (!(await hasVerificationRecord(input.domain, claim.verification_token))) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: `No matching TXT record at ${verificationRecordName(input.domain)} yet. DNS changes can take a while to show up.`,
+      });
+    }
+
+    const { data, error } = await service
+      .from(CUSTOM_DOMAINS_TABLE)
+      .update({ verified_at: new Date().toISOString() })
+      .eq("domain", input.domain)
+      .eq("user_id", ctx.userId)
+      .select("domain, verification_token, verified_at, created_at")
+      .single();
+    if (error) {
+      // custom_domains_verified_domain: someone else verified it first.
+      if (error.code === "23505") throw domainTaken(input.domain);
+      throw error;
+    }
+    await syncProfileDomains(service, ctx.userId);
+    forgetDomainScope(input.domain);
+    return toCustomDomain(data as DomainRow);
+  }),
+
+  remove: protectedProcedure.input(domainInput).mutation(async ({ ctx, input }) => {
+    const service = requireService();
+    const { error } = await service
+      .from(CUSTOM_DOMAINS_TABLE)
+      .delete()
+      .eq("domain", input.domain)
+      .eq("user_id", ctx.userId);
+    if (error) throw error;
+    await syncProfileDomains(service, ctx.userId);
+    forgetDomainScope(input.domain);
+    return { ok: true };
+  }),
+});
@@ -0,0 +1,25 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+
+import { runLinkHealthCheck } from "../../link-health";
+import { createTRPCRouter, protectedProcedure } from "../create-context";
+
+/** Upper bound for an on-demand run across all of a creator's codes. */
+const ON_DEMAND_LIMIT = 50;
+
+export const linkHealthRouter = createTRPCRouter({
+  /** Checks one code, or the creator's active codes when `sparkCodeId` is omitted. */
+  check: protectedProcedure
+    .input(z.object({ sparkCodeId: z.string().optional() }))
+    .mutation(async ({ ctx, input }) => {
+      const result = await runLinkHealthCheck(ctx.supabase, {
+        userId: ctx.userId,
+        sparkCodeId: input.sparkCodeId,
+        limit: ON_DEMAND_LIMIT,
+      });
+      if (input.sparkCodeId && result.checked === 0) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Spark code not found." });
+      }
+      return result;
+    }),
+});
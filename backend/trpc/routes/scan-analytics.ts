@@ -0,0 +1,147 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+
+import type { ScanAnalytics, ScanOutcome } from "../../../types/scan-events";
+import { createTRPCRouter, protectedProcedure } from "../create-context";
+
+/**
+ * Scan counts computed in Postgres by the `scan_analytics` and `scan_totals`
+ * functions (supabase/migrations), one round-trip per request however many
+ * codes or rows are involved.
+ */
+
+const SCAN_EVENTS_TABLE = "scan_events";
+const SPARK_CODES_TABLE = "spark_codes";
+const MAX_CODES_PER_REQUEST = 200;
+
+const dateRangeInput = {
+  from: z.string().optional(),
+  to: z.string().optional(),
+};
+
+type DateRange = { from?: string; to?: string };
+
+/** What `scan_analytics` returns; the rest is derived here. */
+type AnalyticsRow = {
+  spark_code_id: string;
+  analytics: Omit<ScanAnalytics, "bot_scans" | "suspicious_traffic">;
+};
+
+/** Scan events in range; only real redirects unless another `outcome` is asked for. */
+function scanEventsQuery(
+  supabase: SupabaseClient,
+  columns: string,
+  range: DateRange,
+  options?: { count: "exact"; head: true },
+  outcome: ScanOutcome = "redirect",
+) {
+  let query = supabase.from(SCAN_EVENTS_TABLE).select(columns, options).eq("outcome", outcome);
+  if (range.from) query = query.gte("scanned_at", range.from);
+  if (range.to) query = query.lt("scanned_at", range.to);
+  return query;
+}
+
+function rangeParams(range: DateRange) {
+  return { p_from: range.from ?? null, p_to: range.to ?? null };
+}
+
+async function assertOwnsCodes(
+  supabase: SupabaseClient,
+  userId: string,
+  sparkCodeIds: string[],
+): Promise<string[]> {
+  if (sparkCodeIds.length === 0) return [];
+  const { data, error } = await supabase
+    .from(SPARK_CODES_TABLE)
+    .select("id")
+    .in("id", sparkCodeIds)
+    .eq("user_id", userId);
+  if (error) throw error;
+  return (data ?? []).map((row: { id: string }) => row.id);
+}
+
+/** Analytics for each code, keyed by id. */
+export async function computeScanAnalytics(
+  supabase: SupabaseClient,
+  sparkCodeIds: string[],
+  range: DateRange,
+): Promise<Record<string, ScanAnalytics>> {
+  if (sparkCodeIds.length === 0) return {};
+  const { data, error } = await supabase.rpc("scan_analytics", {
+    p_spark_code_ids: sparkCodeIds,
+    ...rangeParams(range),
+  });
+  if (error) throw error;
+
+  const inRange = (time: number) =>
+    (!range.from || time >= new Date(range.from).getTime()) && (!range.to || time < new Date(range.to).getTime());
+
+  const result: Record<string, ScanAnalytics> = {};
+  for (const { spark_code_id, analytics } of (data ?? []) as AnalyticsRow[]) {
+    const suspiciousAt = analytics.suspicious_traffic_at;
+    result[spark_code_id] = {
+      ...analytics,
+      bot_scans: analytics.total_scans - analytics.human_scans,
+      suspicious_traffic: suspiciousAt !== null && inRange(new Date(suspiciousAt).getTime()),
+    };
+  }
+  return result;
+}
+
+export const scanAnalyticsRouter = createTRPCRouter({
+  forCode: protectedProcedure
+    .input(z.object({ sparkCodeId: z.string(), ...dateRangeInput }))
+    .query(async ({ ctx, input }) => {
+      const owned = await assertOwnsCodes(ctx.supabase, ctx.userId, [input.sparkCodeId]);
+      if (owned.length === 0) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Spark code not found." });
+      }
+      const analytics = await computeScanAnalytics(ctx.supabase, owned, input);
+      return analytics[input.sparkCodeId];
+    }),
+
+  /** Analytics for several codes at once, keyed by id; unknown ids are left out. */
+  forCodes: protectedProcedure
+    .input(z.object({ sparkCodeIds: z.array(z.string()).max(MAX_CODES_PER_REQUEST), ...dateRangeInput }))
+    .query(async ({ ctx, input }) => {
+      const owned = await assertOwnsCodes(ctx.supabase, ctx.userId, input.sparkCodeIds);
+      return computeScanAnalytics(ctx.supabase, owned, input);
+    }),
+
+  totals: protectedProcedure
+    .input(z.object({ sparkCodeIds: z.array(z.string()).max(MAX_CODES_PER_REQUEST), ...dateRangeInput }))
+    .query(async ({ ctx, input }) => {
+      const owned = await assertOwnsCodes(ctx.supabase, ctx.userId, input.sparkCodeIds);
+      if (owned.length === 0) return [];
+
+      const { data, error } = await ctx.supabase.rpc("scan_totals", {
+        p_spark_code_ids: owned,
+        ...rangeParams(input),
+      });
+      if (error) throw error;
+
+      const countMap: Record<string, number> = {};
+      for (const row of (data ?? []) as { spark_code_id: string; total_scans: number }[]) {
+        countMap[row.spark_code_id] = Number(row.total_scans);
+      }
+      return owned.map((id) => ({ spark_code_id: id, total_scans: countMap[id] ?? 0 }));
+    }),
+
+  /** Human hits on unknown short codes under the creator's custom domains. */
+  notFoundHits: protectedProcedure
+    .input(z.object(dateRangeInput))
+    .query(async ({ ctx, input }) => {
+      const { count, error } = await scanEventsQuery(
+        ctx.supabase,
+        "id",
+        input,
+        { count: "exact", head: true },
+        "not_found",
+      )
+        .eq("user_id", ctx.userId)
+        .not("is_bot", "is", true);
+      if (error) throw error;
+      return { not_found_hits: count ?? 0 };
+    }),
+});
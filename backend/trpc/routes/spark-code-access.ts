@@ -0,0 +1,32 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+
+import { hashAccessPassword } from "../../access";
+import { createTRPCRouter, protectedProcedure } from "../create-context";
+
+const SPARK_CODES_TABLE = "spark_codes";
+
+/** Passwords are hashed here so the plaintext never reaches the database. */
+export const sparkCodeAccessRouter = createTRPCRouter({
+  setPassword: protectedProcedure
+    .input(
+      z.object({
+        sparkCodeId: z.string(),
+        password: z.string().min(4).max(128).nullable(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const passwordHash = input.password ? await hashAccessPassword(input.password) : null;
+      const { data, error } = await ctx.supabase
+        .from(SPARK_CODES_TABLE)
+        .update({ password_hash: passwordHash })
+        .eq("id", input.sparkCodeId)
+        .eq("user_id", ctx.userId)
+        .select("id");
+      if (error) throw error;
+      if (!data || data.length === 0) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Spark code not found." });
+      }
+      return { has_password: passwordHash !== null };
+    }),
+});
@@ -0,0 +1,127 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+
+import type { Webhook, WebhookDelivery } from "../../../types/webhooks";
+import { assertPublicUrl, UnsafeUrlError } from "../../outbound-url";
+import { buildWebhookPayload, deliverWebhook, generateWebhookSecret } from "../../webhooks";
+import { createTRPCRouter, protectedProcedure } from "../create-context";
+
+const WEBHOOKS_TABLE = "webhooks";
+const DELIVERIES_TABLE = "webhook_deliveries";
+const MAX_WEBHOOKS_PER_USER = 10;
+
+// Test events retry less so the button answers quickly.
+const TEST_EVENT_ATTEMPTS = 2;
+
+const webhookUrl = z
+  .string()
+  .url()
+  .refine((url) => /^https?:\/\//i.test(url), "Webhook URLs must use http or https.");
+
+export const webhooksRouter = createTRPCRouter({
+  list: protectedProcedure.query(async ({ ctx }) => {
+    const { data, error } = await ctx.supabase
+      .from(WEBHOOKS_TABLE)
+      .select("*")
+      .eq("user_id", ctx.userId)
+      .order("created_at", { ascending: true });
+    if (error) throw error;
+    return (data ?? []) as Webhook[];
+  }),
+
+  create: protectedProcedure
+    .input(z.object({ url: webhookUrl }))
+    .mutation(async ({ ctx, input }) => {
+      const { count, error: countError } = await ctx.supabase
+        .from(WEBHOOKS_TABLE)
+        .select("id", { count: "exact", head: true })
+        .eq("user_id", ctx.userId);
+      if (countError) throw countError;
+      if ((count ?? 0) >= MAX_WEBHOOKS_PER_USER) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `You can register up to ${MAX_WEBHOOKS_PER_USER} webhooks.`,
+        });
+      }
+      try {
+        await assertPublicUrl(input.url);
+      } catch (e) {
+        if (!(e instanceof UnsafeUrlError)) throw e;
+        throw new TRPCError({ code: "BAD_REQUEST", message: `Webhook URL rejected: ${e.message}` });
+      }
+      const { data, error } = await ctx.supabase
+        .from(WEBHOOKS_TABLE)
+        .insert({ user_id: ctx.userId, url: input.url, secret: generateWebhookSecret(), is_active: true })
+        .select()
+        .single();
+      if (error) throw error;
+      return data as Webhook;
+    }),
+
+  setActive: protectedProcedure
+    .input(z.object({ webhookId: z.string(), isActive: z.boolean() }))
+    .mutation(async ({ ctx, input }) => {
+      const { error } = await ctx.supabase
+        .from(WEBHOOKS_TABLE)
+        .update({ is_active: input.isActive })
+        .eq("id", input.webhookId)
+        .eq("user_id", ctx.userId);
+      if (error) throw error;
+      return { ok: true };
+    }),
+
+  remove: protectedProcedure
+    .input(z.object({ webhookId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const { error } = await ctx.supabase
+        .from(WEBHOOKS_TABLE)
+        .delete()
+        .eq("id", input.webhookId)
+        .eq("user_id", ctx.userId);
+      if (error) throw error;
+      return { ok: true };
+    }),
+
+  deliveries: protectedProcedure
+    .input(z.object({ webhookId: z.string(), limit: z.number().int().min(1).max(100).default(20) }))
+    .query(async ({ ctx, input }) => {
+      const { data, error } = await ctx.supabase
+        .from(DELIVERIES_TABLE)
+        .select("*, webhooks!inner(user_id)")
+        .eq("webhook_id", input.webhookId)
+        .eq("webhooks.user_id", ctx.userId)
+        .order("created_at", { ascending: false })
+        .limit(input.limit);
+      if (error) throw error;
+      return (data ?? []).map(({ webhooks: _owner, ...delivery }) => delivery) as WebhookDelivery[];
+    }),
+
+  sendTest: protectedProcedure
+    .input(z.object({ webhookId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const { data: webhook, error } = await ctx.supabase
+        .from(WEBHOOKS_TABLE)
+        .select("*")
+        .eq("id", input.webhookId)
+        .eq("user_id", ctx.userId)
+        .maybeSingle();
+      if (error) throw error;
+      if (!webhook) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Webhook not found." });
+      }
+      const payload = buildWebhookPayload("test", {
+        scan_event_id: null,
+        spark_code_id: "test",
+        code: "Test code",
+        short_code: "test123",
+        device_type: "Mobile",
+        os: "iOS",
+        country: "US",
+        source: "qr",
+      });
+      const delivered = await deliverWebhook(ctx.supabase, webhook as Webhook, payload, {
+        maxAttempts: TEST_EVENT_ATTEMPTS,
+      });
+      return { delivered };
+    }),
+});
@@ -0,0 +1,144 @@
+import { createHmac } from "node:crypto";
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import { afterAll, beforeEach, describe, expect, it } from "bun:test";
+
+import type { Webhook } from "../types/webhooks";
+import { buildWebhookPayload, deliverWebhook, webhookRetryDelay } from "./webhooks";
+
+type ReceivedRequest = { headers: Headers; body: string };
+
+const received: ReceivedRequest[] = [];
+let responseStatuses: number[] = [];
+
+// Local receiver; answers with the queued statuses, then 200.
+const receiver = Bun.serve({
+  port: 0,
+  hostname: "127.0.0.1",
+  async fetch(req) {
+    received.push({ headers: req.headers, body: await req.text() });
+    return new Response(null, { status: responseStatuses.shift() ?? 200 });
+  },
+});
+
+afterAll(() => {
+  receiver.stop(true);
+});
+
+beforeEach(() => {
+  received.length = 0;
+  responseStatuses = [];
+});
+
+function recordingSupabase() {
+  const rows: Record<string, unknown>[] = [];
+  const client = {
+    from: (table: string) => ({
+      insert: async (row: Record<string, unknown>) => {
+        rows.push({ table, ...row });
+        return { error: null };
+      },
+    }),
+  };
+  return { supabase: client as unknown as SupabaseClient, rows };
+}
+
+const webhook: Webhook = {
+  id: "wh_1",
+  user_id: "user_1",
+  url: `http://127.0.0.1:${receiver.port}/hooks`,
+  secret: "whsec_test",
+  is_active: true,
+  created_at: "2026-01-01T00:00:00.000Z",
+};
+
+const payload = buildWebhookPayload("scan.created", {
+  scan_event_id: "scan_1",
+  spark_code_id: "code_1",
+  code: "ABC123",
+  short_code: "abc123",
+  device_type: "Mobile",
+  os: "iOS",
+  country: "US",
+  source: "qr",
+});
+
+// The receiver lives on loopback, which the default guard refuses.
+const allowLocal = async () => {};
+
+describe("deliverWebhook", () => {
+  it("signs the timestamp and body with the webhook secret", async () => {
+    const { supabase, rows } = recordingSupabase();
+
+    const delivered = await deliverWebhook(supabase, webhook, payload, { checkUrl: allowLocal });
+
+    expect(delivered).toBe(true);
+    expect(received).toHaveLength(1);
+    const [{ headers, body }] = received;
+    expect(JSON.parse(body)).toEqual(payload);
+    const timestamp = headers.get("x-creatorshelf-timestamp")!;
+    const expected = createHmac("sha256", webhook.secret).update(`${timestamp}.${body}`).digest("hex");
+    expect(headers.get("x-creatorshelf-signature")).toBe(`sha256=${expected}`);
+    expect(rows).toEqual([
+      expect.objectContaining({
+        table: "webhook_deliveries",
+        webhook_id: "wh_1",
+        event_type: "scan.created",
+        attempt: 1,
+        status_code: 200,
+        success: true,
+        error: null,
+      }),
+    ]);
+  });
+
+  it("retries failed attempts with exponential backoff and logs each one", async () => {
+    const { supabase, rows } = recordingSupabase();
+    responseStatuses = [500, 503];
+    const delays: number[] = [];
+
+    const delivered = await deliverWebhook(supabase, webhook, payload, {
+      checkUrl: allowLocal,
+      retryDelay: (attempt) => {
+        delays.push(webhookRetryDelay(attempt));
+        return 0;
+      },
+    });
+
+    expect(delivered).toBe(true);
+    expect(received).toHaveLength(3);
+    expect(delays).toEqual([1_000, 2_000]);
+    expect(rows.map((r) => [r.attempt, r.status_code, r.success, r.error])).toEqual([
+      [1, 500, false, "HTTP 500"],
+      [2, 503, false, "HTTP 503"],
+      [3, 200, true, null],
+    ]);
+  });
+
+  it("gives up after the last attempt", async () => {
+    const { supabase, rows } = recordingSupabase();
+    responseStatuses = [500, 500, 500];
+
+    const delivered = await deliverWebhook(supabase, webhook, payload, {
+      checkUrl: allowLocal,
+      maxAttempts: 3,
+      retryDelay: () => 0,
+    });
+
+    expect(delivered).toBe(false);
+    expect(received).toHaveLength(3);
+    expect(rows.map((r) => r.success)).toEqual([false, false, false]);
+  });
+
+  it("refuses private addresses before sending", async () => {
+    const { supabase, rows } = recordingSupabase();
+
+    const delivered = await deliverWebhook(supabase, webhook, payload, { retryDelay: () => 0 });
+
+    expect(delivered).toBe(false);
+    expect(received).toHaveLength(0);
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ attempt: 1, status_code: null, success: false });
+    expect(String(rows[0].error)).toContain("private or reserved address");
+  });
+});
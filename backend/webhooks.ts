@@ -0,0 +1,176 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+
+import type { ScanWebhookPayload, Webhook, WebhookEventType } from "../types/webhooks";
+import { assertPublicUrl, UnsafeUrlError } from "./outbound-url";
+
+/**
+ * Outbound webhooks. Each request carries
+ * `X-CreatorShelf-Signature: sha256=<hex>`, an HMAC-SHA256 of
+ * `<timestamp>.<body>` keyed with the webhook secret, and the timestamp in
+ * `X-CreatorShelf-Timestamp` so receivers can reject replays.
+ *
+ * Webhook rows hold signing secrets, so scan deliveries run on the
+ * service-role client; anonymous visitors can never read the table.
+ */
+
+const WEBHOOKS_TABLE = "webhooks";
+const DELIVERIES_TABLE = "webhook_deliveries";
+
+export const WEBHOOK_MAX_ATTEMPTS = 4;
+const WEBHOOK_BASE_DELAY_MS = 1_000;
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer)).map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${toHex(crypto.getRandomValues(new Uint8Array(24)).buffer as ArrayBuffer)}`;
+}
+
+export async function signWebhookPayload(secret: string, timestamp: string, body: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(`${timestamp}.${body}`));
+  return `sha256=${toHex(signature)}`;
+}
+
+/** 1s, 2s, 4s, ... between attempts. */
+export function webhookRetryDelay(attempt: number): number {
+  return WEBHOOK_BASE_DELAY_MS * 2 ** (attempt - 1);
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+type AttemptResult = {
+  success: boolean;
+  statusCode: number | null;
+  error: string | null;
+  durationMs: number;
+  retryable: boolean;
+};
+
+export type DeliveryOptions = {
+  maxAttempts?: number;
+  /** Milliseconds to wait after failed `attempt`; defaults to `webhookRetryDelay`. */
+  retryDelay?: (attempt: number) => number;
+  /** Runs before every POST and throws to block it; defaults to `assertPublicUrl`. */
+  checkUrl?: (url: string) => Promise<void>;
+};
+
+async function attemptDelivery(
+  webhook: Webhook,
+  body: string,
+  checkUrl: (url: string) => Promise<void>,
+): Promise<AttemptResult> {
+  try {
+    await checkUrl(webhook.url);
+  } catch (e) {
+    if (!(e instanceof UnsafeUrlError)) throw e;
+    return { success: false, statusCode: null, error: e.message, durationMs: 0, retryable: false };
+  }
+
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const signature = await signWebhookPayload(webhook.secret, timestamp, body);
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT_MS);
+  const started = Date.now();
+  try {
+    const res = await fetch(webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "CreatorShelf-Webhooks/1.0",
+        "X-CreatorShelf-Signature": signature,
+        "X-CreatorShelf-Timestamp": timestamp,
+      },
+      body,
+      // A redirect could point at a private address the guard never saw.
+      redirect: "manual",
+      signal: controller.signal,
+    });
+    await res.body?.cancel().catch(() => {});
+    return {
+      success: res.ok,
+      statusCode: res.status,
+      error: res.ok ? null : `HTTP ${res.status}`,
+      durationMs: Date.now() - started,
+      retryable: true,
+    };
+  } catch (e) {
+    const message = controller.signal.aborted ? "Timed out" : e instanceof Error ? e.message : String(e);
+    return { success: false, statusCode: null, error: message, durationMs: Date.now() - started, retryable: true };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Sends `payload` until it gets a 2xx or runs out of attempts, logging every
+ * try to the delivery log. URLs that fail the address guard are logged once
+ * and not retried. Returns whether it was eventually delivered.
+ */
+export async function deliverWebhook(
+  supabase: SupabaseClient,
+  webhook: Webhook,
+  payload: ScanWebhookPayload,
+  options: DeliveryOptions = {},
+): Promise<boolean> {
+  const maxAttempts = options.maxAttempts ?? WEBHOOK_MAX_ATTEMPTS;
+  const retryDelay = options.retryDelay ?? webhookRetryDelay;
+  const checkUrl = options.checkUrl ?? ((url: string) => assertPublicUrl(url));
+  const body = JSON.stringify(payload);
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const result = await attemptDelivery(webhook, body, checkUrl);
+    const { error } = await supabase.from(DELIVERIES_TABLE).insert({
+      webhook_id: webhook.id,
+      event_type: payload.type,
+      attempt,
+      status_code: result.statusCode,
+      success: result.success,
+      error: result.error,
+      duration_ms: result.durationMs,
+    });
+    if (error) console.log("[Webhooks] failed to log delivery:", error.message);
+
+    if (result.success) return true;
+    console.log("[Webhooks] delivery failed:", webhook.id, "attempt", attempt, result.error);
+    if (!result.retryable) return false;
+    if (attempt < maxAttempts) await sleep(retryDelay(attempt));
+  }
+  return false;
+}
+
+export function buildWebhookPayload(
+  type: WebhookEventType,
+  data: ScanWebhookPayload["data"],
+): ScanWebhookPayload {
+  return { id: crypto.randomUUID(), type, created_at: new Date().toISOString(), data };
+}
+
+/** Fans a scan out to every active webhook of the code's owner. */
+export async function dispatchScanWebhooks(
+  supabase: SupabaseClient,
+  userId: string,
+  data: ScanWebhookPayload["data"],
+): Promise<void> {
+  const { data: webhooks, error } = await supabase
+    .from(WEBHOOKS_TABLE)
+    .select("*")
+    .eq("user_id", userId)
+    .eq("is_active", true);
+  if (error) {
+    console.log("[Webhooks] failed to load webhooks:", error.message);
+    return;
+  }
+  if (!webhooks || webhooks.length === 0) return;
+
+  const payload = buildWebhookPayload("scan.created", data);
+  await Promise.all((webhooks as Webhook[]).map((webhook) => deliverWebhook(supabase, webhook, payload)));
+}
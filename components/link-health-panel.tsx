@@ -0,0 +1,203 @@
+import React from 'react';
+import { ActivityIndicator, Pressable, StyleSheet, Text, View } from 'react-native';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { AlertCircle, CheckCircle2, HeartPulse, RefreshCw } from 'lucide-react-native';
+import Colors from '@/constants/colors';
+import { checkLinkHealth } from '@/features/spark-codes/spark-codes-api';
+import { toHumanMessage } from '@/lib/error-message';
+import { LinkCheckResult, SparkCodeLinkHealth } from '@/types/spark-codes';
+
+function formatSource(source: string): string {
+  const [kind] = source.split(':');
+  switch (kind) {
+    case 'destination_url':
+      return 'Destination';
+    case 'deep_link_ios':
+      return 'iOS link';
+    case 'deep_link_android':
+      return 'Android link';
+    case 'variant':
+      return 'Variant';
+    case 'geo_rule':
+      return 'Geo rule';
+    case 'schedule':
+      return 'Scheduled';
+    case 'expired_fallback_url':
+      return 'Expired fallback';
+    default:
+      return source;
+  }
+}
+
+function LinkRow({ link }: { link: LinkCheckResult }) {
+  return (
+    <View style={styles.linkRow}>
+      {link.broken ? (
+        <AlertCircle size={14} color={Colors.danger} />
+      ) : (
+        <CheckCircle2 size={14} color={Colors.success} />
+      )}
+      <View style={styles.linkInfo}>
+        <Text style={styles.linkTitle} numberOfLines={1}>
+          {formatSource(link.source)} · {link.status ?? link.error ?? 'No response'}
+        </Text>
+        <Text style={styles.linkUrl} numberOfLines={1}>{link.url}</Text>
+        {link.redirects.map((hop, i) => (
+          <Text key={`${hop.url}-${i}`} style={styles.hopText} numberOfLines={1}>
+            {hop.status} → {link.redirects[i + 1]?.url ?? link.final_url}
+          </Text>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+export default function LinkHealthPanel({
+  sparkCodeId,
+  linkHealth,
+}: {
+  sparkCodeId: string;
+  linkHealth: SparkCodeLinkHealth | null;
+}) {
+  const queryClient = useQueryClient();
+
+  const checkMutation = useMutation({
+    mutationFn: () => checkLinkHealth(sparkCodeId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['spark-code', sparkCodeId] });
+      queryClient.invalidateQueries({ queryKey: ['spark-codes', 'list'] });
+    },
+  });
+
+  const broken = linkHealth?.links.filter((l) => l.broken) ?? [];
+
+  return (
+    <View style={[styles.section, broken.length > 0 && styles.sectionBroken]}>
+      <View style={styles.sectionHeader}>
+        <HeartPulse size={16} color={broken.length > 0 ? Colors.danger : Colors.primary} />
+        <Text style={styles.sectionTitle}>Link Health</Text>
+        <Pressable
+          style={styles.checkButton}
+          onPress={() => checkMutation.mutate()}
+          disabled={checkMutation.isPending}
+          testID="check-link-health-btn"
+        >
+          {checkMutation.isPending ? (
+            <ActivityIndicator size="small" color={Colors.primary} />
+          ) : (
+            <RefreshCw size={13} color={Colors.primary} />
+          )}
+          <Text style={styles.checkText}>Check now</Text>
+        </Pressable>
+      </View>
+
+      {!linkHealth ? (
+        <Text style={styles.hintText}>Not checked yet.</Text>
+      ) : (
+        <>
+          <Text style={[styles.summaryText, broken.length > 0 && styles.summaryTextBroken]}>
+            {broken.length > 0
+              ? `${broken.length} broken ${broken.length === 1 ? 'link' : 'links'}. Visitors may land on a removed page.`
+              : linkHealth.links.length > 0
+                ? 'All links are reachable.'
+                : 'No web links to check.'}
+          </Text>
+          {linkHealth.links.map((link) => (
+            <LinkRow key={link.source} link={link} />
+          ))}
+          <Text style={styles.hintText}>
+            Checked{' '}
+            {new Date(linkHealth.checked_at).toLocaleString(undefined, {
+              month: 'short',
+              day: 'numeric',
+              hour: 'numeric',
+              minute: '2-digit',
+            })}
+          </Text>
+        </>
+      )}
+      {checkMutation.isError ? (
+        <Text style={styles.errorText}>{toHumanMessage(checkMutation.error)}</Text>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    backgroundColor: Colors.surface,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: Colors.cardBorder,
+    padding: 14,
+    marginBottom: 12,
+  },
+  sectionBroken: {
+    borderColor: 'rgba(220, 38, 38, 0.45)',
+  },
+  sectionHeader: {
+    flexDirection: 'row' as const,
+    alignItems: 'center' as const,
+    gap: 8,
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600' as const,
+    color: Colors.text,
+  },
+  checkButton: {
+    flexDirection: 'row' as const,
+    alignItems: 'center' as const,
+    gap: 6,
+    paddingVertical: 4,
+  },
+  checkText: {
+    fontSize: 13,
+    fontWeight: '500' as const,
+    color: Colors.primary,
+  },
+  summaryText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginBottom: 4,
+  },
+  summaryTextBroken: {
+    color: Colors.dangerLight,
+  },
+  linkRow: {
+    flexDirection: 'row' as const,
+    alignItems: 'flex-start' as const,
+    gap: 8,
+    paddingVertical: 6,
+  },
+  linkInfo: {
+    flex: 1,
+  },
+  linkTitle: {
+    fontSize: 13,
+    fontWeight: '500' as const,
+    color: Colors.text,
+  },
+  linkUrl: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 1,
+  },
+  hopText: {
+    fontSize: 11,
+    color: Colors.textMuted,
+    marginTop: 1,
+  },
+  hintText: {
+    fontSize: 12,
+    color: Colors.textMuted,
+    marginTop: 4,
+  },
+  errorText: {
+    fontSize: 13,
+    color: Colors.danger,
+    marginTop: 6,
+  },
+});
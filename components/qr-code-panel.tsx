@@ -0,0 +1,357 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Platform, Pressable, StyleSheet, Switch, Text, View } from 'react-native';
+import Svg, { Image as SvgImage, Path, Rect } from 'react-native-svg';
+import * as ImagePicker from 'expo-image-picker';
+import { Download, ImagePlus, QrCode, X } from 'lucide-react-native';
+import Colors from '@/constants/colors';
+import {
+  encodeQrCode,
+  getQrLogoBox,
+  qrCodeToPath,
+  qrCodeToSvgString,
+  QrErrorCorrectionLevel,
+} from '@/lib/qr-code';
+import { shareFile } from '@/lib/share-file';
+import { toHumanMessage } from '@/lib/error-message';
+
+const QR_MARGIN = 4;
+const QR_PREVIEW_SIZE = 200;
+const QR_EXPORT_SIZE = 1024;
+const EC_LEVELS: QrErrorCorrectionLevel[] = ['L', 'M', 'Q', 'H'];
+const FOREGROUND_COLORS = ['#000000', '#0F766E', '#1E3A8A', '#7C2D12', '#6D28D9'];
+const BACKGROUND_COLORS = ['#FFFFFF', '#F5F5F4', '#FEF3C7', '#E0F2FE'];
+
+/** Appends `src=qr` so scans that arrive through the printed code are attributed. */
+export function withQrSource(link: string): string {
+  return `${link}${link.includes('?') ? '&' : '?'}src=qr`;
+}
+
+function renderSvgToPngOnWeb(svg: string, size: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const img = new window.Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = size;
+      canvas.height = size;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Canvas is not available.'));
+        return;
+      }
+      ctx.imageSmoothingEnabled = false;
+      ctx.drawImage(img, 0, 0, size, size);
+      resolve(canvas.toDataURL('image/png').split(',')[1] ?? '');
+    };
+    img.onerror = () => reject(new Error('Could not render QR code.'));
+    img.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  });
+}
+
+export default function QrCodePanel({
+  link,
+  fileBaseName,
+}: {
+  link: string;
+  fileBaseName: string;
+}) {
+  const svgRef = useRef<any>(null);
+  const [level, setLevel] = useState<QrErrorCorrectionLevel>('M');
+  const [foreground, setForeground] = useState<string>(FOREGROUND_COLORS[0]);
+  const [background, setBackground] = useState<string>(BACKGROUND_COLORS[0]);
+  const [logoUri, setLogoUri] = useState<string | null>(null);
+  const [tagAsQr, setTagAsQr] = useState<boolean>(true);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  // A center logo hides modules, so it needs the higher recovery levels.
+  const effectiveLevel: QrErrorCorrectionLevel =
+    logoUri && (level === 'L' || level === 'M') ? 'H' : level;
+  const encodedLink = tagAsQr ? withQrSource(link) : link;
+
+  const qr = useMemo(() => encodeQrCode(encodedLink, effectiveLevel), [encodedLink, effectiveLevel]);
+  const path = useMemo(() => qrCodeToPath(qr, QR_MARGIN), [qr]);
+  const dimension = qr.size + QR_MARGIN * 2;
+  const logoBox = getQrLogoBox(qr, QR_MARGIN);
+
+  const svgString = () =>
+    qrCodeToSvgString(qr, { foreground, background, margin: QR_MARGIN, logoUri });
+
+  const pickLogo = async () => {
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ['images'],
+      allowsEditing: true,
+      aspect: [1, 1],
+      quality: 0.7,
+      base64: true,
+    });
+    if (result.canceled || !result.assets[0]?.base64) return;
+    const asset = result.assets[0];
+    setLogoUri(`data:${asset.mimeType ?? 'image/png'};base64,${asset.base64}`);
+  };
+
+  const exportSvg = async () => {
+    setExportError(null);
+    try {
+      await shareFile({
+        fileName: `${fileBaseName}-qr.svg`,
+        mimeType: 'image/svg+xml',
+        contents: svgString(),
+      });
+    } catch (e) {
+      console.log('[QrCode] svg export failed:', e);
+      setExportError(toHumanMessage(e));
+    }
+  };
+
+  const exportPng = async () => {
+    setExportError(null);
+    try {
+      const base64 = Platform.OS === 'web'
+        ? await renderSvgToPngOnWeb(svgString(), QR_EXPORT_SIZE)
+        : await new Promise<string>((resolve, reject) => {
+          if (!svgRef.current) {
+            reject(new Error('QR code is not ready yet.'));
+            return;
+          }
+          svgRef.current.toDataURL(resolve, { width: QR_EXPORT_SIZE, height: QR_EXPORT_SIZE });
+        });
+      await shareFile({
+        fileName: `${fileBaseName}-qr.png`,
+        mimeType: 'image/png',
+        contents: base64,
+        encoding: 'base64',
+      });
+    } catch (e) {
+      console.log('[QrCode] png export failed:', e);
+      setExportError(toHumanMessage(e));
+    }
+  };
+
+  return (
+    <View style={styles.section}>
+      <View style={styles.sectionHeader}>
+        <QrCode size={16} color={Colors.primary} />
+        <Text style={styles.sectionTitle}>QR Code</Text>
+      </View>
+
+      <View style={styles.previewWrap}>
+        <Svg
+          ref={svgRef}
+          width={QR_PREVIEW_SIZE}
+          height={QR_PREVIEW_SIZE}
+          viewBox={`0 0 ${dimension} ${dimension}`}
+        >
+          <Rect x={0} y={0} width={dimension} height={dimension} fill={background} />
+          <Path d={path} fill={foreground} />
+          {logoUri ? (
+            <>
+              <Rect
+                x={logoBox.x - logoBox.padding}
+                y={logoBox.y - logoBox.padding}
+                width={logoBox.size + logoBox.padding * 2}
+                height={logoBox.size + logoBox.padding * 2}
+                fill={background}
+              />
+              <SvgImage
+                href={{ uri: logoUri }}
+                x={logoBox.x}
+                y={logoBox.y}
+                width={logoBox.size}
+                height={logoBox.size}
+                preserveAspectRatio="xMidYMid meet"
+              />
+            </>
+          ) : null}
+        </Svg>
+      </View>
+
+      <Text style={styles.label}>Error correction</Text>
+      <View style={styles.chipRow}>
+        {EC_LEVELS.map((l) => (
+          <Pressable
+            key={l}
+            style={[styles.chip, effectiveLevel === l && styles.chipActive]}
+            onPress={() => setLevel(l)}
+          >
+            <Text style={[styles.chipText, effectiveLevel === l && styles.chipTextActive]}>{l}</Text>
+          </Pressable>
+        ))}
+      </View>
+      {logoUri && effectiveLevel !== level ? (
+        <Text style={styles.hintText}>Level H is used while a logo is set.</Text>
+      ) : null}
+
+      <Text style={styles.label}>Foreground</Text>
+      <View style={styles.chipRow}>
+        {FOREGROUND_COLORS.map((color) => (
+          <Pressable
+            key={color}
+            style={[styles.swatch, { backgroundColor: color }, foreground === color && styles.swatchActive]}
+            onPress={() => setForeground(color)}
+          />
+        ))}
+      </View>
+
+      <Text style={styles.label}>Background</Text>
+      <View style={styles.chipRow}>
+        {BACKGROUND_COLORS.map((color) => (
+          <Pressable
+            key={color}
+            style={[styles.swatch, { backgroundColor: color }, background === color && styles.swatchActive]}
+            onPress={() => setBackground(color)}
+          />
+        ))}
+      </View>
+
+      <View style={styles.chipRow}>
+        <Pressable style={styles.actionButton} onPress={pickLogo}>
+          <ImagePlus size={14} color={Colors.primary} />
+          <Text style={styles.actionText}>{logoUri ? 'Change logo' : 'Add center logo'}</Text>
+        </Pressable>
+        {logoUri ? (
+          <Pressable style={styles.actionButton} onPress={() => setLogoUri(null)}>
+            <X size={14} color={Colors.textMuted} />
+            <Text style={styles.actionTextMuted}>Remove</Text>
+          </Pressable>
+        ) : null}
+      </View>
+
+      <View style={styles.switchRow}>
+        <Text style={styles.label}>Tag scans as QR (?src=qr)</Text>
+        <Switch
+          value={tagAsQr}
+          onValueChange={setTagAsQr}
+          trackColor={{ false: Colors.surfaceLight, true: Colors.primary }}
+          thumbColor={Colors.white}
+        />
+      </View>
+
+      <View style={styles.chipRow}>
+        <Pressable style={styles.exportButton} onPress={exportSvg} testID="qr-export-svg">
+          <Download size={14} color={Colors.white} />
+          <Text style={styles.exportText}>SVG</Text>
+        </Pressable>
+        <Pressable style={styles.exportButton} onPress={exportPng} testID="qr-export-png">
+          <Download size={14} color={Colors.white} />
+          <Text style={styles.exportText}>PNG</Text>
+        </Pressable>
+      </View>
+
+      {exportError ? <Text style={styles.errorText}>{exportError}</Text> : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    backgroundColor: Colors.surface,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: Colors.cardBorder,
+    padding: 14,
+    marginBottom: 12,
+  },
+  sectionHeader: {
+    flexDirection: 'row' as const,
+    alignItems: 'center' as const,
+    gap: 8,
+    marginBottom: 14,
+  },
+  sectionTitle: {
+    fontSize: 15,
+    fontWeight: '600' as const,
+    color: Colors.text,
+  },
+  previewWrap: {
+    alignItems: 'center' as const,
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '500' as const,
+    color: Colors.textSecondary,
+    marginBottom: 6,
+    marginTop: 10,
+  },
+  hintText: {
+    fontSize: 12,
+    color: Colors.textMuted,
+    marginTop: 4,
+  },
+  chipRow: {
+    flexDirection: 'row' as const,
+    flexWrap: 'wrap' as const,
+    alignItems: 'center' as const,
+    gap: 8,
+    marginTop: 4,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: Colors.inputBorder,
+    borderRadius: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    backgroundColor: Colors.inputBg,
+  },
+  chipActive: {
+    borderColor: Colors.primary,
+    backgroundColor: 'rgba(13, 148, 136, 0.15)',
+  },
+  chipText: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
+  chipTextActive: {
+    color: Colors.primary,
+    fontWeight: '500' as const,
+  },
+  swatch: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    borderWidth: 2,
+    borderColor: Colors.inputBorder,
+  },
+  swatchActive: {
+    borderColor: Colors.primaryLight,
+  },
+  actionButton: {
+    flexDirection: 'row' as const,
+    alignItems: 'center' as const,
+    gap: 6,
+    paddingVertical: 8,
+  },
+  actionText: {
+    fontSize: 13,
+    fontWeight: '500' as const,
+    color: Colors.primary,
+  },
+  actionTextMuted: {
+    fontSize: 13,
+    color: Colors.textMuted,
+  },
+  switchRow: {
+    flexDirection: 'row' as const,
+    justifyContent: 'space-between' as const,
+    alignItems: 'center' as const,
+    marginTop: 4,
+  },
+  exportButton: {
+    flexDirection: 'row' as const,
+    alignItems: 'center' as const,
+    gap: 6,
+    backgroundColor: Colors.primary,
+    borderRadius: 10,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  exportText: {
+    color: Colors.white,
+    fontSize: 13,
+    fontWeight: '600' as const,
+  },
+  errorText: {
+    fontSize: 13,
+    color: Colors.danger,
+    marginTop: 8,
+  },
+});
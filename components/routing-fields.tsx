@@ -0,0 +1,167 @@
+import React from 'react';
+import { Pressable, StyleSheet, Switch, Text, TextInput, View } from 'react-native';
+import { Plus, X } from 'lucide-react-native';
+import Colors from '@/constants/colors';
+import { GeoRuleDraft, RoutingDrafts, ScheduleDraft, VariantDraft, variantLetters } from '@/lib/spark-routing';
+
+type Props = {
+  value: RoutingDrafts;
+  onChange: (next: RoutingDrafts) => void;
+};
+
+function updateAt<T>(list: T[], index: number, patch: Partial<T>): T[] {
+  return list.map((item, i) => (i === index ? { ...item, ...patch } : item));
+}
+
+/** Scheduled destinations, split test variants and geo rules of a code. */
+export default function RoutingFields({ value, onChange }: Props) {
+  const { schedule, variants, stickyVariants, geoRules } = value;
+  const letters = variantLetters(variants);
+
+  const setSchedule = (next: ScheduleDraft[]) => onChange({ ...value, schedule: next });
+  const setVariants = (next: VariantDraft[]) => onChange({ ...value, variants: next });
+  const setGeoRules = (next: GeoRuleDraft[]) => onChange({ ...value, geoRules: next });
+
+  return (
+    <>
+      <Text style={styles.label}>Scheduled destinations (optional)</Text>
+      <Text style={styles.hintText}>Replaces the destination URL between the start and end times. Leave a time blank to keep it open-ended.</Text>
+      {schedule.map((e, i) => (
+        <View key={i} style={styles.scheduleEntry}>
+          <View style={styles.variantRow}>
+            <TextInput style={[styles.input, styles.variantUrlInput]} value={e.url} onChangeText={(text) => setSchedule(updateAt(schedule, i, { url: text }))} placeholder="https://..." placeholderTextColor={Colors.textMuted} autoCapitalize="none" keyboardType="url" />
+            <Pressable style={styles.variantRemove} onPress={() => setSchedule(schedule.filter((_, j) => j !== i))} hitSlop={8}>
+              <X size={16} color={Colors.textMuted} />
+            </Pressable>
+          </View>
+          <View style={styles.variantRow}>
+            <TextInput style={[styles.input, styles.variantUrlInput]} value={e.startsAt} onChangeText={(text) => setSchedule(updateAt(schedule, i, { startsAt: text }))} placeholder="From YYYY-MM-DD HH:mm" placeholderTextColor={Colors.textMuted} />
+            <TextInput style={[styles.input, styles.variantUrlInput]} value={e.endsAt} onChangeText={(text) => setSchedule(updateAt(schedule, i, { endsAt: text }))} placeholder="Until YYYY-MM-DD HH:mm" placeholderTextColor={Colors.textMuted} />
+          </View>
+        </View>
+      ))}
+      <Pressable style={styles.addVariantButton} onPress={() => setSchedule([...schedule, { url: '', startsAt: '', endsAt: '' }])} testID="add-schedule-entry-btn">
+        <Plus size={14} color={Colors.primary} />
+        <Text style={styles.addVariantText}>Add scheduled destination</Text>
+      </Pressable>
+
+      <Text style={styles.label}>Split test variants (optional)</Text>
+      {variants.map((v, i) => (
+        <View key={i} style={styles.variantRow}>
+          <Text style={styles.variantLetter}>{letters[i]}</Text>
+          <TextInput style={[styles.input, styles.variantUrlInput]} value={v.url} onChangeText={(text) => setVariants(updateAt(variants, i, { url: text }))} placeholder="https://..." placeholderTextColor={Colors.textMuted} autoCapitalize="none" keyboardType="url" />
+          <TextInput style={[styles.input, styles.variantWeightInput]} value={v.weight} onChangeText={(text) => setVariants(updateAt(variants, i, { weight: text.replace(/[^0-9]/g, '') }))} placeholder="50" placeholderTextColor={Colors.textMuted} keyboardType="number-pad" />
+          <Pressable style={styles.variantRemove} onPress={() => setVariants(variants.filter((_, j) => j !== i))} hitSlop={8}>
+            <X size={16} color={Colors.textMuted} />
+          </Pressable>
+        </View>
+      ))}
+      <Pressable style={styles.addVariantButton} onPress={() => setVariants([...variants, { url: '', weight: '50' }])} testID="add-variant-btn">
+        <Plus size={14} color={Colors.primary} />
+        <Text style={styles.addVariantText}>Add variant</Text>
+      </Pressable>
+      {variants.length > 0 && (
+        <View style={styles.switchRow}>
+          <Text style={styles.label}>Same variant per visitor</Text>
+          <Switch
+            value={stickyVariants}
+            onValueChange={(next) => onChange({ ...value, stickyVariants: next })}
+            trackColor={{ false: Colors.surfaceLight, true: Colors.primary }}
+            thumbColor={Colors.white}
+          />
+        </View>
+      )}
+
+      <Text style={styles.label}>Geo routing rules (optional)</Text>
+      <Text style={styles.hintText}>Checked top to bottom. Use country codes like GB, US or EU; leave blank for a catch-all.</Text>
+      {geoRules.map((r, i) => (
+        <View key={i} style={styles.variantRow}>
+          <TextInput style={[styles.input, styles.ruleCountriesInput]} value={r.countries} onChangeText={(text) => setGeoRules(updateAt(geoRules, i, { countries: text }))} placeholder="GB, IE" placeholderTextColor={Colors.textMuted} autoCapitalize="characters" />
+          <TextInput style={[styles.input, styles.variantUrlInput]} value={r.url} onChangeText={(text) => setGeoRules(updateAt(geoRules, i, { url: text }))} placeholder="https://amazon.co.uk/..." placeholderTextColor={Colors.textMuted} autoCapitalize="none" keyboardType="url" />
+          <Pressable style={styles.variantRemove} onPress={() => setGeoRules(geoRules.filter((_, j) => j !== i))} hitSlop={8}>
+            <X size={16} color={Colors.textMuted} />
+          </Pressable>
+        </View>
+      ))}
+      <Pressable style={styles.addVariantButton} onPress={() => setGeoRules([...geoRules, { countries: '', url: '' }])} testID="add-geo-rule-btn">
+        <Plus size={14} color={Colors.primary} />
+        <Text style={styles.addVariantText}>Add rule</Text>
+      </Pressable>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  label: {
+    fontSize: 13,
+    fontWeight: '500' as const,
+    color: Colors.textSecondary,
+    marginBottom: 4,
+    marginTop: 10,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: Colors.inputBorder,
+    borderRadius: 10,
+    backgroundColor: Colors.inputBg,
+    paddingHorizontal: 14,
+    paddingVertical: 11,
+    fontSize: 15,
+    color: Colors.text,
+  },
+  switchRow: {
+    flexDirection: 'row' as const,
+    justifyContent: 'space-between' as const,
+    alignItems: 'center' as const,
+    marginTop: 10,
+    marginBottom: 4,
+  },
+  variantRow: {
+    flexDirection: 'row' as const,
+    alignItems: 'center' as const,
+    gap: 8,
+    marginBottom: 8,
+  },
+  variantLetter: {
+    width: 16,
+    fontSize: 13,
+    fontWeight: '600' as const,
+    color: Colors.primary,
+  },
+  variantUrlInput: {
+    flex: 1,
+  },
+  variantWeightInput: {
+    width: 64,
+    textAlign: 'center' as const,
+  },
+  scheduleEntry: {
+    borderLeftWidth: 2,
+    borderLeftColor: Colors.inputBorder,
+    paddingLeft: 8,
+    marginBottom: 4,
+  },
+  ruleCountriesInput: {
+    width: 96,
+  },
+  hintText: {
+    fontSize: 12,
+    color: Colors.textMuted,
+    marginBottom: 8,
+  },
+  variantRemove: {
+    padding: 4,
+  },
+  addVariantButton: {
+    flexDirection: 'row' as const,
+    alignItems: 'center' as const,
+    gap: 6,
+    alignSelf: 'flex-start' as const,
+    paddingVertical: 6,
+  },
+  addVariantText: {
+    fontSize: 13,
+    fontWeight: '500' as const,
+    color: Colors.primary,
+  },
+});
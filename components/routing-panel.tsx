@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { ActivityIndicator, Pressable, StyleSheet, Text, View } from 'react-native';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { GitBranch, Pencil } from 'lucide-react-native';
+import Colors from '@/constants/colors';
+import RoutingFields from '@/components/routing-fields';
+import { updateSparkCode } from '@/features/spark-codes/spark-codes-api';
+import { toHumanMessage } from '@/lib/error-message';
+import { RoutingDrafts, toRouting, toRoutingDrafts, validateRoutingDrafts } from '@/lib/spark-routing';
+import { SparkCode } from '@/types/spark-codes';
+
+function describeRouting(sparkCode: SparkCode): string {
+  const parts = [
+    sparkCode.destination_schedule?.length ? `${sparkCode.destination_schedule.length} scheduled` : null,
+    sparkCode.variants?.length ? `${sparkCode.variants.length} variants` : null,
+    sparkCode.geo_rules?.length ? `${sparkCode.geo_rules.length} geo rules` : null,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : 'Every visitor goes to the destination URL.';
+}
+
+/** Edits the scheduled destinations, split test and geo rules of a saved code. */
+export default function RoutingPanel({ sparkCode }: { sparkCode: SparkCode }) {
+  const queryClient = useQueryClient();
+  const [drafts, setDrafts] = useState<RoutingDrafts | null>(null);
+
+  const saveMutation = useMutation({
+    mutationFn: (next: RoutingDrafts) => updateSparkCode(sparkCode.id, toRouting(next)),
+    onSuccess: (updated) => {
+      queryClient.setQueryData(['spark-code', sparkCode.id], updated);
+      queryClient.invalidateQueries({ queryKey: ['spark-codes', 'list'] });
+      setDrafts(null);
+    },
+  });
+
+  const draftError = drafts ? validateRoutingDrafts(drafts) : null;
+  const canSave = !!drafts && !draftError && !saveMutation.isPending;
+
+  const openEditor = () => {
+    saveMutation.reset();
+    setDrafts(toRoutingDrafts(sparkCode));
+  };
+
+  return (
+    <View style={styles.section}>
+      <View style={styles.sectionHeader}>
+        <GitBranch size={16} color={Colors.primary} />
+        <Text style={styles.sectionTitle}>Routing</Text>
+        {!drafts ? (
+          <Pressable style={styles.editButton} onPress={openEditor} testID="edit-routing-btn">
+            <Pencil size={13} color={Colors.primary} />
+            <Text style={styles.editText}>Edit</Text>
+          </Pressable>
+        ) : null}
+      </View>
+
+      {drafts ? (
+        <View>
+          <RoutingFields value={drafts} onChange={setDrafts} />
+          {draftError ? <Text style={styles.errorText}>{draftError}</Text> : null}
+          <View style={styles.formActions}>
+            <Pressable onPress={() => setDrafts(null)}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </Pressable>
+            <Pressable
+              style={[styles.submitButton, !canSave && styles.submitButtonDisabled]}
+              onPress={() => saveMutation.mutate(drafts)}
+              disabled={!canSave}
+              testID="save-routing-btn"
+            >
+              {saveMutation.isPending ? (
+                <ActivityIndicator size="small" color={Colors.white} />
+              ) : (
+                <Text style={styles.submitText}>Save routing</Text>
+              )}
+            </Pressable>
+          </View>
+          {saveMutation.isError ? (
+            <Text style={styles.errorText}>{toHumanMessage(saveMutation.error)}</Text>
+          ) : null}
+        </View>
+      ) : (
+        <Text style={styles.summaryText}>{describeRouting(sparkCode)}</Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    backgroundColor: Colors.surface,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: Colors.cardBorder,
+    padding: 14,
+    marginBottom: 12,
+  },
+  sectionHeader: {
+    flexDirection: 'row' as const,
+    alignItems: 'center' as const,
+    gap: 8,
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600' as const,
+    color: Colors.text,
+  },
+  editButton: {
+    flexDirection: 'row' as const,
+    alignItems: 'center' as const,
+    gap: 6,
+    paddingVertical: 4,
+  },
+  editText: {
+    fontSize: 13,
+    fontWeight: '500' as const,
+    color: Colors.primary,
+  },
+  summaryText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+  },
+  formActions: {
+    flexDirection: 'row' as const,
+    alignItems: 'center' as const,
+    justifyContent: 'flex-end' as const,
+    gap: 16,
+    marginTop: 10,
+  },
+  cancelText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
+  submitButton: {
+    backgroundColor: Colors.primary,
+    borderRadius: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  submitButtonDisabled: {
+    opacity: 0.6,
+  },
+  submitText: {
+    fontSize: 14,
+    fontWeight: '600' as const,
+    color: Colors.white,
+  },
+  errorText: {
+    fontSize: 13,
+    color: Colors.danger,
+    marginTop: 6,
+  },
+});
@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { ActivityIndicator, Pressable, StyleSheet, Text, View } from 'react-native';
+import { Download, FileDown } from 'lucide-react-native';
+import Colors from '@/constants/colors';
+import { loadScanExport } from '@/features/scan-events/scan-events-api';
+import { scanExportToFile } from '@/lib/scan-export';
+import { shareFile } from '@/lib/share-file';
+import { toHumanMessage } from '@/lib/error-message';
+import { ScanDateRange, ScanExportFormat } from '@/types/scan-events';
+
+type ExportScope = 'code' | 'all';
+
+const SCOPES: { key: ExportScope; label: string }[] = [
+  { key: 'code', label: 'This code' },
+  { key: 'all', label: 'All codes' },
+];
+
+const FORMATS: { key: ScanExportFormat; label: string; hint: string }[] = [
+  { key: 'events_csv', label: 'Events CSV', hint: 'Every scan event' },
+  { key: 'summary_csv', label: 'Summary CSV', hint: 'Totals and breakdowns per code' },
+  { key: 'json', label: 'JSON', hint: 'Every scan event plus the summary' },
+];
+
+export default function ScanExportPanel({
+  sparkCodeId,
+  fileBaseName,
+  range,
+  rangeLabel,
+}: {
+  sparkCodeId: string;
+  fileBaseName: string;
+  range: ScanDateRange;
+  rangeLabel: string;
+}) {
+  const [scope, setScope] = useState<ExportScope>('code');
+  const [format, setFormat] = useState<ScanExportFormat>('events_csv');
+  const [loadedEvents, setLoadedEvents] = useState<number | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const runExport = async () => {
+    setExportError(null);
+    setLoadedEvents(0);
+    try {
+      const data = await loadScanExport(
+        scope === 'code' ? sparkCodeId : null,
+        range,
+        setLoadedEvents,
+        format !== 'summary_csv',
+      );
+      await shareFile(scanExportToFile(data, format, scope === 'code' ? fileBaseName : 'all-codes'));
+    } catch (e) {
+      console.log('[ScanExport] export failed:', e);
+      setExportError(toHumanMessage(e));
+    } finally {
+      setLoadedEvents(null);
+    }
+  };
+
+  const exporting = loadedEvents !== null;
+  const formatHint = FORMATS.find((f) => f.key === format)?.hint;
+
+  return (
+    <View style={styles.section}>
+      <View style={styles.sectionHeader}>
+        <FileDown size={16} color={Colors.primary} />
+        <Text style={styles.sectionTitle}>Export Scans</Text>
+      </View>
+      <Text style={styles.hintText}>
+        {formatHint}, covering {rangeLabel}.
+      </Text>
+
+      <View style={styles.chipRow}>
+        {SCOPES.map((s) => (
+          <Pressable
+            key={s.key}
+            style={[styles.chip, scope === s.key && styles.chipActive]}
+            onPress={() => setScope(s.key)}
+            disabled={exporting}
+          >
+            <Text style={[styles.chipText, scope === s.key && styles.chipTextActive]}>{s.label}</Text>
+          </Pressable>
+        ))}
+      </View>
+      <View style={styles.chipRow}>
+        {FORMATS.map((f) => (
+          <Pressable
+            key={f.key}
+            style={[styles.chip, format === f.key && styles.chipActive]}
+            onPress={() => setFormat(f.key)}
+            disabled={exporting}
+          >
+            <Text style={[styles.chipText, format === f.key && styles.chipTextActive]}>{f.label}</Text>
+          </Pressable>
+        ))}
+      </View>
+
+      <View style={styles.chipRow}>
+        <Pressable
+          style={[styles.exportButton, exporting && styles.exportButtonDisabled]}
+          onPress={runExport}
+          disabled={exporting}
+          testID="scan-export-btn"
+        >
+          {exporting ? (
+            <ActivityIndicator size="small" color={Colors.white} />
+          ) : (
+            <Download size={14} color={Colors.white} />
+          )}
+          <Text style={styles.exportText}>Export</Text>
+        </Pressable>
+        {exporting && loadedEvents > 0 ? (
+          <Text style={styles.hintText}>Loaded {loadedEvents.toLocaleString()} events…</Text>
+        ) : null}
+      </View>
+
+      {exportError ? <Text style={styles.errorText}>{exportError}</Text> : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    backgroundColor: Colors.surface,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: Colors.cardBorder,
+    padding: 14,
+    marginBottom: 12,
+  },
+  sectionHeader: {
+    flexDirection: 'row' as const,
+    alignItems: 'center' as const,
+    gap: 8,
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 15,
+    fontWeight: '600' as const,
+    color: Colors.text,
+  },
+  hintText: {
+    fontSize: 12,
+    color: Colors.textMuted,
+  },
+  chipRow: {
+    flexDirection: 'row' as const,
+    flexWrap: 'wrap' as const,
+    alignItems: 'center' as const,
+    gap: 8,
+    marginTop: 10,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: Colors.inputBorder,
+    borderRadius: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    backgroundColor: Colors.inputBg,
+  },
+  chipActive: {
+    borderColor: Colors.primary,
+    backgroundColor: 'rgba(13, 148, 136, 0.15)',
+  },
+  chipText: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
+  chipTextActive: {
+    color: Colors.primary,
+    fontWeight: '500' as const,
+  },
+  exportButton: {
+    flexDirection: 'row' as const,
+    alignItems: 'center' as const,
+    gap: 6,
+    backgroundColor: Colors.primary,
+    borderRadius: 10,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  exportButtonDisabled: {
+    opacity: 0.6,
+  },
+  exportText: {
+    color: Colors.white,
+    fontSize: 13,
+    fontWeight: '600' as const,
+  },
+  errorText: {
+    fontSize: 13,
+    color: Colors.danger,
+    marginTop: 8,
+  },
+});
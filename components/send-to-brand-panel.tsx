@@ -0,0 +1,293 @@
+import React, { useState } from 'react';
+import { ActivityIndicator, Linking, Platform, Pressable, Share, StyleSheet, Text, View } from 'react-native';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useRouter } from 'expo-router';
+import { Mail, Send, Share2 } from 'lucide-react-native';
+import Colors from '@/constants/colors';
+import { listContracts } from '@/features/contracts/contracts-api';
+import { getProfileByUserId } from '@/features/profile/profile-api';
+import { markSentToBrand } from '@/features/spark-codes/spark-codes-api';
+import {
+  buildMailtoUrl,
+  fillBrandMessage,
+  findBrandContract,
+  getBrandMessageTemplate,
+} from '@/lib/brand-message';
+import { toHumanMessage } from '@/lib/error-message';
+import { useAuthStore } from '@/store/auth-store';
+import { SparkCode } from '@/types/spark-codes';
+
+type SendMethod = 'share' | 'email';
+
+export default function SendToBrandPanel({
+  sparkCode,
+  shortLink,
+}: {
+  sparkCode: SparkCode;
+  shortLink: string | null;
+}) {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const userId = useAuthStore((s) => s.user?.id) ?? null;
+  const [expanded, setExpanded] = useState<boolean>(false);
+
+  const { data: contracts = [] } = useQuery({
+    queryKey: ['contracts', 'list'],
+    queryFn: listContracts,
+    enabled: expanded && !!userId,
+  });
+
+  const { data: profile } = useQuery({
+    queryKey: ['profile', userId],
+    queryFn: () => userId ? getProfileByUserId(userId) : null,
+    enabled: expanded && !!userId,
+  });
+
+  const { data: template } = useQuery({
+    queryKey: ['brand-message-template'],
+    queryFn: getBrandMessageTemplate,
+    enabled: expanded,
+  });
+
+  const contract = findBrandContract(sparkCode, contracts);
+  const message = template
+    ? fillBrandMessage(template, { sparkCode, shortLink, contract, creatorName: profile?.first_name ?? null })
+    : null;
+
+  const [confirmingEmail, setConfirmingEmail] = useState<boolean>(false);
+
+  const markSentMutation = useMutation({
+    mutationFn: () => markSentToBrand(sparkCode.id),
+    onSuccess: (updated) => {
+      queryClient.setQueryData(['spark-code', sparkCode.id], updated);
+      queryClient.invalidateQueries({ queryKey: ['spark-codes', 'list'] });
+      queryClient.invalidateQueries({ queryKey: ['spark-code-status-history', sparkCode.id] });
+      setConfirmingEmail(false);
+      setExpanded(false);
+    },
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: async (method: SendMethod): Promise<'shared' | 'composed' | null> => {
+      if (!message) return null;
+      if (method === 'email') {
+        await Linking.openURL(buildMailtoUrl(contract?.contact_email ?? null, message));
+        return 'composed';
+      }
+      const result = await Share.share(
+        { title: message.subject, message: message.body },
+        { subject: message.subject },
+      );
+      // Only iOS reports a dismissed sheet; Android always says shared.
+      return result.action === Share.dismissedAction ? null : 'shared';
+    },
+    onSuccess: (outcome) => {
+      // Opening the mail app doesn't mean the email went out, so ask first.
+      if (outcome === 'composed') setConfirmingEmail(true);
+      if (outcome === 'shared') markSentMutation.mutate();
+    },
+  });
+
+  const busy = sendMutation.isPending || markSentMutation.isPending;
+  const error = sendMutation.error ?? markSentMutation.error;
+
+  return (
+    <View style={styles.section}>
+      <View style={styles.sectionHeader}>
+        <Send size={16} color={Colors.primary} />
+        <Text style={styles.sectionTitle}>Send to Brand</Text>
+        <Pressable onPress={() => setExpanded((v) => !v)} testID="send-to-brand-btn">
+          <Text style={styles.toggleText}>{expanded ? 'Close' : 'Compose'}</Text>
+        </Pressable>
+      </View>
+
+      {sparkCode.sent_to_brand_at ? (
+        <Text style={styles.hintText}>
+          Last sent{' '}
+          {new Date(sparkCode.sent_to_brand_at).toLocaleString(undefined, {
+            month: 'short',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: '2-digit',
+          })}
+        </Text>
+      ) : null}
+
+      {expanded ? (
+        !message ? (
+          <ActivityIndicator color={Colors.primary} style={styles.loader} />
+        ) : (
+          <>
+            <Text style={styles.recipientText}>
+              {contract
+                ? `To: ${[contract.contact_name, contract.contact_email].filter(Boolean).join(' · ') || contract.brand_name}`
+                : sparkCode.brand_name
+                  ? `No contract found for ${sparkCode.brand_name}.`
+                  : 'Add a brand to this code to fill in the contact from a contract.'}
+            </Text>
+            <View style={styles.preview}>
+              <Text style={styles.previewSubject}>{message.subject}</Text>
+              <Text style={styles.previewBody}>{message.body}</Text>
+            </View>
+            <Pressable onPress={() => router.push('/settings/brand-message' as any)}>
+              <Text style={styles.linkText}>Edit template</Text>
+            </Pressable>
+            <View style={styles.actions}>
+              {Platform.OS !== 'web' ? (
+                <Pressable
+                  style={[styles.actionButton, busy && styles.actionButtonDisabled]}
+                  onPress={() => sendMutation.mutate('share')}
+                  disabled={busy}
+                  testID="send-to-brand-share"
+                >
+                  <Share2 size={14} color={Colors.white} />
+                  <Text style={styles.actionText}>Share</Text>
+                </Pressable>
+              ) : null}
+              <Pressable
+                style={[styles.actionButton, busy && styles.actionButtonDisabled]}
+                onPress={() => sendMutation.mutate('email')}
+                disabled={busy}
+                testID="send-to-brand-email"
+              >
+                <Mail size={14} color={Colors.white} />
+                <Text style={styles.actionText}>Email</Text>
+              </Pressable>
+              {busy ? <ActivityIndicator size="small" color={Colors.primary} /> : null}
+            </View>
+            {confirmingEmail ? (
+              <View style={styles.confirmRow}>
+                <Text style={styles.confirmText}>Sent the email?</Text>
+                <Pressable onPress={() => setConfirmingEmail(false)} disabled={busy}>
+                  <Text style={styles.cancelText}>Not yet</Text>
+                </Pressable>
+                <Pressable
+                  style={[styles.actionButton, busy && styles.actionButtonDisabled]}
+                  onPress={() => markSentMutation.mutate()}
+                  disabled={busy}
+                  testID="send-to-brand-confirm"
+                >
+                  <Text style={styles.actionText}>Yes, sent</Text>
+                </Pressable>
+              </View>
+            ) : null}
+            <Text style={styles.hintText}>
+              {sparkCode.status === 'draft'
+                ? 'Once sent, the status changes to Sent to brand.'
+                : 'Sending records the time; the status stays as it is.'}
+            </Text>
+          </>
+        )
+      ) : null}
+
+      {error ? <Text style={styles.errorText}>{toHumanMessage(error)}</Text> : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    backgroundColor: Colors.surface,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: Colors.cardBorder,
+    padding: 14,
+    marginBottom: 12,
+  },
+  sectionHeader: {
+    flexDirection: 'row' as const,
+    alignItems: 'center' as const,
+    gap: 8,
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600' as const,
+    color: Colors.text,
+  },
+  toggleText: {
+    fontSize: 13,
+    fontWeight: '500' as const,
+    color: Colors.primary,
+  },
+  loader: {
+    marginVertical: 12,
+  },
+  recipientText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginBottom: 8,
+  },
+  preview: {
+    borderWidth: 1,
+    borderColor: Colors.inputBorder,
+    borderRadius: 10,
+    backgroundColor: Colors.inputBg,
+    padding: 12,
+    marginBottom: 8,
+  },
+  previewSubject: {
+    fontSize: 13,
+    fontWeight: '600' as const,
+    color: Colors.text,
+    marginBottom: 6,
+  },
+  previewBody: {
+    fontSize: 13,
+    lineHeight: 18,
+    color: Colors.textSecondary,
+  },
+  linkText: {
+    fontSize: 13,
+    color: Colors.primary,
+    marginBottom: 10,
+  },
+  actions: {
+    flexDirection: 'row' as const,
+    alignItems: 'center' as const,
+    gap: 10,
+  },
+  actionButton: {
+    flexDirection: 'row' as const,
+    alignItems: 'center' as const,
+    gap: 6,
+    backgroundColor: Colors.primary,
+    borderRadius: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  actionButtonDisabled: {
+    opacity: 0.6,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600' as const,
+    color: Colors.white,
+  },
+  confirmRow: {
+    flexDirection: 'row' as const,
+    alignItems: 'center' as const,
+    gap: 16,
+    marginTop: 10,
+  },
+  confirmText: {
+    flex: 1,
+    fontSize: 13,
+    color: Colors.text,
+  },
+  cancelText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
+  hintText: {
+    fontSize: 12,
+    color: Colors.textMuted,
+    marginTop: 6,
+  },
+  errorText: {
+    fontSize: 13,
+    color: Colors.danger,
+    marginTop: 6,
+  },
+});
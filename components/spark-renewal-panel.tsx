@@ -0,0 +1,285 @@
+import React, { useState } from 'react';
+import { ActivityIndicator, Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useRouter } from 'expo-router';
+import { ChevronRight, RefreshCw, ShieldCheck } from 'lucide-react-native';
+import Colors from '@/constants/colors';
+import { getSparkCodeById, listRenewals, renewSparkCode } from '@/features/spark-codes/spark-codes-api';
+import { toHumanMessage } from '@/lib/error-message';
+import {
+  AUTHORIZATION_PERIODS,
+  deriveAuthorizationExpiry,
+  formatAuthorizationDay,
+  formatAuthorizationWindow,
+  isValidAuthorizationStart,
+} from '@/lib/spark-authorization';
+import { SparkAuthorizationDays, SparkCode } from '@/types/spark-codes';
+
+function LinkedCodeRow({ label, sparkCode }: { label: string; sparkCode: SparkCode }) {
+  const router = useRouter();
+  return (
+    <Pressable style={styles.linkedRow} onPress={() => router.push(`/spark-codes/${sparkCode.id}` as any)}>
+      <Text style={styles.linkedText} numberOfLines={1}>
+        {label}: {sparkCode.code}
+        {sparkCode.expires_at ? ` · until ${formatAuthorizationDay(sparkCode.expires_at)}` : ''}
+      </Text>
+      <ChevronRight size={14} color={Colors.textMuted} />
+    </Pressable>
+  );
+}
+
+export default function SparkRenewalPanel({ sparkCode }: { sparkCode: SparkCode }) {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const [renewing, setRenewing] = useState<boolean>(false);
+  const [newCode, setNewCode] = useState<string>('');
+  const [start, setStart] = useState<string>('');
+  const [days, setDays] = useState<SparkAuthorizationDays>(sparkCode.authorization_days ?? 30);
+
+  const { data: renewedFrom } = useQuery({
+    queryKey: ['spark-code', sparkCode.renewed_from_id],
+    queryFn: () => getSparkCodeById(sparkCode.renewed_from_id!),
+    enabled: !!sparkCode.renewed_from_id,
+  });
+
+  const { data: renewals = [] } = useQuery({
+    queryKey: ['spark-code-renewals', sparkCode.id],
+    queryFn: () => listRenewals(sparkCode.id),
+  });
+
+  const renewMutation = useMutation({
+    mutationFn: () =>
+      renewSparkCode(sparkCode.id, {
+        code: newCode.trim(),
+        authorization_start: start.trim(),
+        authorization_days: days,
+      }),
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ['spark-codes', 'list'] });
+      queryClient.invalidateQueries({ queryKey: ['spark-code-renewals', sparkCode.id] });
+      setRenewing(false);
+      router.push(`/spark-codes/${created.id}` as any);
+    },
+  });
+
+  const startError = start.trim() && !isValidAuthorizationStart(start.trim()) ? 'Use YYYY-MM-DD.' : null;
+  const canRenew = !!newCode.trim() && !!start.trim() && !startError && !renewMutation.isPending;
+
+  const openRenewForm = () => {
+    setNewCode('');
+    setStart(new Date().toISOString().slice(0, 10));
+    setDays(sparkCode.authorization_days ?? 30);
+    setRenewing(true);
+  };
+
+  return (
+    <View style={styles.section}>
+      <View style={styles.sectionHeader}>
+        <ShieldCheck size={16} color={Colors.primary} />
+        <Text style={styles.sectionTitle}>TikTok Authorization</Text>
+        {!renewing ? (
+          <Pressable style={styles.renewButton} onPress={openRenewForm} testID="renew-spark-code-btn">
+            <RefreshCw size={13} color={Colors.primary} />
+            <Text style={styles.renewText}>Renew</Text>
+          </Pressable>
+        ) : null}
+      </View>
+
+      <Text style={styles.summaryText}>
+        {formatAuthorizationWindow(sparkCode) ?? 'No authorization window recorded.'}
+      </Text>
+
+      {renewedFrom ? <LinkedCodeRow label="Renewed from" sparkCode={renewedFrom} /> : null}
+      {renewals.map((renewal) => (
+        <LinkedCodeRow key={renewal.id} label="Renewed as" sparkCode={renewal} />
+      ))}
+
+      {renewing ? (
+        <View style={styles.renewForm}>
+          <Text style={styles.label}>New Spark code</Text>
+          <TextInput
+            style={styles.input}
+            value={newCode}
+            onChangeText={setNewCode}
+            placeholder="Paste the code from TikTok"
+            placeholderTextColor={Colors.textMuted}
+            autoCapitalize="none"
+            autoCorrect={false}
+            testID="renew-code-input"
+          />
+          <Text style={styles.label}>Authorized on</Text>
+          <TextInput
+            style={styles.input}
+            value={start}
+            onChangeText={setStart}
+            placeholder="YYYY-MM-DD"
+            placeholderTextColor={Colors.textMuted}
+          />
+          {startError ? <Text style={styles.errorText}>{startError}</Text> : null}
+          <View style={styles.chipRow}>
+            {AUTHORIZATION_PERIODS.map((d) => (
+              <Pressable key={d} style={[styles.chip, days === d && styles.chipActive]} onPress={() => setDays(d)}>
+                <Text style={[styles.chipText, days === d && styles.chipTextActive]}>{d} days</Text>
+              </Pressable>
+            ))}
+          </View>
+          <Text style={styles.hintText}>
+            {start.trim() && !startError ? `Runs until ${formatAuthorizationDay(deriveAuthorizationExpiry(start.trim(), days))}. ` : ''}
+            The renewal copies the destinations and settings of this code under a new short link.
+          </Text>
+          <View style={styles.formActions}>
+            <Pressable onPress={() => setRenewing(false)}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </Pressable>
+            <Pressable
+              style={[styles.submitButton, !canRenew && styles.submitButtonDisabled]}
+              onPress={() => renewMutation.mutate()}
+              disabled={!canRenew}
+              testID="renew-spark-code-submit"
+            >
+              {renewMutation.isPending ? (
+                <ActivityIndicator size="small" color={Colors.white} />
+              ) : (
+                <Text style={styles.submitText}>Renew code</Text>
+              )}
+            </Pressable>
+          </View>
+          {renewMutation.isError ? (
+            <Text style={styles.errorText}>{toHumanMessage(renewMutation.error)}</Text>
+          ) : null}
+        </View>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    backgroundColor: Colors.surface,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: Colors.cardBorder,
+    padding: 14,
+    marginBottom: 12,
+  },
+  sectionHeader: {
+    flexDirection: 'row' as const,
+    alignItems: 'center' as const,
+    gap: 8,
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600' as const,
+    color: Colors.text,
+  },
+  renewButton: {
+    flexDirection: 'row' as const,
+    alignItems: 'center' as const,
+    gap: 6,
+    paddingVertical: 4,
+  },
+  renewText: {
+    fontSize: 13,
+    fontWeight: '500' as const,
+    color: Colors.primary,
+  },
+  summaryText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginBottom: 4,
+  },
+  linkedRow: {
+    flexDirection: 'row' as const,
+    alignItems: 'center' as const,
+    gap: 8,
+    paddingVertical: 6,
+  },
+  linkedText: {
+    flex: 1,
+    fontSize: 13,
+    color: Colors.primary,
+  },
+  renewForm: {
+    marginTop: 8,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '500' as const,
+    color: Colors.textSecondary,
+    marginBottom: 6,
+    marginTop: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: Colors.inputBorder,
+    borderRadius: 10,
+    backgroundColor: Colors.inputBg,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: Colors.text,
+  },
+  chipRow: {
+    flexDirection: 'row' as const,
+    flexWrap: 'wrap' as const,
+    gap: 8,
+    marginTop: 10,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: Colors.inputBorder,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    backgroundColor: Colors.inputBg,
+  },
+  chipActive: {
+    borderColor: Colors.primary,
+    backgroundColor: 'rgba(13, 148, 136, 0.15)',
+  },
+  chipText: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
+  chipTextActive: {
+    color: Colors.primary,
+    fontWeight: '500' as const,
+  },
+  hintText: {
+    fontSize: 12,
+    color: Colors.textMuted,
+    marginTop: 8,
+  },
+  formActions: {
+    flexDirection: 'row' as const,
+    alignItems: 'center' as const,
+    justifyContent: 'flex-end' as const,
+    gap: 16,
+    marginTop: 10,
+  },
+  cancelText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
+  submitButton: {
+    backgroundColor: Colors.primary,
+    borderRadius: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  submitButtonDisabled: {
+    opacity: 0.6,
+  },
+  submitText: {
+    fontSize: 14,
+    fontWeight: '600' as const,
+    color: Colors.white,
+  },
+  errorText: {
+    fontSize: 13,
+    color: Colors.danger,
+    marginTop: 6,
+  },
+});
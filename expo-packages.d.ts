@@ -8,10 +8,10 @@ declare module 'expo-document-picker' {
 }
 
 declare module 'expo-image-picker' {
-  export type ImagePickerAsset = { uri: string; fileName?: string | null; width?: number; height?: number };
+  export type ImagePickerAsset = { uri: string; fileName?: string | null; width?: number; height?: number; mimeType?: string; base64?: string | null };
   export type ImagePickerResult = { canceled: true } | { canceled: false; assets: ImagePickerAsset[] };
   export const MediaTypeOptions: { Images: 'images'; Videos: 'videos'; All: 'all' };
-  export function launchImageLibraryAsync(options?: { mediaTypes?: string; allowsMultipleSelection?: boolean }): Promise<ImagePickerResult>;
+  export function launchImageLibraryAsync(options?: { mediaTypes?: string | string[]; allowsMultipleSelection?: boolean; allowsEditing?: boolean; aspect?: [number, number]; quality?: number; base64?: boolean }): Promise<ImagePickerResult>;
 }
 
 declare module 'expo-web-browser' {
@@ -0,0 +1,19 @@
+import { CustomDomain } from '@/types/custom-domains';
+import { trpcClient } from '@/lib/trpc';
+
+export async function listCustomDomains(): Promise<CustomDomain[]> {
+  return trpcClient.customDomains.list.query();
+}
+
+/** Claims a domain; it serves links once `verifyCustomDomain` finds its TXT record. */
+export async function addCustomDomain(domain: string): Promise<CustomDomain> {
+  return trpcClient.customDomains.add.mutate({ domain });
+}
+
+export async function verifyCustomDomain(domain: string): Promise<CustomDomain> {
+  return trpcClient.customDomains.verify.mutate({ domain });
+}
+
+export async function removeCustomDomain(domain: string): Promise<void> {
+  await trpcClient.customDomains.remove.mutate({ domain });
+}
@@ -1,8 +1,17 @@
 import { Profile } from '@/types/profile';
 import { getSupabaseClient, isSupabaseConfigured } from '@/lib/supabase';
+import { normalizeVanitySlug, validateHandle } from '@/lib/short-code';
+import { validateWebUrl } from '@/lib/link-url';
 
 const PROFILES_TABLE = 'profiles';
 
+export class HandleTakenError extends Error {
+  constructor(handle: string) {
+    super(`The handle "${handle}" is already taken.`);
+    this.name = 'HandleTakenError';
+  }
+}
+
 export async function getProfileByUserId(userId: string): Promise<Profile | null> {
   const supabaseClient = getSupabaseClient();
   if (!isSupabaseConfigured() || !supabaseClient) {
@@ -52,3 +61,60 @@ export async function updateProfile(
     throw error;
   }
 }
+
+/** Sets the public link-in-bio handle, or clears it with `null`. */
+export async function updateProfileHandle(userId: string, value: string | null): Promise<string | null> {
+  const supabaseClient = getSupabaseClient();
+  if (!isSupabaseConfigured() || !supabaseClient) {
+    throw new Error('Supabase is not configured.');
+  }
+  const handle = value ? normalizeVanitySlug(value) : null;
+  if (handle) {
+    const problem = validateHandle(handle);
+    if (problem) {
+      throw new Error(problem);
+    }
+    const { data: existing, error: lookupError } = await supabaseClient
+      .from(PROFILES_TABLE)
+      .select('user_id')
+      .eq('handle', handle)
+      .neq('user_id', userId)
+      .limit(1);
+    if (lookupError) {
+      throw lookupError;
+    }
+    if (existing && existing.length > 0) {
+      throw new HandleTakenError(handle);
+    }
+  }
+  const { error } = await supabaseClient
+    .from(PROFILES_TABLE)
+    .update({ handle })
+    .eq('user_id', userId);
+  if (error) {
+    if (error.code === '23505') {
+      throw new HandleTakenError(handle ?? '');
+    }
+    throw error;
+  }
+  return handle;
+}
+
+export async function updateProfileFallbackUrl(userId: string, value: string | null): Promise<void> {
+  const supabaseClient = getSupabaseClient();
+  if (!isSupabaseConfigured() || !supabaseClient) {
+    throw new Error('Supabase is not configured.');
+  }
+  const fallbackUrl = value?.trim() || null;
+  const problem = validateWebUrl(fallbackUrl);
+  if (problem) {
+    throw new Error(problem);
+  }
+  const { error } = await supabaseClient
+    .from(PROFILES_TABLE)
+    .update({ fallback_url: fallbackUrl })
+    .eq('user_id', userId);
+  if (error) {
+    throw error;
+  }
+}
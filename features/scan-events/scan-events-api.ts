@@ -1,9 +1,44 @@
-import { ScanEvent, ScanAnalytics } from '@/types/scan-events';
+import {
+  ScanEvent,
+  ScanAnalytics,
+  ScanDateRange,
+  ScanExport,
+  ScanExportCode,
+  ScanExportEvent,
+} from '@/types/scan-events';
 import { getCurrentUserId } from '@/store/auth-store';
 import { getSupabaseClient, isSupabaseConfigured } from '@/lib/supabase';
+import { AuthRequiredError } from '@/lib/auth';
+import { trpcClient } from '@/lib/trpc';
 
 const SCAN_EVENTS_TABLE = 'scan_events';
 const SPARK_CODES_TABLE = 'spark_codes';
+const EXPORT_PAGE_SIZE = 1000;
+const EXPORT_CODE_CHUNK = 100;
+const EXPORT_EVENT_COLUMNS = [
+  'id',
+  'spark_code_id',
+  'outcome',
+  'requested_code',
+  'scanned_at',
+  'device_type',
+  'os',
+  'country',
+  'city',
+  'variant_id',
+  'geo_rule_id',
+  'is_bot',
+  'source',
+  'referrer',
+  'in_app_browser',
+].join(', ');
+
+export class SupabaseNotConfiguredError extends Error {
+  constructor() {
+    super('Supabase is not configured.');
+    this.name = 'SupabaseNotConfiguredError';
+  }
+}
 
 export async function getScanEventsForCode(sparkCodeId: string): Promise<ScanEvent[]> {
   const supabaseClient = getSupabaseClient();
@@ -23,6 +58,7 @@ export async function getScanEventsForCode(sparkCodeId: string): Promise<ScanEve
     .from(SCAN_EVENTS_TABLE)
     .select('*')
     .eq('spark_code_id', sparkCodeId)
+    .eq('outcome', 'redirect')
     .order('scanned_at', { ascending: false })
     .limit(500);
 
@@ -33,45 +69,132 @@ export async function getScanEventsForCode(sparkCodeId: string): Promise<ScanEve
   return (data ?? []) as ScanEvent[];
 }
 
-export async function getAnalyticsForCode(sparkCodeId: string): Promise<ScanAnalytics> {
-  const events = await getScanEventsForCode(sparkCodeId);
-
-  const total_scans = events.length;
-
-  const dayMap: Record<string, number> = {};
-  const deviceMap: Record<string, number> = {};
-  const osMap: Record<string, number> = {};
-  const countryMap: Record<string, number> = {};
-
-  for (const ev of events) {
-    const day = ev.scanned_at ? ev.scanned_at.slice(0, 10) : 'unknown';
-    dayMap[day] = (dayMap[day] ?? 0) + 1;
+const EMPTY_ANALYTICS: ScanAnalytics = {
+  total_scans: 0,
+  human_scans: 0,
+  bot_scans: 0,
+  unique_visitors: 0,
+  scans_by_day: [],
+  scans_by_device: [],
+  scans_by_os: [],
+  scans_by_country: [],
+  scans_by_variant: [],
+  scans_by_source: [],
+  suspicious_traffic_at: null,
+  suspicious_traffic: false,
+  expired_hits: 0,
+  last_scan_at: null,
+};
+
+/** Empty analytics when Supabase isn't set up or nobody is signed in. */
+export async function getAnalyticsForCode(
+  sparkCodeId: string,
+  range: ScanDateRange = {},
+): Promise<ScanAnalytics> {
+  if (!isSupabaseConfigured() || !getCurrentUserId()) return EMPTY_ANALYTICS;
+  return trpcClient.scanAnalytics.forCode.query({ sparkCodeId, ...range });
+}
 
-    const device = ev.device_type ?? 'Unknown';
-    deviceMap[device] = (deviceMap[device] ?? 0) + 1;
+/** Hits on unknown short codes under the creator's custom domains. */
+export async function getNotFoundHits(range: ScanDateRange = {}): Promise<number> {
+  const { not_found_hits } = await trpcClient.scanAnalytics.notFoundHits.query(range);
+  return not_found_hits;
+}
 
-    const os = ev.os ?? 'Unknown';
-    osMap[os] = (osMap[os] ?? 0) + 1;
+/**
+ * Loads everything an export needs: per-code analytics and every scan event
+ * in range, paged so large codes aren't cut off. Pass `null` for all codes;
+ * `withEvents: false` skips the events for a summary-only export.
+ */
+export async function loadScanExport(
+  sparkCodeId: string | null,
+  range: ScanDateRange = {},
+  onProgress?: (loadedEvents: number) => void,
+  withEvents = true,
+): Promise<ScanExport> {
+  const supabaseClient = getSupabaseClient();
+  if (!isSupabaseConfigured() || !supabaseClient) throw new SupabaseNotConfiguredError();
+  const userId = getCurrentUserId();
+  if (!userId) throw new AuthRequiredError();
 
-    const country = ev.country ?? 'Unknown';
-    countryMap[country] = (countryMap[country] ?? 0) + 1;
+  let codesQuery = supabaseClient
+    .from(SPARK_CODES_TABLE)
+    .select('id, code, short_code')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+  if (sparkCodeId) codesQuery = codesQuery.eq('id', sparkCodeId);
+  const { data: codeRows, error: codesError } = await codesQuery;
+  if (codesError) throw codesError;
+  const codes = (codeRows ?? []) as Omit<ScanExportCode, 'analytics'>[];
+
+  const analyticsById: Record<string, ScanAnalytics> = {};
+  const chunks: string[][] = [];
+  for (let i = 0; i < codes.length; i += EXPORT_CODE_CHUNK) {
+    chunks.push(codes.slice(i, i + EXPORT_CODE_CHUNK).map((c) => c.id));
   }
+  const chunkAnalytics = await Promise.all(
+    chunks.map((ids) => trpcClient.scanAnalytics.forCodes.query({ sparkCodeIds: ids, ...range })),
+  );
+  for (const analytics of chunkAnalytics) Object.assign(analyticsById, analytics);
+  const exportCodes: ScanExportCode[] = codes.map((code) => ({
+    ...code,
+    analytics: analyticsById[code.id] ?? EMPTY_ANALYTICS,
+  }));
+
+  const events: ScanExportEvent[] = [];
+  for (const ids of withEvents ? chunks : []) {
+    for (let offset = 0; ; offset += EXPORT_PAGE_SIZE) {
+      let query = supabaseClient
+        .from(SCAN_EVENTS_TABLE)
+        .select(EXPORT_EVENT_COLUMNS)
+        .in('spark_code_id', ids);
+      if (range.from) query = query.gte('scanned_at', range.from);
+      if (range.to) query = query.lt('scanned_at', range.to);
+      const { data, error } = await query
+        .order('scanned_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(offset, offset + EXPORT_PAGE_SIZE - 1);
+      if (error) throw error;
+
+      const page = (data ?? []) as unknown as ScanExportEvent[];
+      events.push(...page);
+      onProgress?.(events.length);
+      if (page.length < EXPORT_PAGE_SIZE) break;
+    }
+  }
+  events.sort((a, b) => a.scanned_at.localeCompare(b.scanned_at));
 
-  const scans_by_day = Object.entries(dayMap)
-    .map(([date, count]) => ({ date, count }))
-    .sort((a, b) => a.date.localeCompare(b.date));
-
-  const scans_by_device = Object.entries(deviceMap)
-    .map(([device_type, count]) => ({ device_type, count }))
-    .sort((a, b) => b.count - a.count);
-
-  const scans_by_os = Object.entries(osMap)
-    .map(([os, count]) => ({ os, count }))
-    .sort((a, b) => b.count - a.count);
-
-  const scans_by_country = Object.entries(countryMap)
-    .map(([country, count]) => ({ country, count }))
-    .sort((a, b) => b.count - a.count);
+  return { exported_at: new Date().toISOString(), range, codes: exportCodes, events };
+}
 
-  return { total_scans, scans_by_day, scans_by_device, scans_by_os, scans_by_country };
+/**
+ * Streams new scan events for one code via Supabase realtime (row-level
+ * security still applies). Returns an unsubscribe function.
+ */
+export function subscribeToScanEvents(
+  sparkCodeId: string,
+  onEvent: (event: ScanEvent) => void,
+): () => void {
+  const supabaseClient = getSupabaseClient();
+  if (!isSupabaseConfigured() || !supabaseClient) return () => {};
+
+  const channel = supabaseClient
+    .channel(`scan-events:${sparkCodeId}`)
+    .on(
+      'postgres_changes',
+      {
+        event: 'INSERT',
+        schema: 'public',
+        table: SCAN_EVENTS_TABLE,
+        filter: `spark_code_id=eq.${sparkCodeId}`,
+      },
+      (payload) => onEvent(payload.new as ScanEvent),
+    )
+    .subscribe((status) => {
+      console.log('[ScanEvents] live channel status:', status);
+    });
+
+  return () => {
+    void supabaseClient.removeChannel(channel);
+  };
 }
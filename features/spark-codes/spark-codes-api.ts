@@ -1,12 +1,23 @@
-import { SparkCode, CreateSparkCodeInput, SparkCodeWithStats } from '@/types/spark-codes';
+import {
+  BioEntryUpdate,
+  BulkCreateSparkCodesResult,
+  SparkAuthorizationDays,
+  SparkCode,
+  SparkCodeStatusChange,
+  CreateSparkCodeInput,
+  SparkCodeWithStats,
+} from '@/types/spark-codes';
 import { getCurrentUserId } from '@/store/auth-store';
 import { AuthRequiredError } from '@/lib/auth';
 import { getSupabaseClient, isSupabaseConfigured } from '@/lib/supabase';
-import { generateShortCode } from '@/lib/short-code';
+import { generateShortCode, normalizeVanitySlug, validateVanitySlug } from '@/lib/short-code';
+import { trpcClient } from '@/lib/trpc';
+import { deriveAuthorizationExpiry } from '@/lib/spark-authorization';
+import { validateDeepLinkUrl, validateWebUrl } from '@/lib/link-url';
 
 const SPARK_CODES_TABLE = 'spark_codes';
-const SCAN_EVENTS_TABLE = 'scan_events';
 const SPARK_CODES_LIMIT = 50;
+const STATUS_HISTORY_TABLE = 'spark_code_status_history';
 
 export class SupabaseNotConfiguredError extends Error {
   constructor() {
@@ -15,6 +26,27 @@ export class SupabaseNotConfiguredError extends Error {
   }
 }
 
+export class InvalidShortCodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidShortCodeError';
+  }
+}
+
+export class InvalidLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidLinkError';
+  }
+}
+
+export class ShortCodeTakenError extends Error {
+  constructor(shortCode: string) {
+    super(`The link "${shortCode}" is already taken.`);
+    this.name = 'ShortCodeTakenError';
+  }
+}
+
 export async function listSparkCodes(): Promise<SparkCode[]> {
   const supabaseClient = getSupabaseClient();
   if (!isSupabaseConfigured() || !supabaseClient) return [];
@@ -46,19 +78,16 @@ export async function listSparkCodesWithStats(): Promise<SparkCodeWithStats[]> {
   if (!codes || codes.length === 0) return [];
 
   const codeIds = codes.map((c: SparkCode) => c.id);
-  const { data: scanCounts, error: scanError } = await supabaseClient
-    .from(SCAN_EVENTS_TABLE)
-    .select('spark_code_id')
-    .in('spark_code_id', codeIds);
-
-  if (scanError) {
-    console.log('[SparkCodes] scan count query error (table may not exist yet):', scanError.message);
-    return codes.map((c: SparkCode) => ({ ...c, total_scans: 0 }));
+  let totals: { spark_code_id: string; total_scans: number }[] = [];
+  try {
+    totals = await trpcClient.scanAnalytics.totals.query({ sparkCodeIds: codeIds });
+  } catch (e) {
+    console.log('[SparkCodes] scan totals query error:', (e as Error)?.message);
   }
 
   const countMap: Record<string, number> = {};
-  (scanCounts ?? []).forEach((row: { spark_code_id: string }) => {
-    countMap[row.spark_code_id] = (countMap[row.spark_code_id] ?? 0) + 1;
+  totals.forEach((row) => {
+    countMap[row.spark_code_id] = row.total_scans;
   });
 
   return codes.map((c: SparkCode) => ({
@@ -85,70 +114,459 @@ export async function getSparkCodeById(id: string): Promise<SparkCode | null> {
   return data as SparkCode;
 }
 
+/** Postgres unique_violation, raised by the unique short code index (supabase/migrations). */
+function isUniqueViolation(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === '23505';
+}
+
+/**
+ * Pass `domain` to check within one domain (vanity slugs may repeat across
+ * domains); leave it undefined to check every domain, as random codes do.
+ * RLS only shows the creator's own codes, so this is an early, friendlier
+ * answer; the unique index decides on insert.
+ */
+async function isShortCodeTaken(
+  supabaseClient: any,
+  shortCode: string,
+  excludeId?: string,
+  domain?: string | null,
+): Promise<boolean> {
+  // Lookups in the redirect are case-insensitive, so uniqueness must be too.
+  let query = supabaseClient
+    .from(SPARK_CODES_TABLE)
+    .select('id')
+    .or(`short_code.ilike.${shortCode},short_code_aliases.cs.{${shortCode}}`)
+    .limit(1);
+  if (excludeId) query = query.neq('id', excludeId);
+  if (domain !== undefined) query = domain ? query.eq('domain', domain) : query.is('domain', null);
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data ?? []).length > 0;
+}
+
 async function ensureUniqueShortCode(supabaseClient: any): Promise<string> {
   let attempts = 0;
   while (attempts < 10) {
     const candidate = generateShortCode();
-    const { data } = await supabaseClient
-      .from(SPARK_CODES_TABLE)
-      .select('id')
-      .eq('short_code', candidate)
-      .maybeSingle();
-    if (!data) return candidate;
+    if (!(await isShortCodeTaken(supabaseClient, candidate))) return candidate;
     attempts++;
   }
   return generateShortCode(12);
 }
 
-export async function createSparkCode(
+async function ensureVanityShortCodeAvailable(
+  supabaseClient: any,
+  value: string,
+  domain: string | null,
+  excludeId?: string,
+): Promise<string> {
+  const problem = validateVanitySlug(value);
+  if (problem) throw new InvalidShortCodeError(problem);
+  const slug = normalizeVanitySlug(value);
+  if (await isShortCodeTaken(supabaseClient, slug, excludeId, domain)) throw new ShortCodeTakenError(slug);
+  return slug;
+}
+
+/** The redirect only follows http(s) fallbacks and deep links without a script scheme. */
+function assertValidLinks(
+  input: Partial<Pick<SparkCode, 'expired_fallback_url' | 'deep_link_ios' | 'deep_link_android'>>,
+) {
+  const problem =
+    validateWebUrl(input.expired_fallback_url) ??
+    validateDeepLinkUrl(input.deep_link_ios) ??
+    validateDeepLinkUrl(input.deep_link_android);
+  if (problem) throw new InvalidLinkError(problem);
+}
+
+/**
+ * Inserts one code. Another creator's code or a concurrent create can still
+ * hold the short code: a vanity slug is then reported as taken, a random
+ * code is re-rolled.
+ */
+async function insertSparkCodeRow(
+  supabaseClient: any,
+  userId: string,
   input: CreateSparkCodeInput,
+  shortCode: string,
 ): Promise<SparkCode> {
-  const supabaseClient = getSupabaseClient();
-  if (!isSupabaseConfigured() || !supabaseClient) throw new SupabaseNotConfiguredError();
-  const userId = getCurrentUserId();
-  if (!userId) throw new AuthRequiredError();
-
-  const shortCode = await ensureUniqueShortCode(supabaseClient);
+  for (let attempt = 0; ; attempt++) {
+    const { data, error } = await supabaseClient
+      .from(SPARK_CODES_TABLE)
+      .insert(toSparkCodeRow(userId, input, shortCode))
+      .select()
+      .single();
+    if (!error) return data as SparkCode;
+    if (!isUniqueViolation(error)) throw error;
+    if (input.short_code || attempt >= 4) throw new ShortCodeTakenError(shortCode);
+    shortCode = generateShortCode(12);
+  }
+}
 
-  const row = {
+function toSparkCodeRow(userId: string, input: CreateSparkCodeInput, shortCode: string) {
+  return {
     user_id: userId,
     code: input.code,
     destination_url: input.destination_url ?? null,
     deep_link_ios: input.deep_link_ios ?? null,
     deep_link_android: input.deep_link_android ?? null,
     short_code: shortCode,
+    short_code_aliases: [],
+    domain: input.domain ?? null,
     is_active: input.is_active ?? true,
     brand_name: input.brand_name ?? null,
     platform: input.platform ?? null,
     status: input.status,
+    activates_at: input.activates_at ?? null,
+    authorization_start: input.authorization_start ?? null,
+    authorization_days: input.authorization_days ?? null,
+    renewed_from_id: input.renewed_from_id ?? null,
     expires_at: input.expires_at ?? null,
+    expired_fallback_url: input.expired_fallback_url ?? null,
     note: input.note ?? null,
+    variants: input.variants ?? [],
+    sticky_variants: input.sticky_variants ?? true,
+    geo_rules: input.geo_rules ?? [],
+    destination_schedule: input.destination_schedule ?? [],
+    query_params: input.query_params ?? {},
+    max_scans: input.max_scans ?? null,
+    desktop_behavior: input.desktop_behavior ?? 'redirect',
+    password_hash: null,
+    bio_visible: input.bio_visible ?? true,
+    bio_position: input.bio_position ?? 0,
+    bio_label: input.bio_label ?? null,
+    thumbnail_url: input.thumbnail_url ?? null,
   };
+}
+
+export async function createSparkCode(
+  input: CreateSparkCodeInput,
+): Promise<SparkCode> {
+  const supabaseClient = getSupabaseClient();
+  if (!isSupabaseConfigured() || !supabaseClient) throw new SupabaseNotConfiguredError();
+  const userId = getCurrentUserId();
+  if (!userId) throw new AuthRequiredError();
+  assertValidLinks(input);
+
+  const shortCode = input.short_code
+    ? await ensureVanityShortCodeAvailable(supabaseClient, input.short_code, input.domain ?? null)
+    : await ensureUniqueShortCode(supabaseClient);
+
   console.log('[SparkCodes] creating with short_code:', shortCode);
+  const created = await insertSparkCodeRow(supabaseClient, userId, input, shortCode);
+  if (!input.password) return created;
+
+  await setSparkCodePassword(created.id, input.password);
+  return (await getSparkCodeById(created.id)) ?? created;
+}
+
+/** Existing codes whose short code or an alias matches any candidate, in one query. */
+async function findTakenShortCodes(
+  supabaseClient: any,
+  candidates: string[],
+): Promise<{ short_code: string; short_code_aliases: string[] | null; domain: string | null }[]> {
+  if (candidates.length === 0) return [];
+  const filters = candidates.map((c) => `short_code.ilike.${c}`);
+  filters.push(`short_code_aliases.ov.{${candidates.join(',')}}`);
   const { data, error } = await supabaseClient
     .from(SPARK_CODES_TABLE)
-    .insert(row)
+    .select('short_code, short_code_aliases, domain')
+    .or(filters.join(','));
+  if (error) throw error;
+  return data ?? [];
+}
+
+/**
+ * Creates many codes with a single insert. Vanity slugs are checked and
+ * random short codes generated for the whole batch at once, re-rolling only
+ * the ones that collide. Rows with a taken slug are skipped, not fatal.
+ */
+export async function bulkCreateSparkCodes(
+  inputs: CreateSparkCodeInput[],
+): Promise<BulkCreateSparkCodesResult> {
+  const supabaseClient = getSupabaseClient();
+  if (!isSupabaseConfigured() || !supabaseClient) throw new SupabaseNotConfiguredError();
+  const userId = getCurrentUserId();
+  if (!userId) throw new AuthRequiredError();
+  if (inputs.length === 0) return { created: [], skipped: [] };
+
+  const skipped: BulkCreateSparkCodesResult['skipped'] = [];
+  const shortCodes: (string | null)[] = inputs.map((input) =>
+    input.short_code ? normalizeVanitySlug(input.short_code) : null,
+  );
+
+  const vanity = shortCodes.filter((c): c is string => !!c);
+  const takenVanity = new Set(
+    (await findTakenShortCodes(supabaseClient, vanity)).flatMap((row) =>
+      [row.short_code, ...(row.short_code_aliases ?? [])].map((c) => `${row.domain ?? ''}|${c.toLowerCase()}`),
+    ),
+  );
+  inputs.forEach((input, index) => {
+    const slug = shortCodes[index];
+    if (slug && takenVanity.has(`${input.domain ?? ''}|${slug}`)) {
+      skipped.push({ index, reason: new ShortCodeTakenError(slug).message });
+    }
+  });
+
+  // Random codes are unique across every domain and case-insensitively,
+  // including against the slugs in this batch.
+  const used = new Set(vanity);
+  let pending = inputs.map((_, index) => index).filter((index) => !shortCodes[index]);
+  for (let round = 0; pending.length > 0; round++) {
+    const length = round < 5 ? 8 : 12;
+    for (const index of pending) {
+      let candidate = generateShortCode(length);
+      while (used.has(candidate.toLowerCase())) candidate = generateShortCode(length);
+      shortCodes[index] = candidate;
+      used.add(candidate.toLowerCase());
+    }
+    const taken = new Set(
+      (await findTakenShortCodes(supabaseClient, pending.map((index) => shortCodes[index]!))).flatMap((row) =>
+        [row.short_code, ...(row.short_code_aliases ?? [])].map((c) => c.toLowerCase()),
+      ),
+    );
+    pending = pending.filter((index) => taken.has(shortCodes[index]!.toLowerCase()));
+    if (round >= 9 && pending.length > 0) throw new Error('Could not generate unique short links. Try again.');
+  }
+
+  const skippedIndexes = new Set(skipped.map((s) => s.index));
+  const pendingRows = inputs
+    .map((input, index) => ({ input, index }))
+    .filter(({ index }) => !skippedIndexes.has(index));
+  if (pendingRows.length === 0) return { created: [], skipped };
+
+  console.log('[SparkCodes] bulk creating', pendingRows.length, 'codes');
+  const rows = pendingRows.map(({ input, index }) => toSparkCodeRow(userId, input, shortCodes[index]!));
+  const { data, error } = await supabaseClient.from(SPARK_CODES_TABLE).insert(rows).select();
+  if (!error) return { created: (data ?? []) as SparkCode[], skipped };
+  if (!isUniqueViolation(error)) throw error;
+
+  // A short code RLS kept hidden is taken: the batch was rolled back, so
+  // insert row by row and skip only the rows that collide.
+  console.log('[SparkCodes] bulk insert hit a taken short code, inserting one by one');
+  const created: SparkCode[] = [];
+  for (const { input, index } of pendingRows) {
+    try {
+      created.push(await insertSparkCodeRow(supabaseClient, userId, input, shortCodes[index]!));
+    } catch (e) {
+      if (!(e instanceof ShortCodeTakenError)) throw e;
+      skipped.push({ index, reason: e.message });
+    }
+  }
+  skipped.sort((a, b) => a.index - b.index);
+  return { created, skipped };
+}
+
+/** Sets or clears (`null`) the access password; the backend stores only a hash. */
+export async function setSparkCodePassword(id: string, password: string | null): Promise<void> {
+  if (!isSupabaseConfigured()) throw new SupabaseNotConfiguredError();
+  if (!getCurrentUserId()) throw new AuthRequiredError();
+  await trpcClient.sparkCodeAccess.setPassword.mutate({ sparkCodeId: id, password });
+}
+
+export async function updateSparkCode(
+  id: string,
+  updates: Partial<
+    Omit<
+      SparkCode,
+      | 'id'
+      | 'user_id'
+      | 'created_at'
+      | 'short_code'
+      | 'short_code_aliases'
+      | 'password_hash'
+      | 'suspicious_traffic_at'
+      | 'link_health'
+      | 'sent_to_brand_at'
+    >
+  >,
+): Promise<SparkCode> {
+  const supabaseClient = getSupabaseClient();
+  if (!isSupabaseConfigured() || !supabaseClient) throw new SupabaseNotConfiguredError();
+  const userId = getCurrentUserId();
+  if (!userId) throw new AuthRequiredError();
+  assertValidLinks(updates);
+  const { data, error } = await supabaseClient
+    .from(SPARK_CODES_TABLE)
+    .update(updates)
+    .eq('id', id)
+    .eq('user_id', userId)
     .select()
     .single();
   if (error) throw error;
   return data as SparkCode;
 }
 
-export async function updateSparkCode(
+/**
+ * Switches a code to a new vanity slug. The previous short code is kept as an
+ * alias so links that are already printed or shared keep redirecting.
+ */
+export async function changeShortCode(id: string, value: string): Promise<SparkCode> {
+  const supabaseClient = getSupabaseClient();
+  if (!isSupabaseConfigured() || !supabaseClient) throw new SupabaseNotConfiguredError();
+  const userId = getCurrentUserId();
+  if (!userId) throw new AuthRequiredError();
+
+  const current = await getSparkCodeById(id);
+  if (!current) throw new Error('Spark code not found.');
+
+  const slug = await ensureVanityShortCodeAvailable(supabaseClient, value, current.domain ?? null, id);
+  if (slug === current.short_code) return current;
+
+  const aliases = [...(current.short_code_aliases ?? []), current.short_code].filter(
+    (alias, i, all) => alias.toLowerCase() !== slug && all.indexOf(alias) === i,
+  );
+
+  const { data, error } = await supabaseClient
+    .from(SPARK_CODES_TABLE)
+    .update({ short_code: slug, short_code_aliases: aliases })
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select()
+    .single();
+  if (isUniqueViolation(error)) throw new ShortCodeTakenError(slug);
+  if (error) throw error;
+  return data as SparkCode;
+}
+
+/**
+ * Starts a fresh authorization window for a code. TikTok issues a new Spark
+ * code per authorization, so the renewal is a copy of the original with the
+ * new code, its own short link, and `renewed_from_id` pointing back. The
+ * original keeps its history and expires on schedule. Access passwords are
+ * not copied; set one again on the renewal if needed.
+ */
+export async function renewSparkCode(
   id: string,
-  updates: Partial<Omit<SparkCode, 'id' | 'user_id' | 'created_at' | 'short_code'>>,
+  renewal: { code: string; authorization_start: string; authorization_days: SparkAuthorizationDays },
 ): Promise<SparkCode> {
+  const current = await getSparkCodeById(id);
+  if (!current) throw new Error('Spark code not found.');
+
+  const startsLater = new Date(renewal.authorization_start) > new Date();
+  console.log('[SparkCodes] renewing', id);
+  return createSparkCode({
+    code: renewal.code,
+    short_code: null,
+    domain: current.domain,
+    destination_url: current.destination_url,
+    deep_link_ios: current.deep_link_ios,
+    deep_link_android: current.deep_link_android,
+    // A window that starts later waits for the status job, like a scheduled start.
+    is_active: !startsLater,
+    brand_name: current.brand_name,
+    platform: current.platform,
+    status: startsLater ? 'draft' : 'active',
+    authorization_start: renewal.authorization_start,
+    authorization_days: renewal.authorization_days,
+    renewed_from_id: current.id,
+    activates_at: startsLater ? new Date(renewal.authorization_start).toISOString() : null,
+    expires_at: deriveAuthorizationExpiry(renewal.authorization_start, renewal.authorization_days),
+    expired_fallback_url: current.expired_fallback_url,
+    note: current.note,
+    variants: current.variants,
+    sticky_variants: current.sticky_variants,
+    geo_rules: current.geo_rules,
+    destination_schedule: current.destination_schedule,
+    query_params: current.query_params,
+    max_scans: current.max_scans,
+    desktop_behavior: current.desktop_behavior,
+    bio_visible: current.bio_visible,
+    bio_position: current.bio_position,
+    bio_label: current.bio_label,
+    thumbnail_url: current.thumbnail_url,
+  });
+}
+
+/** Codes renewed from this one, newest first. */
+export async function listRenewals(id: string): Promise<SparkCode[]> {
+  const supabaseClient = getSupabaseClient();
+  if (!isSupabaseConfigured() || !supabaseClient) return [];
+  const userId = getCurrentUserId();
+  if (!userId) return [];
+  const { data, error } = await supabaseClient
+    .from(SPARK_CODES_TABLE)
+    .select('*')
+    .eq('renewed_from_id', id)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return (data ?? []) as SparkCode[];
+}
+
+/** Saves link-in-bio order, visibility, labels and thumbnails for several codes at once. */
+export async function saveBioEntries(entries: BioEntryUpdate[]): Promise<void> {
   const supabaseClient = getSupabaseClient();
   if (!isSupabaseConfigured() || !supabaseClient) throw new SupabaseNotConfiguredError();
   const userId = getCurrentUserId();
   if (!userId) throw new AuthRequiredError();
+  const results = await Promise.all(
+    entries.map(({ id, ...fields }) =>
+      supabaseClient.from(SPARK_CODES_TABLE).update(fields).eq('id', id).eq('user_id', userId),
+    ),
+  );
+  const failed = results.find((r) => r.error);
+  if (failed?.error) throw failed.error;
+}
+
+/** Re-checks destination links now; one code, or every active code when omitted. */
+export async function checkLinkHealth(sparkCodeId?: string): Promise<number> {
+  if (!isSupabaseConfigured()) throw new SupabaseNotConfiguredError();
+  if (!getCurrentUserId()) throw new AuthRequiredError();
+  const { broken } = await trpcClient.linkHealth.check.mutate({ sparkCodeId });
+  return broken;
+}
+
+export async function getStatusHistory(sparkCodeId: string): Promise<SparkCodeStatusChange[]> {
+  const supabaseClient = getSupabaseClient();
+  if (!isSupabaseConfigured() || !supabaseClient) return [];
+  const userId = getCurrentUserId();
+  if (!userId) return [];
+  const { data, error } = await supabaseClient
+    .from(STATUS_HISTORY_TABLE)
+    .select('*')
+    .eq('spark_code_id', sparkCodeId)
+    .eq('user_id', userId)
+    .order('changed_at', { ascending: false })
+    .limit(20);
+  if (error) throw error;
+  return (data ?? []) as SparkCodeStatusChange[];
+}
+
+/**
+ * Records that the code was sent to the brand. A draft moves to
+ * `sent_to_brand` with a status history entry; codes further along keep their
+ * status and only get the new timestamp.
+ */
+export async function markSentToBrand(id: string): Promise<SparkCode> {
+  const supabaseClient = getSupabaseClient();
+  if (!isSupabaseConfigured() || !supabaseClient) throw new SupabaseNotConfiguredError();
+  const userId = getCurrentUserId();
+  if (!userId) throw new AuthRequiredError();
+
+  const current = await getSparkCodeById(id);
+  if (!current) throw new Error('Spark code not found.');
+
+  const sentAt = new Date().toISOString();
+  const flipStatus = current.status === 'draft';
   const { data, error } = await supabaseClient
     .from(SPARK_CODES_TABLE)
-    .update(updates)
+    .update(flipStatus ? { status: 'sent_to_brand', sent_to_brand_at: sentAt } : { sent_to_brand_at: sentAt })
     .eq('id', id)
     .eq('user_id', userId)
     .select()
     .single();
   if (error) throw error;
+
+  if (flipStatus) {
+    const { error: historyError } = await supabaseClient.from(STATUS_HISTORY_TABLE).insert({
+      spark_code_id: id,
+      user_id: userId,
+      from_status: current.status,
+      to_status: 'sent_to_brand',
+      reason: 'manual',
+      changed_at: sentAt,
+    });
+    if (historyError) console.log('[SparkCodes] failed to write status history:', historyError.message);
+  }
   return data as SparkCode;
 }
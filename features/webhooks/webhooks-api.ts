@@ -0,0 +1,28 @@
+import { Webhook, WebhookDelivery } from '@/types/webhooks';
+import { trpcClient } from '@/lib/trpc';
+
+export async function listWebhooks(): Promise<Webhook[]> {
+  return trpcClient.webhooks.list.query();
+}
+
+export async function createWebhook(url: string): Promise<Webhook> {
+  return trpcClient.webhooks.create.mutate({ url: url.trim() });
+}
+
+export async function setWebhookActive(webhookId: string, isActive: boolean): Promise<void> {
+  await trpcClient.webhooks.setActive.mutate({ webhookId, isActive });
+}
+
+export async function deleteWebhook(webhookId: string): Promise<void> {
+  await trpcClient.webhooks.remove.mutate({ webhookId });
+}
+
+export async function listWebhookDeliveries(webhookId: string): Promise<WebhookDelivery[]> {
+  return trpcClient.webhooks.deliveries.query({ webhookId });
+}
+
+/** Sends a sample `test` event; resolves to whether the endpoint answered 2xx. */
+export async function sendTestWebhook(webhookId: string): Promise<boolean> {
+  const { delivered } = await trpcClient.webhooks.sendTest.mutate({ webhookId });
+  return delivered;
+}
@@ -0,0 +1,99 @@
+import { getItem, setItem } from '@/lib/storage';
+import { formatAuthorizationWindow } from '@/lib/spark-authorization';
+import { Contract } from '@/types/contracts';
+import { SparkCode } from '@/types/spark-codes';
+
+export const BRAND_MESSAGE_TEMPLATE_KEY = 'brand_message_template';
+
+export type BrandMessageTemplate = {
+  subject: string;
+  body: string;
+};
+
+/** Placeholders a template can use, with what each one is replaced by. */
+export const BRAND_MESSAGE_PLACEHOLDERS: { key: string; description: string }[] = [
+  { key: 'contact_name', description: 'Brand contact from the matching contract' },
+  { key: 'brand', description: 'Brand name' },
+  { key: 'code', description: 'Spark code' },
+  { key: 'short_link', description: 'Your short link' },
+  { key: 'video_url', description: 'Video / destination URL' },
+  { key: 'authorization_window', description: 'Authorization length and dates' },
+  { key: 'creator_name', description: 'Your first name' },
+];
+
+export const DEFAULT_BRAND_MESSAGE_TEMPLATE: BrandMessageTemplate = {
+  subject: 'Spark code for {brand}',
+  body: [
+    'Hi {contact_name},',
+    '',
+    'Here is the Spark code for the video: {code}',
+    '',
+    'Video: {video_url}',
+    'Link: {short_link}',
+    'Authorization: {authorization_window}',
+    '',
+    'Let me know if you need anything else.',
+    '',
+    '{creator_name}',
+  ].join('\n'),
+};
+
+export async function getBrandMessageTemplate(): Promise<BrandMessageTemplate> {
+  const stored = await getItem<Partial<BrandMessageTemplate>>(BRAND_MESSAGE_TEMPLATE_KEY);
+  return { ...DEFAULT_BRAND_MESSAGE_TEMPLATE, ...stored };
+}
+
+export async function saveBrandMessageTemplate(template: BrandMessageTemplate): Promise<void> {
+  await setItem(BRAND_MESSAGE_TEMPLATE_KEY, template);
+}
+
+function normalizeBrand(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * The contract for this code's brand, matched on brand name. Open contracts
+ * win over paid ones, then the most recently created.
+ */
+export function findBrandContract(sparkCode: SparkCode, contracts: Contract[]): Contract | null {
+  if (!sparkCode.brand_name) return null;
+  const brand = normalizeBrand(sparkCode.brand_name);
+  const matches = contracts
+    .filter((c) => normalizeBrand(c.brand_name) === brand)
+    .sort((a, b) => {
+      const paidOrder = Number(a.status === 'paid') - Number(b.status === 'paid');
+      return paidOrder !== 0 ? paidOrder : b.created_at.localeCompare(a.created_at);
+    });
+  return matches[0] ?? null;
+}
+
+export type BrandMessageValues = {
+  sparkCode: SparkCode;
+  shortLink: string | null;
+  contract: Contract | null;
+  creatorName: string | null;
+};
+
+/** Replaces `{placeholder}`s; unknown placeholders are left as typed. */
+export function fillBrandMessage(template: BrandMessageTemplate, values: BrandMessageValues): BrandMessageTemplate {
+  const { sparkCode, shortLink, contract, creatorName } = values;
+  const replacements: Record<string, string> = {
+    contact_name: contract?.contact_name ?? 'there',
+    brand: sparkCode.brand_name ?? contract?.brand_name ?? '',
+    code: sparkCode.code,
+    short_link: shortLink ?? '',
+    video_url: sparkCode.destination_url ?? '',
+    authorization_window: formatAuthorizationWindow(sparkCode) ?? 'not set',
+    creator_name: creatorName ?? '',
+  };
+  const fill = (text: string) =>
+    text.replace(/\{(\w+)\}/g, (match, key: string) => replacements[key] ?? match).trim();
+  return { subject: fill(template.subject), body: fill(template.body) };
+}
+
+/** The recipient is encoded too, so a stray `?` or `&` in it can't add headers. */
+export function buildMailtoUrl(to: string | null, message: BrandMessageTemplate): string {
+  const recipient = encodeURIComponent(to?.trim() ?? '').replace(/%40/g, '@');
+  const params = `subject=${encodeURIComponent(message.subject)}&body=${encodeURIComponent(message.body)}`;
+  return `mailto:${recipient}?${params}`;
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'bun:test';
+
+import { parseCsv, toCsvRow } from './csv';
+
+describe('toCsvRow', () => {
+  it('quotes only cells that need it', () => {
+    expect(toCsvRow(['plain', 42, true])).toBe('plain,42,true');
+    expect(toCsvRow(['a,b', 'say "hi"', 'two\nlines', 'cr\rhere'])).toBe('"a,b","say ""hi""","two\nlines","cr\rhere"');
+  });
+
+  it('writes null and undefined as empty cells', () => {
+    expect(toCsvRow([null, undefined, ''])).toBe(',,');
+  });
+});
+
+describe('parseCsv', () => {
+  it('reads quoted commas, doubled quotes and line breaks', () => {
+    expect(parseCsv('code,note\nABC,"Summer, ""big"" sale\nround two"\n')).toEqual([
+      ['code', 'note'],
+      ['ABC', 'Summer, "big" sale\nround two'],
+    ]);
+  });
+
+  it('handles CRLF, a BOM and a missing final newline', () => {
+    expect(parseCsv('\uFEFFa,b\r\n1,2')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+
+  it('drops blank lines but keeps empty cells', () => {
+    expect(parseCsv('a,b\n\n , \n1,\n')).toEqual([
+      ['a', 'b'],
+      ['1', ''],
+    ]);
+  });
+
+  it('reads back what toCsvRow writes', () => {
+    const rows = [
+      ['code', 'note'],
+      ['X1', 'has, comma'],
+      ['X2', 'has "quotes"\r\nand a break'],
+    ];
+    expect(parseCsv(rows.map(toCsvRow).join('\r\n'))).toEqual(rows);
+  });
+});
@@ -0,0 +1,23 @@
+export function normalizeDomain(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/^https?:\/\//, '')
+    .replace(/\/.*$/, '')
+    .replace(/\.$/, '');
+}
+
+/** Returns a human-readable problem with the hostname, or null when it looks valid. */
+export function validateDomain(value: string): string | null {
+  const domain = normalizeDomain(value);
+  if (!domain) return 'Enter a domain like go.yourbrand.com.';
+  if (domain.length > 253) return 'That domain is too long.';
+  const labels = domain.split('.');
+  if (labels.length < 2) return 'Enter a full domain like go.yourbrand.com.';
+  const validLabel = /^[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/;
+  if (!labels.every((label) => validLabel.test(label))) {
+    return 'Use letters, numbers, hyphens and dots only.';
+  }
+  if (/^\d+$/.test(labels[labels.length - 1])) return 'Enter a domain name, not an IP address.';
+  return null;
+}
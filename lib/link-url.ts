@@ -0,0 +1,32 @@
+/**
+ * Which links the redirect may send a visitor to. Web destinations and
+ * fallbacks must be http(s); app deep links may use the app's own
+ * `scheme://` but never one the browser runs or reads itself.
+ */
+
+const WEB_URL_PATTERN = /^https?:\/\/\S+$/i;
+const DEEP_LINK_PATTERN = /^([a-z][a-z0-9+.-]*):\/\/\S*$/i;
+const UNSAFE_DEEP_LINK_SCHEMES = new Set(['javascript', 'vbscript', 'data', 'file', 'blob', 'about', 'filesystem']);
+
+export function isWebUrl(value: string): boolean {
+  return WEB_URL_PATTERN.test(value.trim());
+}
+
+export function isDeepLinkUrl(value: string): boolean {
+  const match = DEEP_LINK_PATTERN.exec(value.trim());
+  return !!match && !UNSAFE_DEEP_LINK_SCHEMES.has(match[1].toLowerCase());
+}
+
+/** Returns a human-readable problem with a web link, or null when it is empty or valid. */
+export function validateWebUrl(value: string | null | undefined): string | null {
+  const url = value?.trim();
+  if (!url || isWebUrl(url)) return null;
+  return 'Enter a full link starting with https://';
+}
+
+/** Returns a human-readable problem with an app deep link, or null when it is empty or valid. */
+export function validateDeepLinkUrl(value: string | null | undefined): string | null {
+  const url = value?.trim();
+  if (!url || isDeepLinkUrl(url)) return null;
+  return 'Enter an app link like myapp://content/123';
+}
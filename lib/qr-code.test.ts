@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'bun:test';
+
+import { encodeQrCode, getQrLogoBox, QrCode, QrCodeDataTooLongError, qrCodeToPath, qrCodeToSvgString } from './qr-code';
+
+const FORMAT_ECL_BITS = { L: 1, M: 0, Q: 3, H: 2 };
+
+/** The 15 format bits next to the top-left finder, unmasked. */
+function readFormatBits(qr: QrCode): number {
+  const at = (x: number, y: number) => (qr.modules[y][x] ? 1 : 0);
+  const bits = [
+    ...[0, 1, 2, 3, 4, 5].map((y) => at(8, y)),
+    at(8, 7),
+    at(8, 8),
+    at(7, 8),
+    ...[9, 10, 11, 12, 13, 14].map((i) => at(14 - i, 8)),
+  ];
+  return bits.reduce((word, bit, i) => word | (bit << i), 0) ^ 0x5412;
+}
+
+function hasFinderAt(qr: QrCode, left: number, top: number): boolean {
+  for (let y = 0; y < 7; y++) {
+    for (let x = 0; x < 7; x++) {
+      const ring = Math.max(Math.abs(x - 3), Math.abs(y - 3));
+      if (qr.modules[top + y][left + x] !== (ring !== 2)) return false;
+    }
+  }
+  return true;
+}
+
+describe('encodeQrCode', () => {
+  it('picks the smallest version that fits', () => {
+    expect(encodeQrCode('https://a.co/x', 'L').size).toBe(21);
+    expect(encodeQrCode('https://creatorshelf.app/api/r/summer-sale-2026', 'M').size).toBe(33);
+    expect(encodeQrCode('https://a.co/x', 'H').size).toBeGreaterThan(21);
+  });
+
+  it('draws the finder patterns and timing lines', () => {
+    const qr = encodeQrCode('https://creatorshelf.app/api/r/abc123');
+    expect(hasFinderAt(qr, 0, 0)).toBe(true);
+    expect(hasFinderAt(qr, qr.size - 7, 0)).toBe(true);
+    expect(hasFinderAt(qr, 0, qr.size - 7)).toBe(true);
+    for (let i = 8; i < qr.size - 8; i++) {
+      expect(qr.modules[6][i]).toBe(i % 2 === 0);
+      expect(qr.modules[i][6]).toBe(i % 2 === 0);
+    }
+  });
+
+  it('writes valid format bits for the requested error correction', () => {
+    for (const ecl of ['L', 'M', 'Q', 'H'] as const) {
+      const format = readFormatBits(encodeQrCode('https://creatorshelf.app/api/r/abc123', ecl));
+      expect(format >>> 13).toBe(FORMAT_ECL_BITS[ecl]);
+      // The format word is a BCH(15,5) codeword: no remainder by the generator.
+      let rem = format;
+      for (let i = 14; i >= 10; i--) {
+        if ((rem >>> i) & 1) rem ^= 0x537 << (i - 10);
+      }
+      expect(rem).toBe(0);
+    }
+  });
+
+  it('is deterministic and encodes UTF-8 text', () => {
+    expect(encodeQrCode('Café ☕')).toEqual(encodeQrCode('Café ☕'));
+    expect(encodeQrCode('Café ☕')).not.toEqual(encodeQrCode('Cafe ☕'));
+  });
+
+  it('rejects text beyond version 40', () => {
+    expect(() => encodeQrCode('x'.repeat(3000), 'L')).toThrow(QrCodeDataTooLongError);
+    expect(encodeQrCode('x'.repeat(2953), 'L').size).toBe(177);
+  });
+});
+
+describe('qrCodeToSvgString', () => {
+  const qr = encodeQrCode('https://creatorshelf.app/api/r/abc123');
+
+  it('sizes the view box with the quiet zone', () => {
+    const svg = qrCodeToSvgString(qr, { margin: 2 });
+    expect(svg).toContain(`viewBox="0 0 ${qr.size + 4} ${qr.size + 4}"`);
+    expect(svg).toContain(`d="${qrCodeToPath(qr, 2)}"`);
+    expect(qrCodeToPath(qr, 2).startsWith('M2,2h1v1h-1z')).toBe(true);
+  });
+
+  it('escapes colours and the logo URI', () => {
+    const svg = qrCodeToSvgString(qr, { foreground: '"red"', logoUri: 'https://x.co/a.png?b=1&c=<2>' });
+    expect(svg).toContain('fill="&quot;red&quot;"');
+    expect(svg).toContain('href="https://x.co/a.png?b=1&amp;c=&lt;2&gt;"');
+  });
+
+  it('leaves the logo out unless one is given', () => {
+    expect(qrCodeToSvgString(qr)).not.toContain('<image');
+  });
+});
+
+describe('getQrLogoBox', () => {
+  it('centres the logo and clamps its scale', () => {
+    const qr = encodeQrCode('https://creatorshelf.app/api/r/abc123', 'H');
+    const box = getQrLogoBox(qr, 4, 0.9);
+    expect(box.size).toBe(Math.round(qr.size * 0.3));
+    expect(box.x).toBe(4 + (qr.size - box.size) / 2);
+    expect(box.y).toBe(box.x);
+    expect(getQrLogoBox(qr, 4, 0).size).toBe(Math.round(qr.size * 0.1));
+  });
+});
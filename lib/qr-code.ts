@@ -0,0 +1,449 @@
+/**
+ * Minimal QR code encoder (byte mode, versions 1–40, all four error-correction
+ * levels). Pure TypeScript with no native or DOM dependencies so it can run in
+ * the app and on the backend alike.
+ */
+
+export type QrErrorCorrectionLevel = 'L' | 'M' | 'Q' | 'H';
+
+export type QrCode = {
+  size: number;
+  /** `modules[y][x]` is true for a dark module. */
+  modules: boolean[][];
+};
+
+export class QrCodeDataTooLongError extends Error {
+  constructor() {
+    super('Text is too long to fit in a QR code.');
+    this.name = 'QrCodeDataTooLongError';
+  }
+}
+
+const ECL_ORDINAL: Record<QrErrorCorrectionLevel, number> = { L: 0, M: 1, Q: 2, H: 3 };
+const ECL_FORMAT_BITS: Record<QrErrorCorrectionLevel, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+const ECC_CODEWORDS_PER_BLOCK: number[][] = [
+  [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+];
+
+const NUM_ERROR_CORRECTION_BLOCKS: number[][] = [
+  [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+];
+
+function getBit(value: number, index: number): boolean {
+  return ((value >>> index) & 1) !== 0;
+}
+
+function toUtf8Bytes(text: string): number[] {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const cp = char.codePointAt(0) ?? 0;
+    if (cp < 0x80) {
+      bytes.push(cp);
+    } else if (cp < 0x800) {
+      bytes.push(0xc0 | (cp >> 6), 0x80 | (cp & 0x3f));
+    } else if (cp < 0x10000) {
+      bytes.push(0xe0 | (cp >> 12), 0x80 | ((cp >> 6) & 0x3f), 0x80 | (cp & 0x3f));
+    } else {
+      bytes.push(
+        0xf0 | (cp >> 18),
+        0x80 | ((cp >> 12) & 0x3f),
+        0x80 | ((cp >> 6) & 0x3f),
+        0x80 | (cp & 0x3f),
+      );
+    }
+  }
+  return bytes;
+}
+
+function getNumRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+function getNumDataCodewords(version: number, ecl: QrErrorCorrectionLevel): number {
+  const o = ECL_ORDINAL[ecl];
+  return (
+    Math.floor(getNumRawDataModules(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[o][version] * NUM_ERROR_CORRECTION_BLOCKS[o][version]
+  );
+}
+
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result: number[] = new Array(degree - 1).fill(0);
+  result.push(1);
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result: number[] = divisor.map(() => 0);
+  for (const b of data) {
+    const factor = b ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coef, i) => {
+      result[i] ^= gfMultiply(coef, factor);
+    });
+  }
+  return result;
+}
+
+function addEccAndInterleave(data: number[], version: number, ecl: QrErrorCorrectionLevel): number[] {
+  const o = ECL_ORDINAL[ecl];
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[o][version];
+  const blockEccLen = ECC_CODEWORDS_PER_BLOCK[o][version];
+  const rawCodewords = Math.floor(getNumRawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLen = Math.floor(rawCodewords / numBlocks);
+
+  const divisor = reedSolomonDivisor(blockEccLen);
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const dat = data.slice(k, k + shortBlockLen - blockEccLen + (i < numShortBlocks ? 0 : 1));
+    k += dat.length;
+    const ecc = reedSolomonRemainder(dat, divisor);
+    if (i < numShortBlocks) dat.push(0);
+    blocks.push(dat.concat(ecc));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLen - blockEccLen || j >= numShortBlocks) result.push(block[i]);
+    });
+  }
+  return result;
+}
+
+function buildDataCodewords(bytes: number[], version: number, ecl: QrErrorCorrectionLevel): number[] {
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+
+  append(0x4, 4);
+  append(bytes.length, version <= 9 ? 8 : 16);
+  bytes.forEach((b) => append(b, 8));
+
+  const capacityBits = getNumDataCodewords(version, ecl) * 8;
+  append(0, Math.min(4, capacityBits - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) append(pad, 8);
+
+  const codewords: number[] = new Array(bits.length / 8).fill(0);
+  bits.forEach((bit, i) => {
+    codewords[i >>> 3] |= bit << (7 - (i & 7));
+  });
+  return codewords;
+}
+
+class QrMatrix {
+  readonly size: number;
+  readonly modules: boolean[][];
+  readonly isFunction: boolean[][];
+
+  constructor(readonly version: number, readonly ecl: QrErrorCorrectionLevel) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array(this.size).fill(false));
+    this.isFunction = Array.from({ length: this.size }, () => new Array(this.size).fill(false));
+  }
+
+  setFunctionModule(x: number, y: number, isDark: boolean) {
+    this.modules[y][x] = isDark;
+    this.isFunction[y][x] = true;
+  }
+
+  drawFunctionPatterns() {
+    for (let i = 0; i < this.size; i++) {
+      this.setFunctionModule(6, i, i % 2 === 0);
+      this.setFunctionModule(i, 6, i % 2 === 0);
+    }
+
+    this.drawFinderPattern(3, 3);
+    this.drawFinderPattern(this.size - 4, 3);
+    this.drawFinderPattern(3, this.size - 4);
+
+    const positions = this.getAlignmentPatternPositions();
+    const numAlign = positions.length;
+    for (let i = 0; i < numAlign; i++) {
+      for (let j = 0; j < numAlign; j++) {
+        const isCorner =
+          (i === 0 && j === 0) || (i === 0 && j === numAlign - 1) || (i === numAlign - 1 && j === 0);
+        if (!isCorner) this.drawAlignmentPattern(positions[i], positions[j]);
+      }
+    }
+
+    this.drawFormatBits(0);
+    this.drawVersion();
+  }
+
+  private drawFinderPattern(x: number, y: number) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const dist = Math.max(Math.abs(dx), Math.abs(dy));
+        const xx = x + dx;
+        const yy = y + dy;
+        if (xx >= 0 && xx < this.size && yy >= 0 && yy < this.size) {
+          this.setFunctionModule(xx, yy, dist !== 2 && dist !== 4);
+        }
+      }
+    }
+  }
+
+  private drawAlignmentPattern(x: number, y: number) {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        this.setFunctionModule(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    }
+  }
+
+  private getAlignmentPatternPositions(): number[] {
+    if (this.version === 1) return [];
+    const numAlign = Math.floor(this.version / 7) + 2;
+    const step = Math.floor((this.version * 8 + numAlign * 3 + 5) / (numAlign * 4 - 4)) * 2;
+    const result = [6];
+    for (let pos = this.size - 7; result.length < numAlign; pos -= step) {
+      result.splice(1, 0, pos);
+    }
+    return result;
+  }
+
+  drawFormatBits(mask: number) {
+    const data = (ECL_FORMAT_BITS[this.ecl] << 3) | mask;
+    let rem = data;
+    for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+    const bits = ((data << 10) | rem) ^ 0x5412;
+
+    for (let i = 0; i <= 5; i++) this.setFunctionModule(8, i, getBit(bits, i));
+    this.setFunctionModule(8, 7, getBit(bits, 6));
+    this.setFunctionModule(8, 8, getBit(bits, 7));
+    this.setFunctionModule(7, 8, getBit(bits, 8));
+    for (let i = 9; i < 15; i++) this.setFunctionModule(14 - i, 8, getBit(bits, i));
+
+    for (let i = 0; i < 8; i++) this.setFunctionModule(this.size - 1 - i, 8, getBit(bits, i));
+    for (let i = 8; i < 15; i++) this.setFunctionModule(8, this.size - 15 + i, getBit(bits, i));
+    this.setFunctionModule(8, this.size - 8, true);
+  }
+
+  private drawVersion() {
+    if (this.version < 7) return;
+    let rem = this.version;
+    for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+    const bits = (this.version << 12) | rem;
+    for (let i = 0; i < 18; i++) {
+      const bit = getBit(bits, i);
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunctionModule(a, b, bit);
+      this.setFunctionModule(b, a, bit);
+    }
+  }
+
+  drawCodewords(data: number[]) {
+    let i = 0;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5;
+      for (let vert = 0; vert < this.size; vert++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? this.size - 1 - vert : vert;
+          if (!this.isFunction[y][x] && i < data.length * 8) {
+            this.modules[y][x] = getBit(data[i >>> 3], 7 - (i & 7));
+            i++;
+          }
+        }
+      }
+    }
+  }
+
+  applyMask(mask: number) {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        let invert: boolean;
+        switch (mask) {
+          case 0: invert = (x + y) % 2 === 0; break;
+          case 1: invert = y % 2 === 0; break;
+          case 2: invert = x % 3 === 0; break;
+          case 3: invert = (x + y) % 3 === 0; break;
+          case 4: invert = (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0; break;
+          case 5: invert = ((x * y) % 2) + ((x * y) % 3) === 0; break;
+          case 6: invert = (((x * y) % 2) + ((x * y) % 3)) % 2 === 0; break;
+          default: invert = (((x + y) % 2) + ((x * y) % 3)) % 2 === 0; break;
+        }
+        if (!this.isFunction[y][x] && invert) this.modules[y][x] = !this.modules[y][x];
+      }
+    }
+  }
+
+  penaltyScore(): number {
+    const size = this.size;
+    const m = this.modules;
+    let penalty = 0;
+
+    const lineAt = (index: number, horizontal: boolean) =>
+      Array.from({ length: size }, (_, i) => (horizontal ? m[index][i] : m[i][index]));
+
+    const finderLike = [true, false, true, true, true, false, true];
+    for (let index = 0; index < size; index++) {
+      for (const horizontal of [true, false]) {
+        const line = lineAt(index, horizontal);
+
+        let runLength = 1;
+        for (let i = 1; i <= size; i++) {
+          if (i < size && line[i] === line[i - 1]) {
+            runLength++;
+          } else {
+            if (runLength >= 5) penalty += runLength - 2;
+            runLength = 1;
+          }
+        }
+
+        for (let i = 0; i + 7 <= size; i++) {
+          if (!finderLike.every((v, k) => line[i + k] === v)) continue;
+          const lightBefore = Array.from({ length: 4 }, (_, k) => i - 1 - k).every((p) => p < 0 || !line[p]);
+          const lightAfter = Array.from({ length: 4 }, (_, k) => i + 7 + k).every((p) => p >= size || !line[p]);
+          if (lightBefore || lightAfter) penalty += 40;
+        }
+      }
+    }
+
+    for (let y = 0; y < size - 1; y++) {
+      for (let x = 0; x < size - 1; x++) {
+        const c = m[y][x];
+        if (c === m[y][x + 1] && c === m[y + 1][x] && c === m[y + 1][x + 1]) penalty += 3;
+      }
+    }
+
+    let dark = 0;
+    m.forEach((row) => row.forEach((v) => { if (v) dark++; }));
+    const total = size * size;
+    const k = Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1;
+    penalty += k * 10;
+
+    return penalty;
+  }
+}
+
+export function encodeQrCode(text: string, ecl: QrErrorCorrectionLevel = 'M'): QrCode {
+  const bytes = toUtf8Bytes(text);
+
+  let version = 1;
+  for (; version <= 40; version++) {
+    const countBits = version <= 9 ? 8 : 16;
+    if (bytes.length < 1 << countBits && 4 + countBits + bytes.length * 8 <= getNumDataCodewords(version, ecl) * 8) {
+      break;
+    }
+  }
+  if (version > 40) throw new QrCodeDataTooLongError();
+
+  const codewords = addEccAndInterleave(buildDataCodewords(bytes, version, ecl), version, ecl);
+  const matrix = new QrMatrix(version, ecl);
+  matrix.drawFunctionPatterns();
+  matrix.drawCodewords(codewords);
+
+  let bestMask = 0;
+  let minPenalty = Infinity;
+  for (let mask = 0; mask < 8; mask++) {
+    matrix.applyMask(mask);
+    matrix.drawFormatBits(mask);
+    const penalty = matrix.penaltyScore();
+    if (penalty < minPenalty) {
+      bestMask = mask;
+      minPenalty = penalty;
+    }
+    matrix.applyMask(mask);
+  }
+  matrix.applyMask(bestMask);
+  matrix.drawFormatBits(bestMask);
+
+  return { size: matrix.size, modules: matrix.modules };
+}
+
+/** SVG path data for the dark modules, offset by a quiet-zone `margin` (in modules). */
+export function qrCodeToPath(qr: QrCode, margin = 4): string {
+  const parts: string[] = [];
+  for (let y = 0; y < qr.size; y++) {
+    for (let x = 0; x < qr.size; x++) {
+      if (qr.modules[y][x]) parts.push(`M${x + margin},${y + margin}h1v1h-1z`);
+    }
+  }
+  return parts.join('');
+}
+
+export type QrSvgOptions = {
+  foreground?: string;
+  background?: string;
+  margin?: number;
+  /** Image URL or data URI drawn over the center; pair it with level Q or H. */
+  logoUri?: string | null;
+  /** Logo width as a fraction of the symbol, 0.1–0.3. */
+  logoScale?: number;
+};
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** Logo box (in modules) centred on the symbol, with a one-module light padding. */
+export function getQrLogoBox(
+  qr: QrCode,
+  margin: number,
+  logoScale = 0.22,
+): { x: number; y: number; size: number; padding: number } {
+  const scale = Math.min(Math.max(logoScale, 0.1), 0.3);
+  const size = Math.round(qr.size * scale);
+  const x = margin + (qr.size - size) / 2;
+  return { x, y: x, size, padding: 1 };
+}
+
+export function qrCodeToSvgString(qr: QrCode, options: QrSvgOptions = {}): string {
+  const { foreground = '#000000', background = '#FFFFFF', margin = 4, logoUri, logoScale } = options;
+  const dimension = qr.size + margin * 2;
+  let logo = '';
+  if (logoUri) {
+    const box = getQrLogoBox(qr, margin, logoScale);
+    logo =
+      `<rect x="${box.x - box.padding}" y="${box.y - box.padding}" width="${box.size + box.padding * 2}" height="${box.size + box.padding * 2}" fill="${escapeXml(background)}"/>` +
+      `<image href="${escapeXml(logoUri)}" x="${box.x}" y="${box.y}" width="${box.size}" height="${box.size}" preserveAspectRatio="xMidYMid meet"/>`;
+  }
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${dimension} ${dimension}" shape-rendering="crispEdges">` +
+    `<rect width="100%" height="100%" fill="${escapeXml(background)}"/>` +
+    `<path d="${qrCodeToPath(qr, margin)}" fill="${escapeXml(foreground)}"/>` +
+    logo +
+    `</svg>`
+  );
+}
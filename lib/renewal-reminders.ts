@@ -0,0 +1,93 @@
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { getItem, setItem } from '@/lib/storage';
+import { DEFAULT_REMINDER_LEAD_DAYS, formatDaysLeft } from '@/lib/spark-authorization';
+import { SparkCode } from '@/types/spark-codes';
+
+export const RENEWAL_REMINDERS_KEY = 'renewal_reminders';
+
+const NOTIFICATION_ID_PREFIX = 'spark-renewal:';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type RenewalReminderSettings = {
+  /** Days before an authorization ends to warn, e.g. [7, 1]. */
+  leadDays: number[];
+  notificationsEnabled: boolean;
+};
+
+export const DEFAULT_RENEWAL_REMINDER_SETTINGS: RenewalReminderSettings = {
+  leadDays: DEFAULT_REMINDER_LEAD_DAYS,
+  notificationsEnabled: true,
+};
+
+export async function getRenewalReminderSettings(): Promise<RenewalReminderSettings> {
+  const stored = await getItem<Partial<RenewalReminderSettings>>(RENEWAL_REMINDERS_KEY);
+  return { ...DEFAULT_RENEWAL_REMINDER_SETTINGS, ...stored };
+}
+
+export async function saveRenewalReminderSettings(settings: RenewalReminderSettings): Promise<void> {
+  await setItem(RENEWAL_REMINDERS_KEY, settings);
+}
+
+/** Asks for notification permission if it hasn't been decided yet. */
+export async function ensureNotificationPermission(): Promise<boolean> {
+  if (Platform.OS === 'web') return false;
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted) return true;
+  if (!current.canAskAgain) return false;
+  return (await Notifications.requestPermissionsAsync()).granted;
+}
+
+/**
+ * Replaces every scheduled renewal reminder with one local notification per
+ * code and lead time that is still in the future. Pass no codes (or disabled
+ * settings) to clear them. Local notifications don't exist on web.
+ */
+export async function scheduleRenewalReminders(
+  codes: SparkCode[],
+  settings: RenewalReminderSettings,
+  now: Date = new Date(),
+): Promise<number> {
+  if (Platform.OS === 'web') return 0;
+  try {
+    const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+    await Promise.all(
+      scheduled
+        .filter((n) => n.identifier.startsWith(NOTIFICATION_ID_PREFIX))
+        .map((n) => Notifications.cancelScheduledNotificationAsync(n.identifier)),
+    );
+    if (!settings.notificationsEnabled || settings.leadDays.length === 0) return 0;
+
+    const reminders = codes
+      .filter((c) => c.authorization_days && c.expires_at && c.status !== 'expired')
+      .flatMap((c) =>
+        settings.leadDays.map((days) => ({
+          code: c,
+          days,
+          at: new Date(new Date(c.expires_at!).getTime() - days * DAY_MS),
+        })),
+      )
+      .filter((r) => r.at > now);
+    if (reminders.length === 0) return 0;
+    if (!(await ensureNotificationPermission())) return 0;
+
+    await Promise.all(
+      reminders.map((r) =>
+        Notifications.scheduleNotificationAsync({
+          identifier: `${NOTIFICATION_ID_PREFIX}${r.code.id}:${r.days}`,
+          content: {
+            title: 'Spark code authorization ending',
+            body: `${r.code.brand_name ? `${r.code.brand_name} · ` : ''}${r.code.code} ${formatDaysLeft(r.days)}. Renew it to keep the ad running.`,
+            data: { sparkCodeId: r.code.id },
+          },
+          trigger: { type: Notifications.SchedulableTriggerInputTypes.DATE, date: r.at },
+        }),
+      ),
+    );
+    console.log('[RenewalReminders] scheduled', reminders.length, 'reminders');
+    return reminders.length;
+  } catch (e) {
+    console.log('[RenewalReminders] scheduling failed:', e);
+    return 0;
+  }
+}
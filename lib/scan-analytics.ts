@@ -0,0 +1,95 @@
+import { ScanAnalytics, ScanEvent, ScanSource } from '@/types/scan-events';
+
+const SCAN_SOURCE_LABELS: Record<ScanSource, string> = {
+  tiktok: 'TikTok',
+  instagram: 'Instagram',
+  youtube: 'YouTube',
+  email: 'Email',
+  direct: 'Direct',
+  qr: 'QR code',
+  desktop_qr: 'Desktop hand-off QR',
+  bio: 'Link in bio',
+  other: 'Other sites',
+};
+
+export function formatScanSource(source: string): string {
+  return SCAN_SOURCE_LABELS[source as ScanSource] ?? 'Unknown';
+}
+
+function bump<T extends { count: number }>(
+  rows: T[],
+  matches: (row: T) => boolean,
+  create: () => T,
+): T[] {
+  const index = rows.findIndex(matches);
+  if (index === -1) return [...rows, create()];
+  return rows.map((row, i) => (i === index ? { ...row, count: row.count + 1 } : row));
+}
+
+const byCountDesc = (a: { count: number }, b: { count: number }) => b.count - a.count;
+
+/**
+ * Folds one live scan into already-loaded analytics, mirroring how the server
+ * aggregates: bots only touch the totals, breakdowns count humans. Unique
+ * visitors can't be derived from a single event and catch up on the next fetch.
+ */
+export function applyScanEventToAnalytics(analytics: ScanAnalytics, event: ScanEvent): ScanAnalytics {
+  if (event.outcome !== 'redirect') {
+    // Like the SQL, expired hits from bots are left out.
+    return event.outcome === 'expired' && !event.is_bot
+      ? { ...analytics, expired_hits: analytics.expired_hits + 1 }
+      : analytics;
+  }
+  if (event.is_bot) {
+    return { ...analytics, total_scans: analytics.total_scans + 1, bot_scans: analytics.bot_scans + 1 };
+  }
+
+  const date = event.scanned_at.slice(0, 10);
+  const device = event.device_type ?? 'Unknown';
+  const os = event.os ?? 'Unknown';
+  const country = event.country ?? 'Unknown';
+  const source = event.source ?? 'unknown';
+
+  return {
+    ...analytics,
+    total_scans: analytics.total_scans + 1,
+    human_scans: analytics.human_scans + 1,
+    last_scan_at: event.scanned_at,
+    scans_by_day: bump(analytics.scans_by_day, (r) => r.date === date, () => ({ date, count: 1 })).sort(
+      (a, b) => a.date.localeCompare(b.date),
+    ),
+    scans_by_device: bump(
+      analytics.scans_by_device,
+      (r) => r.device_type === device,
+      () => ({ device_type: device, count: 1 }),
+    ).sort(byCountDesc),
+    scans_by_os: bump(analytics.scans_by_os, (r) => r.os === os, () => ({ os, count: 1 })).sort(byCountDesc),
+    scans_by_country: bump(
+      analytics.scans_by_country,
+      (r) => r.country === country,
+      () => ({ country, count: 1 }),
+    ).sort(byCountDesc),
+    scans_by_variant: event.variant_id
+      ? bump(
+        analytics.scans_by_variant,
+        (r) => r.variant_id === event.variant_id,
+        () => ({ variant_id: event.variant_id!, count: 1 }),
+      ).sort((a, b) => a.variant_id.localeCompare(b.variant_id))
+      : analytics.scans_by_variant,
+    scans_by_source: bump(
+      analytics.scans_by_source,
+      (r) => r.source === source,
+      () => ({ source, count: 1 }),
+    ).sort(byCountDesc),
+  };
+}
+
+export function formatTimeAgo(timestamp: string, now: number): string {
+  const seconds = Math.max(0, Math.floor((now - new Date(timestamp).getTime()) / 1000));
+  if (seconds < 60) return `${seconds}s ago`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+}
@@ -0,0 +1,92 @@
+import { ScanAnalytics, ScanExport, ScanExportEvent, ScanExportFormat } from '@/types/scan-events';
+import { toCsvRow } from '@/lib/csv';
+import type { ShareFileInput } from '@/lib/share-file';
+
+const EVENT_COLUMNS: (keyof ScanExportEvent)[] = [
+  'id',
+  'scanned_at',
+  'outcome',
+  'requested_code',
+  'source',
+  'referrer',
+  'device_type',
+  'os',
+  'in_app_browser',
+  'country',
+  'city',
+  'variant_id',
+  'geo_rule_id',
+  'is_bot',
+];
+
+const BREAKDOWNS: [keyof ScanAnalytics, string][] = [
+  ['scans_by_day', 'date'],
+  ['scans_by_source', 'source'],
+  ['scans_by_device', 'device_type'],
+  ['scans_by_os', 'os'],
+  ['scans_by_country', 'country'],
+  ['scans_by_variant', 'variant_id'],
+];
+
+const TOTALS: (keyof ScanAnalytics)[] = [
+  'total_scans',
+  'human_scans',
+  'bot_scans',
+  'unique_visitors',
+  'expired_hits',
+];
+
+/** Long format: one row per code, metric and breakdown key (blank for totals). */
+export function scanSummaryToCsv(data: ScanExport): string {
+  const lines: string[] = [toCsvRow(['code', 'short_code', 'metric', 'key', 'count'])];
+  for (const code of data.codes) {
+    for (const metric of TOTALS) {
+      lines.push(toCsvRow([code.code, code.short_code, metric, '', code.analytics[metric]]));
+    }
+    for (const [metric, keyField] of BREAKDOWNS) {
+      const rows = code.analytics[metric] as unknown as Record<string, string | number>[];
+      for (const row of rows) {
+        lines.push(toCsvRow([code.code, code.short_code, metric, row[keyField], row.count]));
+      }
+    }
+  }
+  return lines.join('\r\n') + '\r\n';
+}
+
+/** One row per scan event, tagged with its code. */
+export function scanEventsToCsv(data: ScanExport): string {
+  const codesById = new Map(data.codes.map((c) => [c.id, c]));
+  const lines: string[] = [toCsvRow(['code', 'short_code', ...EVENT_COLUMNS])];
+  for (const event of data.events) {
+    const code = event.spark_code_id ? codesById.get(event.spark_code_id) : undefined;
+    lines.push(toCsvRow([code?.code, code?.short_code, ...EVENT_COLUMNS.map((column) => event[column])]));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
+
+export function scanExportToFile(
+  data: ScanExport,
+  format: ScanExportFormat,
+  fileBaseName: string,
+): ShareFileInput {
+  const date = data.exported_at.slice(0, 10);
+  if (format === 'json') {
+    return {
+      fileName: `${fileBaseName}-scans-${date}.json`,
+      mimeType: 'application/json',
+      contents: JSON.stringify(data, null, 2),
+    };
+  }
+  if (format === 'summary_csv') {
+    return {
+      fileName: `${fileBaseName}-scan-summary-${date}.csv`,
+      mimeType: 'text/csv',
+      contents: scanSummaryToCsv(data),
+    };
+  }
+  return {
+    fileName: `${fileBaseName}-scan-events-${date}.csv`,
+    mimeType: 'text/csv',
+    contents: scanEventsToCsv(data),
+  };
+}
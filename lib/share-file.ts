@@ -0,0 +1,39 @@
+import { Platform } from 'react-native';
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+
+export type ShareFileInput = {
+  fileName: string;
+  mimeType: string;
+  contents: string;
+  encoding?: 'utf8' | 'base64';
+};
+
+function downloadOnWeb({ fileName, mimeType, contents, encoding }: ShareFileInput): void {
+  const href = encoding === 'base64'
+    ? `data:${mimeType};base64,${contents}`
+    : URL.createObjectURL(new Blob([contents], { type: mimeType }));
+  const anchor = document.createElement('a');
+  anchor.href = href;
+  anchor.download = fileName;
+  document.body.appendChild(anchor);
+  anchor.click();
+  anchor.remove();
+  if (encoding !== 'base64') URL.revokeObjectURL(href);
+}
+
+/** Writes `contents` to a cache file and opens the share sheet; downloads the file on web. */
+export async function shareFile(input: ShareFileInput): Promise<void> {
+  if (Platform.OS === 'web') {
+    downloadOnWeb(input);
+    return;
+  }
+  const file = new File(Paths.cache, input.fileName);
+  if (file.exists) file.delete();
+  file.create();
+  file.write(input.contents, { encoding: input.encoding ?? 'utf8' });
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device.');
+  }
+  await Sharing.shareAsync(file.uri, { mimeType: input.mimeType, dialogTitle: input.fileName });
+}
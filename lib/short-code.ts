@@ -7,3 +7,64 @@ export function generateShortCode(length = 8): string {
   }
   return result;
 }
+
+export const VANITY_SLUG_MIN_LENGTH = 3;
+export const VANITY_SLUG_MAX_LENGTH = 32;
+
+// Paths the backend serves, app routes, and words we never hand out as links.
+const RESERVED_SLUGS = new Set([
+  'admin', 'api', 'app', 'auth', 'dashboard', 'help', 'home', 'login', 'logout', 'r', 'qr',
+  'settings', 'signin', 'signup', 'sign-in', 'sign-up', 'static', 'support', 'trpc', 'u', 'www',
+]);
+
+const BLOCKED_WORDS = new Set([
+  'fuck', 'shit', 'bitch', 'cunt', 'dick', 'pussy', 'nigger', 'nigga', 'faggot', 'whore', 'slut',
+  'porn', 'rape',
+]);
+
+/** Matches whole words between separators, so `therapy` or `grape-glow` stay allowed. */
+function hasBlockedWord(value: string): boolean {
+  return value.split(/[-_.]+/).some((word) => BLOCKED_WORDS.has(word));
+}
+
+export function normalizeVanitySlug(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+/** Returns a human-readable problem with the slug, or null when it is allowed. */
+export function validateVanitySlug(value: string): string | null {
+  const slug = normalizeVanitySlug(value);
+  if (slug.length < VANITY_SLUG_MIN_LENGTH || slug.length > VANITY_SLUG_MAX_LENGTH) {
+    return `Custom links must be ${VANITY_SLUG_MIN_LENGTH}–${VANITY_SLUG_MAX_LENGTH} characters.`;
+  }
+  if (!/^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(slug)) {
+    return 'Use letters, numbers and single hyphens only (no leading or trailing hyphen).';
+  }
+  if (RESERVED_SLUGS.has(slug)) {
+    return `"${slug}" is reserved. Try another link.`;
+  }
+  if (hasBlockedWord(slug)) {
+    return 'That link contains a blocked word.';
+  }
+  return null;
+}
+
+export const HANDLE_MAX_LENGTH = 30;
+
+/** Link-in-bio handles follow the vanity rules but also allow underscores and dots. */
+export function validateHandle(value: string): string | null {
+  const handle = normalizeVanitySlug(value);
+  if (handle.length < VANITY_SLUG_MIN_LENGTH || handle.length > HANDLE_MAX_LENGTH) {
+    return `Handles must be ${VANITY_SLUG_MIN_LENGTH}–${HANDLE_MAX_LENGTH} characters.`;
+  }
+  if (!/^[a-z0-9](?:[a-z0-9._]*[a-z0-9])?$/.test(handle)) {
+    return 'Use letters, numbers, dots and underscores (no leading or trailing symbol).';
+  }
+  if (RESERVED_SLUGS.has(handle)) {
+    return `"${handle}" is reserved. Try another handle.`;
+  }
+  if (hasBlockedWord(handle)) {
+    return 'That handle contains a blocked word.';
+  }
+  return null;
+}
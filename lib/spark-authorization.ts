@@ -0,0 +1,77 @@
+import { SparkAuthorizationDays, SparkCode } from '@/types/spark-codes';
+
+export const AUTHORIZATION_PERIODS: SparkAuthorizationDays[] = [7, 30, 60, 365];
+
+/** Lead times offered in settings, in days before the authorization ends. */
+export const REMINDER_LEAD_OPTIONS = [14, 7, 3, 1];
+export const DEFAULT_REMINDER_LEAD_DAYS = [7, 1];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Start of day (UTC) for a `YYYY-MM-DD` date; full ISO timestamps pass through. */
+function parseStart(start: string): Date {
+  return new Date(/^\d{4}-\d{2}-\d{2}$/.test(start) ? `${start}T00:00:00Z` : start);
+}
+
+export function isValidAuthorizationStart(start: string): boolean {
+  return !Number.isNaN(parseStart(start).getTime());
+}
+
+/** `expires_at` for an authorization window: start plus the number of days. */
+export function deriveAuthorizationExpiry(start: string, days: SparkAuthorizationDays): string {
+  return new Date(parseStart(start).getTime() + days * DAY_MS).toISOString();
+}
+
+export type AuthorizationWarning = {
+  sparkCode: SparkCode;
+  expiresAt: string;
+  /** Whole days left, rounded down; 0 within the last 24 hours. */
+  daysLeft: number;
+};
+
+/**
+ * Codes with an authorization window that ends within the longest lead time
+ * and hasn't ended yet, soonest first.
+ */
+export function getAuthorizationWarnings(
+  codes: SparkCode[],
+  leadDays: number[],
+  now: Date = new Date(),
+): AuthorizationWarning[] {
+  const horizon = Math.max(0, ...leadDays);
+  if (horizon === 0) return [];
+  return codes
+    .filter((c) => c.authorization_days && c.expires_at && c.status !== 'expired')
+    .map((c) => {
+      const msLeft = new Date(c.expires_at!).getTime() - now.getTime();
+      return { sparkCode: c, expiresAt: c.expires_at!, daysLeft: Math.floor(msLeft / DAY_MS), msLeft };
+    })
+    .filter((w) => w.msLeft > 0 && w.msLeft <= horizon * DAY_MS)
+    .sort((a, b) => a.msLeft - b.msLeft)
+    .map(({ msLeft: _msLeft, ...warning }) => warning);
+}
+
+/** Calendar day of an authorization date, e.g. "Oct 19, 2026"; read in UTC so the day doesn't shift. */
+export function formatAuthorizationDay(value: string): string {
+  return parseStart(value).toLocaleDateString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+/** "30-day window · Oct 1, 2026 – Oct 31, 2026", or null when no window is recorded. */
+export function formatAuthorizationWindow(
+  sparkCode: Pick<SparkCode, 'authorization_start' | 'authorization_days' | 'expires_at'>,
+): string | null {
+  const { authorization_start: start, authorization_days: days, expires_at: expiresAt } = sparkCode;
+  if (!start || !days || !expiresAt) return null;
+  return `${days}-day window · ${formatAuthorizationDay(start)} – ${formatAuthorizationDay(expiresAt)}`;
+}
+
+export function formatDaysLeft(daysLeft: number): string {
+  if (daysLeft <= 0) return 'ends today';
+  if (daysLeft === 1) return 'ends tomorrow';
+  return `ends in ${daysLeft} days`;
+}
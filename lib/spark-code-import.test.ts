@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'bun:test';
+
+import { buildImportReport, guessImportMapping, validateImportRows } from './spark-code-import';
+
+const HEADERS = ['Spark Code', 'Video URL', 'Brand', 'Status', 'Expiry Date', 'Custom Link', 'Scan Limit'];
+const mapping = guessImportMapping(HEADERS);
+
+describe('guessImportMapping', () => {
+  it('matches headers by their aliases, ignoring case and punctuation', () => {
+    expect(mapping.code).toBe(0);
+    expect(mapping.destination_url).toBe(1);
+    expect(mapping.brand_name).toBe(2);
+    expect(mapping.status).toBe(3);
+    expect(mapping.expires_at).toBe(4);
+    expect(mapping.short_code).toBe(5);
+    expect(mapping.max_scans).toBe(6);
+    expect(mapping.note).toBeNull();
+
+    expect(guessImportMapping(['spark_code', 'expires-at']).expires_at).toBe(1);
+  });
+
+  it('uses each column for one field only', () => {
+    const guessed = guessImportMapping(['code', 'link']);
+    expect(guessed.code).toBe(0);
+    expect(guessed.destination_url).toBe(1);
+    expect(guessed.short_code).toBeNull();
+  });
+});
+
+describe('validateImportRows', () => {
+  it('turns a valid row into a create input', () => {
+    const [row] = validateImportRows(
+      [['#ABC123', 'https://tiktok.com/@me/video/1', 'Glow Co', 'Sent to brand', '2026-12-01', 'Glow-Sale', '100']],
+      mapping,
+    );
+    expect(row.errors).toEqual([]);
+    expect(row.rowNumber).toBe(2);
+    expect(row.input).toMatchObject({
+      code: '#ABC123',
+      destination_url: 'https://tiktok.com/@me/video/1',
+      brand_name: 'Glow Co',
+      status: 'sent_to_brand',
+      expires_at: '2026-12-01T00:00:00.000Z',
+      short_code: 'glow-sale',
+      max_scans: 100,
+      is_active: true,
+    });
+  });
+
+  it('defaults blank cells', () => {
+    const [row] = validateImportRows([['#ABC123', '', '', '', '', '', '']], mapping);
+    expect(row.input).toMatchObject({ status: 'draft', destination_url: null, short_code: null, max_scans: null });
+  });
+
+  it('reports every problem with a row', () => {
+    const [row] = validateImportRows(
+      [['', 'ftp://files.example.com', '', 'paused', 'someday', 'admin', '-3']],
+      mapping,
+    );
+    expect(row.input).toBeNull();
+    expect(row.errors).toEqual([
+      'Missing Spark code.',
+      'Destination must be an http(s) URL.',
+      'Unknown status "paused".',
+      'Can\'t read expiry date "someday".',
+      '"admin" is reserved. Try another link.',
+      'Scan limit must be a whole number above 0.',
+    ]);
+  });
+
+  it('flags codes and custom links repeated in the file', () => {
+    const rows = validateImportRows(
+      [
+        ['#A', '', '', '', '', 'spring', ''],
+        ['#A', '', '', '', '', 'other', ''],
+        ['#B', '', '', '', '', 'SPRING', ''],
+      ],
+      mapping,
+    );
+    expect(rows.map((r) => r.errors)).toEqual([
+      [],
+      ['Duplicate Spark code in this file.'],
+      ['Duplicate custom link in this file.'],
+    ]);
+    expect(rows.map((r) => r.rowNumber)).toEqual([2, 3, 4]);
+  });
+
+  it('keeps codes with a future start inactive', () => {
+    const withStart = guessImportMapping(['code', 'starts']);
+    const [row] = validateImportRows([['#A', '2999-01-01T09:00:00Z']], withStart);
+    expect(row.input).toMatchObject({ is_active: false, activates_at: '2999-01-01T09:00:00.000Z' });
+  });
+});
+
+describe('buildImportReport', () => {
+  it('lists skipped rows as CSV', () => {
+    expect(buildImportReport([{ rowNumber: 3, code: '#A', reason: 'The link "spring" is already taken.' }])).toBe(
+      'row,code,reason\r\n3,#A,"The link ""spring"" is already taken."\r\n',
+    );
+  });
+});
@@ -0,0 +1,157 @@
+import { CreateSparkCodeInput, SparkCodeStatus } from '@/types/spark-codes';
+import { normalizeVanitySlug, validateVanitySlug } from '@/lib/short-code';
+import { toCsvRow } from '@/lib/csv';
+
+export type ImportField =
+  | 'code'
+  | 'destination_url'
+  | 'brand_name'
+  | 'platform'
+  | 'status'
+  | 'activates_at'
+  | 'expires_at'
+  | 'short_code'
+  | 'deep_link_ios'
+  | 'deep_link_android'
+  | 'max_scans'
+  | 'note';
+
+/** Header names (lowercased, punctuation stripped) each field is matched against. */
+export const IMPORT_FIELDS: { key: ImportField; label: string; required?: boolean; aliases: string[] }[] = [
+  { key: 'code', label: 'Spark code', required: true, aliases: ['code', 'spark code', 'sparkcode', 'auth code', 'ad code'] },
+  { key: 'destination_url', label: 'Video / destination URL', aliases: ['destination url', 'destination', 'video url', 'video link', 'video', 'url', 'link'] },
+  { key: 'brand_name', label: 'Brand', aliases: ['brand name', 'brand', 'client'] },
+  { key: 'platform', label: 'Platform', aliases: ['platform', 'network'] },
+  { key: 'status', label: 'Status', aliases: ['status'] },
+  { key: 'activates_at', label: 'Starts', aliases: ['activates at', 'starts at', 'starts', 'start date', 'go live'] },
+  { key: 'expires_at', label: 'Expires', aliases: ['expires at', 'expires', 'expiry', 'expiry date', 'end date'] },
+  { key: 'short_code', label: 'Custom link', aliases: ['short code', 'custom link', 'slug', 'vanity'] },
+  { key: 'deep_link_ios', label: 'iOS deep link', aliases: ['deep link ios', 'ios deep link', 'ios link'] },
+  { key: 'deep_link_android', label: 'Android deep link', aliases: ['deep link android', 'android deep link', 'android link'] },
+  { key: 'max_scans', label: 'Scan limit', aliases: ['max scans', 'scan limit', 'limit'] },
+  { key: 'note', label: 'Note', aliases: ['note', 'notes', 'comment', 'comments'] },
+];
+
+/** Column index per field; null leaves the field empty. */
+export type ImportColumnMapping = Record<ImportField, number | null>;
+
+export type ImportRow = {
+  /** 1-based row number counting the header; blank lines are not counted. */
+  rowNumber: number;
+  code: string;
+  input: CreateSparkCodeInput | null;
+  errors: string[];
+};
+
+const STATUSES: SparkCodeStatus[] = ['draft', 'sent_to_brand', 'active', 'expired'];
+
+function normalizeHeader(value: string): string {
+  return value.trim().toLowerCase().replace(/[_\-.]+/g, ' ').replace(/\s+/g, ' ');
+}
+
+export function guessImportMapping(headers: string[]): ImportColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping = {} as ImportColumnMapping;
+  for (const field of IMPORT_FIELDS) {
+    const index = field.aliases
+      .map((alias) => normalized.findIndex((h, i) => h === alias && !used.has(i)))
+      .find((i) => i !== -1);
+    mapping[field.key] = index ?? null;
+    if (index !== undefined) used.add(index);
+  }
+  return mapping;
+}
+
+function isWebUrl(value: string): boolean {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/** Validates data rows (header excluded) against the mapping, including duplicates within the file. */
+export function validateImportRows(rows: string[][], mapping: ImportColumnMapping): ImportRow[] {
+  const seenCodes = new Set<string>();
+  const seenSlugs = new Set<string>();
+
+  return rows.map((cells, index) => {
+    const get = (field: ImportField) => {
+      const column = mapping[field];
+      return column === null ? '' : (cells[column] ?? '').trim();
+    };
+    const errors: string[] = [];
+
+    const code = get('code');
+    if (!code) errors.push('Missing Spark code.');
+    else if (seenCodes.has(code)) errors.push('Duplicate Spark code in this file.');
+    seenCodes.add(code);
+
+    const destination = get('destination_url');
+    if (destination && !isWebUrl(destination)) errors.push('Destination must be an http(s) URL.');
+
+    const statusValue = get('status').toLowerCase().replace(/\s+/g, '_');
+    const status = (statusValue || 'draft') as SparkCodeStatus;
+    if (!STATUSES.includes(status)) errors.push(`Unknown status "${get('status')}".`);
+
+    const startsValue = get('activates_at');
+    const startsTime = startsValue ? new Date(startsValue).getTime() : null;
+    if (startsTime !== null && Number.isNaN(startsTime)) errors.push(`Can't read start date "${startsValue}".`);
+
+    const expiresValue = get('expires_at');
+    const expiresTime = expiresValue ? new Date(expiresValue).getTime() : null;
+    if (expiresTime !== null && Number.isNaN(expiresTime)) errors.push(`Can't read expiry date "${expiresValue}".`);
+
+    const slugValue = get('short_code');
+    const slugProblem = slugValue ? validateVanitySlug(slugValue) : null;
+    const slug = slugValue ? normalizeVanitySlug(slugValue) : null;
+    if (slugProblem) errors.push(slugProblem);
+    else if (slug && seenSlugs.has(slug)) errors.push('Duplicate custom link in this file.');
+    if (slug) seenSlugs.add(slug);
+
+    const maxScansValue = get('max_scans');
+    const maxScans = maxScansValue ? Number(maxScansValue) : null;
+    if (maxScans !== null && !(Number.isInteger(maxScans) && maxScans > 0)) {
+      errors.push('Scan limit must be a whole number above 0.');
+    }
+
+    const input: CreateSparkCodeInput | null = errors.length > 0 ? null : {
+      code,
+      short_code: slug,
+      domain: null,
+      destination_url: destination || null,
+      deep_link_ios: get('deep_link_ios') || null,
+      deep_link_android: get('deep_link_android') || null,
+      // Codes with a future start stay off until the status job activates them.
+      is_active: startsTime === null || startsTime <= Date.now(),
+      brand_name: get('brand_name') || null,
+      platform: get('platform') || null,
+      status,
+      authorization_start: null,
+      authorization_days: null,
+      renewed_from_id: null,
+      activates_at: startsTime !== null ? new Date(startsTime).toISOString() : null,
+      expires_at: expiresTime !== null ? new Date(expiresTime).toISOString() : null,
+      expired_fallback_url: null,
+      note: get('note') || null,
+      variants: [],
+      sticky_variants: false,
+      geo_rules: [],
+      destination_schedule: [],
+      query_params: {},
+      max_scans: maxScans,
+      desktop_behavior: 'redirect',
+    };
+
+    return { rowNumber: index + 2, code, input, errors };
+  });
+}
+
+/** CSV listing every row that wasn't imported and why. */
+export function buildImportReport(skipped: { rowNumber: number; code: string; reason: string }[]): string {
+  const lines = [toCsvRow(['row', 'code', 'reason'])];
+  for (const row of skipped) lines.push(toCsvRow([row.rowNumber, row.code, row.reason]));
+  return lines.join('\r\n') + '\r\n';
+}
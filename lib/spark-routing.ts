@@ -0,0 +1,138 @@
+import { SparkCodeGeoRule, SparkCodeScheduledDestination, SparkCodeVariant } from '@/types/spark-codes';
+import { validateWebUrl } from '@/lib/link-url';
+
+/**
+ * Form drafts for a code's scheduled destinations, split test variants and
+ * geo rules, shared by the create form and the edit panel. Saved entries keep
+ * their ids so scans stay attributed to the same variant or rule.
+ */
+
+export type VariantDraft = { id?: string; url: string; weight: string };
+export type GeoRuleDraft = { id?: string; countries: string; url: string };
+export type ScheduleDraft = { id?: string; url: string; startsAt: string; endsAt: string };
+
+export type RoutingDrafts = {
+  schedule: ScheduleDraft[];
+  variants: VariantDraft[];
+  stickyVariants: boolean;
+  geoRules: GeoRuleDraft[];
+};
+
+export const EMPTY_ROUTING_DRAFTS: RoutingDrafts = { schedule: [], variants: [], stickyVariants: true, geoRules: [] };
+
+export type SparkCodeRouting = {
+  destination_schedule: SparkCodeScheduledDestination[];
+  variants: SparkCodeVariant[];
+  sticky_variants: boolean;
+  geo_rules: SparkCodeGeoRule[];
+};
+
+/** Letter for the variant at `index`; the split test reports variants by it. */
+export function variantLetter(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
+/** Keeps saved ids and gives new entries the first `make(n)` no other entry uses. */
+function assignIds<T extends { id?: string }>(entries: T[], make: (n: number) => string): string[] {
+  const used = new Set(entries.map((e) => e.id).filter(Boolean));
+  let next = 0;
+  return entries.map((e) => {
+    if (e.id) return e.id;
+    while (used.has(make(next))) next++;
+    const id = make(next);
+    used.add(id);
+    return id;
+  });
+}
+
+/** Parses `YYYY-MM-DD HH:mm` (or any date string) to ISO; undefined when it can't be read. */
+export function parseScheduleTime(value: string): string | null | undefined {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const date = new Date(trimmed.replace(' ', 'T'));
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+/** ISO timestamp as local `YYYY-MM-DD HH:mm`, the format the form asks for. */
+export function formatScheduleTime(value: string | null): string {
+  if (!value) return '';
+  const date = new Date(value);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/** Returns a human-readable problem with the drafts, or null when they can be saved. */
+export function validateRoutingDrafts(drafts: RoutingDrafts): string | null {
+  for (const entry of drafts.schedule) {
+    if (!entry.url.trim()) continue;
+    const startsAt = parseScheduleTime(entry.startsAt);
+    const endsAt = parseScheduleTime(entry.endsAt);
+    if (startsAt === undefined || endsAt === undefined) {
+      return 'Enter scheduled times as YYYY-MM-DD HH:mm, or leave them blank.';
+    }
+    if (startsAt && endsAt && endsAt <= startsAt) {
+      return 'A scheduled destination has to end after it starts.';
+    }
+  }
+  const urls = [...drafts.schedule, ...drafts.variants, ...drafts.geoRules].map((d) => d.url);
+  for (const url of urls) {
+    const problem = validateWebUrl(url);
+    if (problem) return problem;
+  }
+  return null;
+}
+
+/** Letters the variant rows are shown and saved under. */
+export function variantLetters(drafts: VariantDraft[]): string[] {
+  return assignIds(drafts, variantLetter);
+}
+
+/** Converts valid drafts (see `validateRoutingDrafts`) to what is stored; blank rows are dropped. */
+export function toRouting(drafts: RoutingDrafts): SparkCodeRouting {
+  const scheduleIds = assignIds(drafts.schedule, (n) => `S${n + 1}`);
+  const variantIds = variantLetters(drafts.variants);
+  const geoRuleIds = assignIds(drafts.geoRules, (n) => `R${n + 1}`);
+
+  return {
+    destination_schedule: drafts.schedule
+      .map((d, i) => ({
+        id: scheduleIds[i],
+        url: d.url.trim(),
+        starts_at: parseScheduleTime(d.startsAt) ?? null,
+        ends_at: parseScheduleTime(d.endsAt) ?? null,
+      }))
+      .filter((e) => e.url),
+    variants: drafts.variants
+      .map((d, i) => ({
+        id: variantIds[i],
+        url: d.url.trim(),
+        weight: Math.max(parseInt(d.weight, 10) || 0, 0),
+      }))
+      .filter((v) => v.url),
+    sticky_variants: drafts.stickyVariants,
+    geo_rules: drafts.geoRules
+      .map((d, i) => ({
+        id: geoRuleIds[i],
+        countries: d.countries
+          .split(/[\s,]+/)
+          .map((c) => c.trim().toUpperCase())
+          .filter(Boolean),
+        url: d.url.trim(),
+      }))
+      .filter((r) => r.url),
+  };
+}
+
+export function toRoutingDrafts(routing: SparkCodeRouting): RoutingDrafts {
+  return {
+    schedule: (routing.destination_schedule ?? []).map((e) => ({
+      id: e.id,
+      url: e.url,
+      startsAt: formatScheduleTime(e.starts_at),
+      endsAt: formatScheduleTime(e.ends_at),
+    })),
+    variants: (routing.variants ?? []).map((v) => ({ id: v.id, url: v.url, weight: String(v.weight) })),
+    stickyVariants: routing.sticky_variants ?? true,
+    geoRules: (routing.geo_rules ?? []).map((r) => ({ id: r.id, countries: r.countries.join(', '), url: r.url })),
+  };
+}
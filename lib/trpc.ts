@@ -3,6 +3,7 @@ import { createTRPCReact } from "@trpc/react-query";
 import superjson from "superjson";
 
 import type { AppRouter } from "@/backend/trpc/app-router";
+import { getSupabaseClient } from "@/lib/supabase";
 
 export const trpc = createTRPCReact<AppRouter>();
 
@@ -21,6 +22,13 @@ export const trpcClient = trpc.createClient({
     httpLink({
       url: `${getBaseUrl()}/api/trpc`,
       transformer: superjson,
+      headers: async () => {
+        const supabaseClient = getSupabaseClient();
+        if (!supabaseClient) return {};
+        const { data } = await supabaseClient.auth.getSession();
+        const token = data.session?.access_token;
+        return token ? { authorization: `Bearer ${token}` } : {};
+      },
     }),
   ],
 });
@@ -30,3 +38,16 @@ export function getRedirectBaseUrl(): string {
   if (!url) return "";
   return `${url}/api/r`;
 }
+
+/** Short link for a code, on its custom domain when it has one. */
+export function getShortLink(shortCode: string, domain?: string | null): string {
+  if (domain) return `https://${domain}/${shortCode}`;
+  const baseUrl = getRedirectBaseUrl();
+  return baseUrl ? `${baseUrl}/${shortCode}` : shortCode;
+}
+
+export function getBioPageUrl(handle: string): string {
+  const url = process.env.EXPO_PUBLIC_RORK_API_BASE_URL;
+  if (!url) return `/u/${handle}`;
+  return `${url}/api/u/${handle}`;
+}
@@ -0,0 +1,73 @@
+/**
+ * Builds backend/data/geoip.csv, the range table backend/geoip.ts reads, from
+ * the free DB-IP Lite databases (CC BY 4.0, https://db-ip.com/db/lite.php).
+ *
+ *   bun run geoip                     # countries, this month's release
+ *   bun run geoip --city              # countries and cities (a much larger table)
+ *   bun run geoip ./dbip-lite.csv.gz  # convert a file downloaded by hand
+ *
+ * DB-IP publishes a new release each month; re-run this before deploying.
+ */
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { gunzipSync } from 'node:zlib';
+
+import { parseCsv, toCsvRow } from '../lib/csv';
+
+const OUTPUT_PATH = path.join(__dirname, '..', 'backend', 'data', 'geoip.csv');
+const DOWNLOAD_BASE = 'https://download.db-ip.com/free';
+
+type Edition = 'country' | 'city';
+
+function releaseMonths(): string[] {
+  const now = new Date();
+  const months = [0, 1].map((back) => new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - back, 1)));
+  return months.map((d) => d.toISOString().slice(0, 7));
+}
+
+/** This month's release, or last month's early in the month before it is out. */
+async function download(edition: Edition): Promise<Buffer> {
+  for (const month of releaseMonths()) {
+    const url = `${DOWNLOAD_BASE}/dbip-${edition}-lite-${month}.csv.gz`;
+    console.log('[GeoIP] downloading', url);
+    const response = await fetch(url);
+    if (response.ok) return Buffer.from(await response.arrayBuffer());
+    console.log('[GeoIP] not available:', response.status);
+  }
+  throw new Error(`No DB-IP ${edition} release found for ${releaseMonths().join(' or ')}.`);
+}
+
+/**
+ * Country rows are `start,end,country`; city rows are
+ * `start,end,continent,country,region,city,latitude,longitude`, with quoted
+ * names like "Washington, D.C.".
+ */
+function toGeoRow(cells: string[]): string[] | null {
+  if (cells.length === 3) return [cells[0], cells[1], cells[2], ''];
+  if (cells.length >= 6) return [cells[0], cells[1], cells[3], cells[5]];
+  return null;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const source = args.find((a) => !a.startsWith('--'));
+  const edition: Edition = args.includes('--city') ? 'city' : 'country';
+
+  const gzipped = source ? await readFile(source) : await download(edition);
+  const rows = parseCsv(gunzipSync(gzipped).toString('utf8'));
+
+  const lines = [toCsvRow(['start_ip', 'end_ip', 'country', 'city'])];
+  for (const cells of rows) {
+    const row = toGeoRow(cells);
+    if (row) lines.push(toCsvRow(row));
+  }
+
+  await mkdir(path.dirname(OUTPUT_PATH), { recursive: true });
+  await writeFile(OUTPUT_PATH, `${lines.join('\n')}\n`);
+  console.log('[GeoIP] wrote', lines.length - 1, 'ranges to', OUTPUT_PATH);
+}
+
+main().catch((e) => {
+  console.error('[GeoIP]', (e as Error)?.message ?? e);
+  process.exit(1);
+});
@@ -0,0 +1,9 @@
+-- Weighted split-test variants (lib/spark-routing.ts, backend/destinations.ts).
+-- Each scan records the variant it was sent to, so analytics can compare them.
+
+alter table public.spark_codes
+  add column if not exists variants jsonb not null default '[]'::jsonb,
+  add column if not exists sticky_variants boolean not null default true;
+
+alter table public.scan_events
+  add column if not exists variant_id text;
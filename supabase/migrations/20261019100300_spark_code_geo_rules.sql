@@ -0,0 +1,8 @@
+-- Ordered geo routing rules (backend/destinations.ts). Scans record the rule
+-- that routed them.
+
+alter table public.spark_codes
+  add column if not exists geo_rules jsonb not null default '[]'::jsonb;
+
+alter table public.scan_events
+  add column if not exists geo_rule_id text;
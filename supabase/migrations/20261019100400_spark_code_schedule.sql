@@ -0,0 +1,5 @@
+-- Scheduled destinations (backend/destinations.ts): entries of
+-- { id, url, starts_at, ends_at } that replace destination_url while live.
+
+alter table public.spark_codes
+  add column if not exists destination_schedule jsonb not null default '[]'::jsonb;
@@ -0,0 +1,5 @@
+-- Link-preview fetchers and scripted clients are logged with is_bot set;
+-- analytics leave them out of human scans and unique visitors.
+
+alter table public.scan_events
+  add column if not exists is_bot boolean not null default false;
@@ -0,0 +1,5 @@
+-- UTM and custom query parameters merged into the destination on redirect
+-- (backend/query-params.ts). Values may use {short_code}, {country}, ...
+
+alter table public.spark_codes
+  add column if not exists query_params jsonb not null default '{}'::jsonb;
@@ -0,0 +1,14 @@
+-- Vanity short codes. Renamed codes keep their previous short codes as
+-- aliases so printed links keep working.
+--
+-- The redirect matches short codes case-insensitively, and the app's
+-- availability check can't see other creators' codes (RLS), so uniqueness is
+-- enforced here. Inserts and renames that collide fail with unique_violation
+-- (23505), which the app reports as "already taken". Creating the index fails
+-- if duplicates already exist: rename them first.
+
+alter table public.spark_codes
+  add column if not exists short_code_aliases text[] not null default '{}';
+
+create unique index if not exists spark_codes_short_code_key
+  on public.spark_codes (lower(short_code));
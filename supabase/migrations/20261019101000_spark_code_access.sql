@@ -0,0 +1,12 @@
+-- Scan caps and password-gated short links.
+--
+-- password_hash and the destinations of gated or capped codes must not be
+-- readable with the public anon key, so anon loses select on spark_codes
+-- altogether. The backend serves short links and link-in-bio pages with the
+-- service role; signed-in creators keep reading their own codes under RLS.
+
+alter table public.spark_codes
+  add column if not exists max_scans integer check (max_scans is null or max_scans > 0),
+  add column if not exists password_hash text;
+
+revoke select on public.spark_codes from anon;
@@ -0,0 +1,14 @@
+-- Public link-in-bio pages at /u/<handle>, listing a creator's codes in the
+-- order and with the labels they pick in the app.
+
+alter table public.profiles
+  add column if not exists handle text
+    check (handle is null or handle ~ '^[a-z0-9._]{1,30}$');
+
+create unique index if not exists profiles_handle_key on public.profiles (handle);
+
+alter table public.spark_codes
+  add column if not exists bio_visible boolean not null default true,
+  add column if not exists bio_position integer not null default 0,
+  add column if not exists bio_label text,
+  add column if not exists thumbnail_url text;
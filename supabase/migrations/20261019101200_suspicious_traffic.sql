@@ -0,0 +1,5 @@
+-- Last time the redirect rate limits tripped for a code (backend/rate-limit.ts);
+-- shown on the code's analytics. Throttled hits themselves are not logged.
+
+alter table public.spark_codes
+  add column if not exists suspicious_traffic_at timestamptz;
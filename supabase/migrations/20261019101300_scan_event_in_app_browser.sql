@@ -0,0 +1,5 @@
+-- In-app browser a scan came from (tiktok, instagram, facebook, snapchat),
+-- detected from the User-Agent (backend/in-app-browser.ts).
+
+alter table public.scan_events
+  add column if not exists in_app_browser text;
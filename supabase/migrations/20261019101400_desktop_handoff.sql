@@ -0,0 +1,6 @@
+-- What desktop visitors get: the destination, or a QR hand-off page for
+-- their phone. Hand-off page views are logged with outcome 'desktop_handoff'.
+
+alter table public.spark_codes
+  add column if not exists desktop_behavior text not null default 'redirect'
+    check (desktop_behavior in ('redirect', 'qr_handoff'));
@@ -0,0 +1,14 @@
+-- Short links on a creator's own domain. Codes with a domain only resolve on
+-- that host, so the same short code may be used once per domain; codes on the
+-- default host have no domain. profiles.custom_domains mirrors the creator's
+-- verified domains (see 20261019140000_custom_domains.sql).
+
+alter table public.profiles
+  add column if not exists custom_domains text[] not null default '{}';
+
+alter table public.spark_codes
+  add column if not exists domain text;
+
+drop index if exists public.spark_codes_short_code_key;
+create unique index if not exists spark_codes_domain_short_code_key
+  on public.spark_codes ((coalesce(domain, '')), lower(short_code));
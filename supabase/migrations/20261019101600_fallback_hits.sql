@@ -0,0 +1,30 @@
+-- Fallback URLs for expired codes and unknown links, and logging of those
+-- hits. Expired and not-found hits are scan_events with their own outcome, so
+-- they never count as scans. A not-found hit on a custom domain has no code,
+-- only the domain's owner in user_id.
+
+alter table public.profiles
+  add column if not exists fallback_url text;
+
+alter table public.spark_codes
+  add column if not exists expired_fallback_url text;
+
+alter table public.scan_events
+  add column if not exists outcome text not null default 'redirect'
+    check (outcome in ('redirect', 'expired', 'not_found', 'desktop_handoff')),
+  add column if not exists requested_code text,
+  add column if not exists user_id uuid references auth.users (id) on delete cascade,
+  alter column spark_code_id drop not null;
+
+update public.scan_events e
+set user_id = c.user_id
+from public.spark_codes c
+where e.spark_code_id = c.id and e.user_id is null;
+
+create index if not exists scan_events_user_id_idx on public.scan_events (user_id);
+
+-- Events of a code are visible through the code; hits without one through user_id.
+create policy "Owners read their fallback hits"
+  on public.scan_events for select
+  to authenticated
+  using (spark_code_id is null and user_id = auth.uid());
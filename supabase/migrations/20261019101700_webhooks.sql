@@ -0,0 +1,49 @@
+-- Outbound scan webhooks (backend/webhooks.ts) and a log of every delivery
+-- attempt. Creators manage their webhooks through the webhooks tRPC router
+-- as themselves; scan deliveries run on the service role.
+
+create table if not exists public.webhooks (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  url text not null,
+  secret text not null,
+  is_active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists webhooks_user_id_idx on public.webhooks (user_id);
+
+create table if not exists public.webhook_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  webhook_id uuid not null references public.webhooks (id) on delete cascade,
+  event_type text not null check (event_type in ('scan.created', 'test')),
+  attempt integer not null,
+  status_code integer,
+  success boolean not null,
+  error text,
+  duration_ms integer not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists webhook_deliveries_webhook_id_idx
+  on public.webhook_deliveries (webhook_id, created_at desc);
+
+alter table public.webhooks enable row level security;
+alter table public.webhook_deliveries enable row level security;
+
+create policy "Owners manage their webhooks"
+  on public.webhooks for all
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- Test events are delivered as the creator, so they log their own attempts.
+create policy "Owners read their deliveries"
+  on public.webhook_deliveries for select
+  to authenticated
+  using (exists (select 1 from public.webhooks w where w.id = webhook_id and w.user_id = auth.uid()));
+
+create policy "Owners log their deliveries"
+  on public.webhook_deliveries for insert
+  to authenticated
+  with check (exists (select 1 from public.webhooks w where w.id = webhook_id and w.user_id = auth.uid()));
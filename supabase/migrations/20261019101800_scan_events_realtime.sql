@@ -0,0 +1,13 @@
+-- Streams new scan_events to the code detail screen (Supabase Realtime).
+-- Subscribers only receive rows their RLS policies let them select.
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'scan_events'
+  ) then
+    alter publication supabase_realtime add table public.scan_events;
+  end if;
+end;
+$$;
@@ -0,0 +1,6 @@
+-- Normalised scan source (tiktok, instagram, qr, bio, ...; backend/scan-sources.ts)
+-- and the referring host it was derived from, when there was one.
+
+alter table public.scan_events
+  add column if not exists source text,
+  add column if not exists referrer text;
@@ -0,0 +1,5 @@
+-- Result of the last destination link check (backend/link-health.ts):
+-- { checked_at, broken, links: [...] }, written by the link-health job.
+
+alter table public.spark_codes
+  add column if not exists link_health jsonb;
@@ -0,0 +1,45 @@
+-- Scheduled activation and expiry (backend/status-transitions.ts) with a
+-- history of every status change.
+--
+-- expires_at becomes timestamptz so the job and the redirect compare
+-- instants: as text, a date-only '2026-11-01' sorts against ISO timestamps by
+-- characters, not time. Date-only values are read as midnight UTC, as the
+-- app's `new Date('2026-11-01')` does.
+
+alter table public.spark_codes
+  alter column expires_at type timestamptz using expires_at::timestamptz,
+  add column if not exists activates_at timestamptz;
+
+create index if not exists spark_codes_expires_at_idx
+  on public.spark_codes (expires_at) where expires_at is not null;
+create index if not exists spark_codes_activates_at_idx
+  on public.spark_codes (activates_at) where activates_at is not null;
+
+create table if not exists public.spark_code_status_history (
+  id uuid primary key default gen_random_uuid(),
+  spark_code_id uuid not null references public.spark_codes (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  from_status text not null,
+  to_status text not null,
+  reason text not null check (reason in ('expired', 'scheduled_start', 'manual')),
+  changed_at timestamptz not null default now()
+);
+
+create index if not exists spark_code_status_history_code_idx
+  on public.spark_code_status_history (spark_code_id, changed_at desc);
+
+alter table public.spark_code_status_history enable row level security;
+
+-- The status job writes on the service role; manual changes are written by the creator.
+create policy "Owners read their status history"
+  on public.spark_code_status_history for select
+  to authenticated
+  using (user_id = auth.uid());
+
+create policy "Owners record their status changes"
+  on public.spark_code_status_history for insert
+  to authenticated
+  with check (
+    user_id = auth.uid()
+    and exists (select 1 from public.spark_codes c where c.id = spark_code_id and c.user_id = auth.uid())
+  );
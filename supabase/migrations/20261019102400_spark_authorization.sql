@@ -0,0 +1,14 @@
+-- TikTok Spark Ads authorization windows. The start is a date or a full
+-- timestamp from the form, so it is stored as timestamptz; expires_at is
+-- derived from it in the app. Renewals point back at the code they replace.
+
+alter table public.spark_codes
+  add column if not exists authorization_start timestamptz,
+  add column if not exists authorization_days integer
+    check (authorization_days in (7, 30, 60, 365)),
+  add column if not exists renewed_from_id uuid
+    references public.spark_codes (id) on delete set null;
+
+create index if not exists spark_codes_renewed_from_id_idx
+  on public.spark_codes (renewed_from_id)
+  where renewed_from_id is not null;
@@ -0,0 +1,4 @@
+-- When a code was last sent to the brand from the app.
+
+alter table public.spark_codes
+  add column if not exists sent_to_brand_at timestamptz;
@@ -0,0 +1,115 @@
+-- Scan analytics for the scanAnalytics tRPC router, one round-trip per request.
+-- Both functions run as the caller (security invoker), so the owner-only
+-- row-level security on spark_codes and scan_events still applies.
+--
+-- Apply with `supabase db push` or paste into the SQL editor.
+
+-- Per-code summary as a ScanAnalytics-shaped JSON object (bot_scans and
+-- suspicious_traffic are derived by the backend). Breakdowns, unique visitors
+-- and last_scan_at count human scans only; total_scans includes bots.
+-- unique_visitors counts distinct ip_hash + device + OS per UTC day.
+create or replace function public.scan_analytics(
+  p_spark_code_ids uuid[],
+  p_from timestamptz default null,
+  p_to timestamptz default null
+)
+returns table (spark_code_id uuid, analytics jsonb)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  with events as (
+    select
+      e.spark_code_id,
+      e.outcome,
+      e.is_bot is true as is_bot,
+      e.scanned_at,
+      (e.scanned_at at time zone 'utc')::date as scan_day,
+      e.ip_hash,
+      e.device_type,
+      e.os,
+      e.country,
+      e.variant_id,
+      e.source
+    from scan_events e
+    where e.spark_code_id = any(p_spark_code_ids)
+      and (p_from is null or e.scanned_at >= p_from)
+      and (p_to is null or e.scanned_at < p_to)
+  ),
+  human as (
+    select * from events where outcome = 'redirect' and not is_bot
+  )
+  select
+    c.id,
+    jsonb_build_object(
+      'total_scans', (select count(*) from events e where e.spark_code_id = c.id and e.outcome = 'redirect'),
+      'human_scans', (select count(*) from human h where h.spark_code_id = c.id),
+      'unique_visitors', (
+        select count(*) from (
+          select distinct h.ip_hash, h.device_type, h.os, h.scan_day
+          from human h where h.spark_code_id = c.id
+        ) v
+      ),
+      'expired_hits', (
+        select count(*) from events e
+        where e.spark_code_id = c.id and e.outcome = 'expired' and not e.is_bot
+      ),
+      'last_scan_at', (select max(h.scanned_at) from human h where h.spark_code_id = c.id),
+      'suspicious_traffic_at', c.suspicious_traffic_at,
+      'scans_by_day', coalesce((
+        select jsonb_agg(jsonb_build_object('date', g.scan_day::text, 'count', g.n) order by g.scan_day)
+        from (select h.scan_day, count(*) as n from human h where h.spark_code_id = c.id group by 1) g
+      ), '[]'::jsonb),
+      'scans_by_device', coalesce((
+        select jsonb_agg(jsonb_build_object('device_type', g.k, 'count', g.n) order by g.n desc)
+        from (select coalesce(h.device_type, 'Unknown') as k, count(*) as n from human h where h.spark_code_id = c.id group by 1) g
+      ), '[]'::jsonb),
+      'scans_by_os', coalesce((
+        select jsonb_agg(jsonb_build_object('os', g.k, 'count', g.n) order by g.n desc)
+        from (select coalesce(h.os, 'Unknown') as k, count(*) as n from human h where h.spark_code_id = c.id group by 1) g
+      ), '[]'::jsonb),
+      'scans_by_country', coalesce((
+        select jsonb_agg(jsonb_build_object('country', g.k, 'count', g.n) order by g.n desc)
+        from (select coalesce(h.country, 'Unknown') as k, count(*) as n from human h where h.spark_code_id = c.id group by 1) g
+      ), '[]'::jsonb),
+      'scans_by_variant', coalesce((
+        select jsonb_agg(jsonb_build_object('variant_id', g.k, 'count', g.n) order by g.k)
+        from (
+          select h.variant_id as k, count(*) as n from human h
+          where h.spark_code_id = c.id and h.variant_id is not null group by 1
+        ) g
+      ), '[]'::jsonb),
+      'scans_by_source', coalesce((
+        select jsonb_agg(jsonb_build_object('source', g.k, 'count', g.n) order by g.n desc)
+        from (select coalesce(h.source, 'unknown') as k, count(*) as n from human h where h.spark_code_id = c.id group by 1) g
+      ), '[]'::jsonb)
+    )
+  from spark_codes c
+  where c.id = any(p_spark_code_ids);
+$$;
+
+-- Human scans per code, for the list screen.
+create or replace function public.scan_totals(
+  p_spark_code_ids uuid[],
+  p_from timestamptz default null,
+  p_to timestamptz default null
+)
+returns table (spark_code_id uuid, total_scans bigint)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select e.spark_code_id, count(*)
+  from scan_events e
+  where e.spark_code_id = any(p_spark_code_ids)
+    and e.outcome = 'redirect'
+    and e.is_bot is not true
+    and (p_from is null or e.scanned_at >= p_from)
+    and (p_to is null or e.scanned_at < p_to)
+  group by e.spark_code_id;
+$$;
+
+grant execute on function public.scan_analytics(uuid[], timestamptz, timestamptz) to authenticated;
+grant execute on function public.scan_totals(uuid[], timestamptz, timestamptz) to authenticated;
@@ -0,0 +1,53 @@
+-- Atomic scan cap for codes with max_scans, called by the redirect (backend/hono.ts).
+--
+-- The cap check and the insert run in one transaction with the code row
+-- locked, so concurrent hits can't both take the last scan. Every redirect
+-- counts, bots included; the backend turns throttled hits on capped codes
+-- away rather than redirect them unlogged. Returns the new event id, or null
+-- when the cap was already used up.
+--
+-- Only the redirect's service-role client may call it: anyone else could log
+-- scans for any code.
+create or replace function public.log_capped_scan(p_event jsonb)
+returns uuid
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_code_id uuid := (p_event->>'spark_code_id')::uuid;
+  v_max_scans integer;
+  v_used bigint;
+  v_id uuid;
+begin
+  select max_scans into v_max_scans from spark_codes where id = v_code_id for update;
+  if not found then
+    return null;
+  end if;
+
+  if v_max_scans is not null then
+    -- Keep in step with countCountedScans in backend/hono.ts.
+    select count(*) into v_used
+    from scan_events
+    where spark_code_id = v_code_id and outcome = 'redirect';
+    if v_used >= v_max_scans then
+      return null;
+    end if;
+  end if;
+
+  insert into scan_events (
+    spark_code_id, device_type, os, ip_hash, country, city, variant_id, geo_rule_id,
+    is_bot, source, referrer, in_app_browser, outcome
+  )
+  select
+    e.spark_code_id, e.device_type, e.os, e.ip_hash, e.country, e.city, e.variant_id, e.geo_rule_id,
+    coalesce(e.is_bot, false), e.source, e.referrer, e.in_app_browser, e.outcome
+  from jsonb_populate_record(null::scan_events, p_event) e
+  returning id into v_id;
+
+  return v_id;
+end;
+$$;
+
+revoke execute on function public.log_capped_scan(jsonb) from public, anon, authenticated;
+grant execute on function public.log_capped_scan(jsonb) to service_role;
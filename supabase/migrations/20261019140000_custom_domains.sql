@@ -0,0 +1,64 @@
+-- Custom short-link domains with DNS ownership checks.
+--
+-- A creator claims a domain (pending row with a random token), publishes
+--   _creatorshelf.<domain>  TXT  "creatorshelf-verify=<token>"
+-- and asks the backend to verify it. Only verified rows route traffic, and a
+-- domain can be verified by one account at a time. Claims, verification and
+-- removal go through the customDomains tRPC router on the service role;
+-- clients can read their own rows but never write them.
+create table if not exists public.custom_domains (
+  domain text not null,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  verification_token text not null,
+  verified_at timestamptz,
+  created_at timestamptz not null default now(),
+  primary key (domain, user_id)
+);
+
+create unique index if not exists custom_domains_verified_domain
+  on public.custom_domains (domain)
+  where verified_at is not null;
+
+alter table public.custom_domains enable row level security;
+
+create policy "Owners read their domains"
+  on public.custom_domains for select
+  to authenticated
+  using (user_id = auth.uid());
+
+-- The redirect resolves the Host header on the service role, so anon needs
+-- no policy here.
+
+-- Domains already typed into profiles become pending claims; they stop
+-- routing until their owner verifies them.
+insert into public.custom_domains (domain, user_id, verification_token)
+select distinct d.domain, p.user_id, gen_random_uuid()::text
+from public.profiles p
+cross join lateral unnest(p.custom_domains) as d(domain)
+on conflict do nothing;
+
+update public.profiles set custom_domains = '{}' where cardinality(custom_domains) > 0;
+
+-- profiles.custom_domains mirrors the verified rows for the app; only the
+-- backend (service role) may change it.
+create or replace function public.protect_profile_custom_domains()
+returns trigger
+language plpgsql
+as $$
+begin
+  if auth.role() is distinct from 'service_role'
+    and (
+      (tg_op = 'INSERT' and coalesce(cardinality(new.custom_domains), 0) > 0)
+      or (tg_op = 'UPDATE' and new.custom_domains is distinct from old.custom_domains)
+    )
+  then
+    raise exception 'custom_domains is managed by the server' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists protect_profile_custom_domains on public.profiles;
+create trigger protect_profile_custom_domains
+  before insert or update on public.profiles
+  for each row execute function public.protect_profile_custom_domains();
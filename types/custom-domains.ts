@@ -0,0 +1,9 @@
+/** A domain claimed for short links; only verified ones serve traffic. */
+export type CustomDomain = {
+  domain: string;
+  verified_at: string | null;
+  created_at: string;
+  /** TXT record that proves ownership: publish `txt_value` at `txt_name`. */
+  txt_name: string;
+  txt_value: string;
+};
@@ -2,5 +2,11 @@ export type Profile = {
   id: string;
   user_id: string;
   first_name: string;
+  /** Public link-in-bio handle, served at `/u/:handle`; stored lowercase. */
+  handle: string | null;
+  /** Verified short-link hostnames (e.g. `go.mybrand.com`); kept in sync by the backend. */
+  custom_domains: string[];
+  /** Default destination for expired codes and unknown links on custom domains. */
+  fallback_url: string | null;
   created_at: string;
 };
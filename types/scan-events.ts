@@ -1,18 +1,96 @@
+/**
+ * `redirect` is a normal scan; fallback hits and desktop hand-off page views
+ * (the visitor was shown a QR for their phone) are logged but never counted as scans.
+ */
+export type ScanOutcome = 'redirect' | 'expired' | 'not_found' | 'desktop_handoff';
+
+/**
+ * Normalized from the short link's `src`/`ref` tag, the Referer header or the in-app browser.
+ * `desktop_qr` is a phone scan of the desktop hand-off QR; `bio` a click on the link-in-bio page.
+ */
+export type ScanSource =
+  | 'tiktok'
+  | 'instagram'
+  | 'youtube'
+  | 'email'
+  | 'direct'
+  | 'qr'
+  | 'desktop_qr'
+  | 'bio'
+  | 'other';
+
 export type ScanEvent = {
   id: string;
-  spark_code_id: string;
+  /** Null for not-found hits, which only know the owner via the custom domain. */
+  spark_code_id: string | null;
+  user_id: string | null;
+  outcome: ScanOutcome;
+  /** Short code as typed, kept for expired and not-found hits. */
+  requested_code: string | null;
   scanned_at: string;
   device_type: string | null;
   os: string | null;
   country: string | null;
   city: string | null;
   ip_hash: string | null;
+  variant_id: string | null;
+  geo_rule_id: string | null;
+  is_bot: boolean;
+  /** Null on scans logged before source attribution. */
+  source: ScanSource | null;
+  /** Host of the Referer header, without `www.`. */
+  referrer: string | null;
+  /** In-app browser the scan came from (`tiktok`, `instagram`, `facebook`, `snapchat`). */
+  in_app_browser: string | null;
 };
 
+/**
+ * Breakdowns count human scans only; `total_scans` includes bot hits.
+ * `unique_visitors` dedupes by ip_hash + device + OS per UTC day.
+ */
 export type ScanAnalytics = {
   total_scans: number;
+  human_scans: number;
+  bot_scans: number;
+  unique_visitors: number;
   scans_by_day: { date: string; count: number }[];
   scans_by_device: { device_type: string; count: number }[];
   scans_by_os: { os: string; count: number }[];
   scans_by_country: { country: string; count: number }[];
+  scans_by_variant: { variant_id: string; count: number }[];
+  scans_by_source: { source: string; count: number }[];
+  /** Last time the redirect throttled this code; throttled hits are not logged. */
+  suspicious_traffic_at: string | null;
+  /** True when that happened inside the requested range. */
+  suspicious_traffic: boolean;
+  /** Visits after the code expired; sent to the fallback URL or page instead. */
+  expired_hits: number;
+  /** Most recent human scan in the range. */
+  last_scan_at: string | null;
+};
+
+/** ISO timestamps; `from` is inclusive, `to` exclusive. Omit either for an open range. */
+export type ScanDateRange = {
+  from?: string;
+  to?: string;
+};
+
+/** The summary and the events are separate CSV files; JSON holds both. */
+export type ScanExportFormat = 'summary_csv' | 'events_csv' | 'json';
+
+/** Exported rows leave out the visitor hash and owner id. */
+export type ScanExportEvent = Omit<ScanEvent, 'ip_hash' | 'user_id'>;
+
+export type ScanExportCode = {
+  id: string;
+  code: string;
+  short_code: string;
+  analytics: ScanAnalytics;
+};
+
+export type ScanExport = {
+  exported_at: string;
+  range: ScanDateRange;
+  codes: ScanExportCode[];
+  events: ScanExportEvent[];
 };
@@ -1,3 +1,60 @@
+export type SparkCodeVariant = {
+  id: string;
+  url: string;
+  weight: number;
+};
+
+/**
+ * Ordered geo routing rule. `countries` holds ISO codes or region aliases
+ * like `EU`; an empty list is a catch-all.
+ */
+export type SparkCodeGeoRule = {
+  id: string;
+  countries: string[];
+  url: string;
+};
+
+/** A destination that replaces `destination_url` between `starts_at` and `ends_at` (ISO timestamps, open-ended when null). */
+export type SparkCodeScheduledDestination = {
+  id: string;
+  url: string;
+  starts_at: string | null;
+  ends_at: string | null;
+};
+
+/** What desktop visitors get: the usual redirect, or a page with a QR code to continue on their phone. */
+export type SparkCodeDesktopBehavior = 'redirect' | 'qr_handoff';
+
+/** One hop of a redirect chain: the URL requested and the 3xx it answered with. */
+export type LinkRedirectHop = {
+  url: string;
+  status: number;
+};
+
+export type LinkCheckResult = {
+  /** Field the URL came from: `destination_url`, `deep_link_ios`, `variant:<id>`, ... */
+  source: string;
+  url: string;
+  /** Status of the last response in the chain; null when the request failed. */
+  status: number | null;
+  broken: boolean;
+  error: string | null;
+  redirects: LinkRedirectHop[];
+  final_url: string;
+};
+
+export type SparkCodeLinkHealth = {
+  checked_at: string;
+  /** True when any checked link is broken. */
+  broken: boolean;
+  links: LinkCheckResult[];
+};
+
+export type SparkCodeStatus = 'draft' | 'sent_to_brand' | 'active' | 'expired';
+
+/** Lengths TikTok offers for a Spark Ads authorization. */
+export type SparkAuthorizationDays = 7 | 30 | 60 | 365;
+
 export type SparkCode = {
   id: string;
   user_id: string;
@@ -6,20 +63,94 @@ export type SparkCode = {
   deep_link_ios: string | null;
   deep_link_android: string | null;
   short_code: string;
+  /** Previous short codes that still redirect here after a slug change. */
+  short_code_aliases: string[];
+  /** Custom domain the short link is served on; null uses the default host. Slugs are unique per domain. */
+  domain: string | null;
   is_active: boolean;
   brand_name: string | null;
   platform: string | null;
-  status: 'draft' | 'sent_to_brand' | 'active' | 'expired';
+  status: SparkCodeStatus;
+  /** Start of the Spark Ads authorization; with `authorization_days` it sets `expires_at`. */
+  authorization_start: string | null;
+  authorization_days: SparkAuthorizationDays | null;
+  /** The code this one renewed; renewals form a chain back to the first authorization. */
+  renewed_from_id: string | null;
+  /** When the code was last sent to the brand from the app. */
+  sent_to_brand_at: string | null;
+  /** Scheduled start: the status job makes a draft or sent code active at this time. */
+  activates_at: string | null;
   expires_at: string | null;
+  /** Where visitors go once the code expires; falls back to the profile's `fallback_url`. */
+  expired_fallback_url: string | null;
   note: string | null;
+  variants: SparkCodeVariant[];
+  sticky_variants: boolean;
+  geo_rules: SparkCodeGeoRule[];
+  destination_schedule: SparkCodeScheduledDestination[];
+  /** Appended to http(s) destinations; values may use {short_code}, {os}, {country}. */
+  query_params: Record<string, string>;
+  /** Redirects allowed before the link stops redirecting, bot hits included; 1 makes a one-time link. */
+  max_scans: number | null;
+  /** PBKDF2 hash set by the backend; visitors must enter the password first. */
+  password_hash: string | null;
+  /** Link-in-bio entry settings: shown when visible, sorted by position ascending. */
+  bio_visible: boolean;
+  bio_position: number;
+  /** Button title on the bio page; falls back to `code`. */
+  bio_label: string | null;
+  thumbnail_url: string | null;
+  desktop_behavior: SparkCodeDesktopBehavior;
+  /** Set by the redirect when this code trips a rate limit. */
+  suspicious_traffic_at: string | null;
+  /** Latest result of the destination link health check. */
+  link_health: SparkCodeLinkHealth | null;
   created_at: string;
 };
 
+type BioFields = 'bio_visible' | 'bio_position' | 'bio_label' | 'thumbnail_url';
+
 export type CreateSparkCodeInput = Omit<
   SparkCode,
-  'id' | 'user_id' | 'created_at' | 'short_code'
->;
+  | 'id'
+  | 'user_id'
+  | 'created_at'
+  | 'short_code'
+  | 'short_code_aliases'
+  | 'password_hash'
+  | 'suspicious_traffic_at'
+  | 'link_health'
+  | 'sent_to_brand_at'
+  | BioFields
+> &
+  Partial<Pick<SparkCode, BioFields>> & {
+    /** Optional vanity slug; a random code is generated when omitted. */
+    short_code?: string | null;
+    /** Plaintext access password; hashed server-side, never stored as-is. */
+    password?: string | null;
+  };
+
+/** `skipped` indexes refer to the input list. */
+export type BulkCreateSparkCodesResult = {
+  created: SparkCode[];
+  skipped: { index: number; reason: string }[];
+};
 
 export type SparkCodeWithStats = SparkCode & {
   total_scans: number;
 };
+
+export type BioEntryUpdate = Pick<SparkCode, 'id' | BioFields>;
+
+/** Why a status changed: the scheduled job (expiry or start time) or the creator. */
+export type SparkCodeStatusChangeReason = 'expired' | 'scheduled_start' | 'manual';
+
+export type SparkCodeStatusChange = {
+  id: string;
+  spark_code_id: string;
+  user_id: string;
+  from_status: SparkCodeStatus;
+  to_status: SparkCodeStatus;
+  reason: SparkCodeStatusChangeReason;
+  changed_at: string;
+};
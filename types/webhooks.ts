@@ -0,0 +1,40 @@
+export type Webhook = {
+  id: string;
+  user_id: string;
+  url: string;
+  /** Shared secret for the `X-CreatorShelf-Signature` HMAC. */
+  secret: string;
+  is_active: boolean;
+  created_at: string;
+};
+
+export type WebhookEventType = 'scan.created' | 'test';
+
+/** One HTTP attempt; failed deliveries are retried with backoff and each try is logged. */
+export type WebhookDelivery = {
+  id: string;
+  webhook_id: string;
+  event_type: WebhookEventType;
+  attempt: number;
+  status_code: number | null;
+  success: boolean;
+  error: string | null;
+  duration_ms: number;
+  created_at: string;
+};
+
+export type ScanWebhookPayload = {
+  id: string;
+  type: WebhookEventType;
+  created_at: string;
+  data: {
+    scan_event_id: string | null;
+    spark_code_id: string;
+    code: string;
+    short_code: string;
+    device_type: string | null;
+    os: string | null;
+    country: string | null;
+    source: string | null;
+  };
+};